@@ -0,0 +1,30 @@
+-- ============================================================
+-- GENERATION HISTORY: Supabase mirror of local LBL history
+-- Run in Supabase SQL Editor, then set VITE_SUPABASE_GENERATIONS=true in .env
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS generations (
+  id TEXT PRIMARY KEY,
+  document_id TEXT NOT NULL,
+  document_name TEXT,
+  image_base64 TEXT NOT NULL,
+  mime_type TEXT NOT NULL DEFAULT 'image/png',
+  prompt TEXT NOT NULL,
+  focus_area TEXT NOT NULL,
+  selected_component_ids TEXT[] NOT NULL DEFAULT '{}',
+  reference_images JSONB NOT NULL DEFAULT '[]',
+  variant_group_id TEXT,
+  starred BOOLEAN NOT NULL DEFAULT FALSE,
+  edited_from_id TEXT,
+  component_revisions JSONB NOT NULL DEFAULT '[]',
+  started_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS generations_document_id_idx ON generations (document_id, created_at DESC);
+
+-- Existing tables: add the component revision column
+ALTER TABLE generations ADD COLUMN IF NOT EXISTS component_revisions JSONB NOT NULL DEFAULT '[]';
+
+-- Verify
+SELECT id, document_id, focus_area, created_at FROM generations ORDER BY created_at DESC LIMIT 10;
@@ -1,6 +1,7 @@
 /**
  * Font Download Script
- * Downloads Noto Sans fonts for Hindi (Devanagari) and Tamil
+ * Downloads the Noto Sans fonts for every overlay language (Latin and the Indic scripts)
+ * The overlay server refuses to start without them
  *
  * Run: node scripts/downloadFonts.js
  */
@@ -11,25 +12,24 @@ const path = require('path');
 
 const FONTS_DIR = path.join(__dirname, '../fonts');
 
-const FONTS = [
-  {
-    name: 'NotoSansDevanagari-Regular.ttf',
-    url: 'https://github.com/googlefonts/noto-fonts/raw/main/hinted/ttf/NotoSansDevanagari/NotoSansDevanagari-Regular.ttf'
-  },
-  {
-    name: 'NotoSansDevanagari-Bold.ttf',
-    url: 'https://github.com/googlefonts/noto-fonts/raw/main/hinted/ttf/NotoSansDevanagari/NotoSansDevanagari-Bold.ttf'
-  },
-  {
-    name: 'NotoSansTamil-Regular.ttf',
-    url: 'https://github.com/googlefonts/noto-fonts/raw/main/hinted/ttf/NotoSansTamil/NotoSansTamil-Regular.ttf'
-  },
-  {
-    name: 'NotoSansTamil-Bold.ttf',
-    url: 'https://github.com/googlefonts/noto-fonts/raw/main/hinted/ttf/NotoSansTamil/NotoSansTamil-Bold.ttf'
-  }
+// One folder per family in the noto-fonts repo; keep in sync with server/languageRegistryServer.ts
+const FAMILIES = [
+  'NotoSans',            // English and Latin words in every language
+  'NotoSansDevanagari',  // Hindi, Marathi
+  'NotoSansBengali',
+  'NotoSansGujarati',
+  'NotoSansGurmukhi',    // Punjabi
+  'NotoSansTamil',
+  'NotoSansTelugu',
+  'NotoSansKannada',
+  'NotoSansMalayalam'
 ];
 
+const FONTS = FAMILIES.flatMap(family => ['Regular', 'Bold'].map(weight => ({
+  name: `${family}-${weight}.ttf`,
+  url: `https://github.com/googlefonts/noto-fonts/raw/main/hinted/ttf/${family}/${family}-${weight}.ttf`
+})));
+
 const ALTERNATIVE_FONTS = [
   {
     name: 'NotoSansDevanagari-Regular.ttf',
@@ -92,7 +92,7 @@ function downloadFile(url, destPath) {
 }
 
 async function downloadFonts() {
-  console.log('📥 Downloading fonts for Hindi and Tamil text rendering...\n');
+  console.log('📥 Downloading Noto fonts for overlay text rendering...\n');
 
   if (!fs.existsSync(FONTS_DIR)) {
     fs.mkdirSync(FONTS_DIR, { recursive: true });
@@ -146,8 +146,7 @@ async function downloadFonts() {
   if (failCount > 0) {
     console.log('\n⚠️  Some fonts failed to download.');
     console.log('   You can manually download them from:');
-    console.log('   https://fonts.google.com/noto/specimen/Noto+Sans+Devanagari');
-    console.log('   https://fonts.google.com/noto/specimen/Noto+Sans+Tamil');
+    console.log('   https://fonts.google.com/noto (search for the family, e.g. Noto Sans Telugu)');
     console.log(`\n   Place the .ttf files in: ${FONTS_DIR}`);
   } else {
     console.log('\n✅ All fonts downloaded successfully!');
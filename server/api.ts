@@ -1,8 +1,9 @@
 /**
- * Text Overlay API Server
- * Express server for processing Hindi/Tamil text overlays
+ * LBL API Server
+ * Express server for Gemini image generation/extraction and Indian-language text overlays
  *
  * Run: npx ts-node server/api.ts
+ * Offline: IMAGE_PROVIDER=mock npx tsx server/api.ts
  */
 
 import express from 'express';
@@ -11,47 +12,399 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import {
   applyTextOverlayBase64,
+  getRegionError,
   registerFonts,
+  getMissingFonts,
   LBL_LAYOUTS,
   TextRegion,
-  OverlayConfig
+  OverlayConfig,
+  BilingualArrangement
 } from './textOverlayServer.js';
+import { initGemini } from './geminiServer.js';
+import { editImageRegion, EditRegion } from './regionEditServer.js';
+import {
+  initComponentRepository,
+  listDocuments,
+  listComponents,
+  createDocument,
+  addComponent,
+  updateComponent,
+  deleteComponent,
+  resolveRepositoryPath,
+  NewComponent,
+  ComponentChanges
+} from './componentRepositoryServer.js';
+import {
+  initTranslationMemory,
+  lookupTranslation,
+  findGlossaryIssues,
+  listEntries,
+  createEntry,
+  updateEntry,
+  deleteEntry,
+  listGlossary,
+  createGlossaryTerm,
+  updateGlossaryTerm,
+  deleteGlossaryTerm,
+  exportEntries,
+  importEntries,
+  translateWithMemory,
+  ExchangeFormat,
+  TranslationStatus
+} from './translationMemoryServer.js';
+import { getTranslationProvider, listTranslationProviders } from './translationProviders.js';
+import { initLayoutStore, listLayouts, getLayoutRegions, saveLayout, deleteLayout } from './layoutStoreServer.js';
+import {
+  LANGUAGES,
+  LANGUAGE_NAMES,
+  isSupportedLanguage,
+  getLanguage
+} from './languageRegistryServer.js';
+import {
+  EXTRACT_TASKS,
+  getImageProvider,
+  listImageProviders,
+  getErrorStatus,
+  getRetryAfterSeconds,
+  ContentPart
+} from './imageProviders.js';
 
 // ESM equivalent of __dirname
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Load .env (GEMINI_API_KEY) if present
+try {
+  process.loadEnvFile(path.join(__dirname, '../.env'));
+} catch {
+  // No .env file - rely on the process environment
+}
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
 // Middleware
-app.use(cors());
+app.use(cors({ exposedHeaders: ['Retry-After'] })); // Retry-After is read by the client job queue
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
-// Register fonts on startup
-const fontsDir = path.join(__dirname, '../fonts');
-registerFonts(fontsDir);
+// Register fonts on startup: a missing font stops the server unless ALLOW_MISSING_FONTS=true,
+// which keeps it running and refuses overlays in the languages without their fonts
+registerFonts(process.env.FONTS_DIR || path.join(__dirname, '../fonts'), {
+  allowMissing: process.env.ALLOW_MISSING_FONTS === 'true',
+});
+
+// Local component repository (offline alternative to Supabase storage)
+initComponentRepository(process.env.COMPONENT_REPOSITORY_DIR || path.join(__dirname, '../data'));
+
+// Translation memory and glossary (seeded with the built-in Hindi/Tamil translations)
+initTranslationMemory(process.env.TRANSLATION_MEMORY_FILE || path.join(__dirname, '../data/translation-memory.json'));
+
+// Overlay layouts saved from the layout editor
+initLayoutStore(process.env.LAYOUTS_FILE || path.join(__dirname, '../data/layouts.json'));
+
+// Gemini client (key stays on the server)
+initGemini();
+console.log(`Image provider: ${getImageProvider().name} (available: ${listImageProviders().join(', ')})`);
+console.log(`Translation provider: ${getTranslationProvider().name} (available: ${listTranslationProviders().join(', ')})`);
+
+// Tell clients how long to back off after a rate-limit error
+function setRetryAfter(res: express.Response, error: unknown): void {
+  const seconds = getRetryAfterSeconds(error);
+  if (seconds !== null) {
+    res.set('Retry-After', String(seconds));
+  }
+}
 
 // Health check
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', service: 'text-overlay-api' });
+  res.json({ status: 'ok', service: 'lbl-api' });
+});
+
+// API configuration status (used by the frontend instead of checking for a key)
+app.get('/api/status', (req, res) => {
+  const provider = getImageProvider();
+  res.json({ provider: provider.name, configured: provider.isConfigured(), missingOverlayFonts: getMissingFonts() });
+});
+
+// Generate image from prompt + labeled inlineData parts (active image provider)
+app.post('/api/generate', async (req, res) => {
+  try {
+    const { contents, textFree = false } = req.body;
+
+    if (!contents || !Array.isArray(contents) || contents.length === 0) {
+      return res.status(400).json({ error: 'contents array is required' });
+    }
+
+    const provider = getImageProvider();
+    const result = await provider.generateImage(contents as ContentPart[], textFree === true);
+
+    res.json({
+      success: true,
+      imageBase64: result.imageBase64,
+      mimeType: result.mimeType,
+      provider: provider.name
+    });
+
+  } catch (error) {
+    console.error('Generate error:', error);
+    setRetryAfter(res, error);
+    res.status(getErrorStatus(error)).json({
+      error: 'Failed to generate image',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Extract text from a component image (active image provider)
+app.post('/api/extract', async (req, res) => {
+  try {
+    const { prompt, imageBase64, mimeType = 'image/png' } = req.body;
+
+    if (!prompt || !imageBase64) {
+      return res.status(400).json({ error: 'prompt and imageBase64 are required' });
+    }
+
+    const text = await getImageProvider().extractText(prompt, imageBase64, mimeType);
+
+    res.json({ success: true, text });
+
+  } catch (error) {
+    console.error('Extract error:', error);
+    setRetryAfter(res, error);
+    res.status(getErrorStatus(error)).json({
+      error: 'Failed to extract content',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Extract text from several labeled component images in one call (JSON response)
+app.post('/api/extract-batch', async (req, res) => {
+  try {
+    const { contents, task = 'components' } = req.body;
+
+    if (!contents || !Array.isArray(contents) || contents.length === 0) {
+      return res.status(400).json({ error: 'contents array is required' });
+    }
+    if (!EXTRACT_TASKS.includes(task)) {
+      return res.status(400).json({ error: `task must be one of: ${EXTRACT_TASKS.join(', ')}` });
+    }
+
+    const text = await getImageProvider().extractJson(contents as ContentPart[], task);
+
+    res.json({ success: true, text });
+
+  } catch (error) {
+    console.error('Batch extract error:', error);
+    setRetryAfter(res, error);
+    res.status(getErrorStatus(error)).json({
+      error: 'Failed to extract content',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Edit one rectangle of an existing image, keeping everything outside it unchanged
+app.post('/api/edit', async (req, res) => {
+  try {
+    const { imageBase64, region, instruction } = req.body;
+
+    if (!imageBase64 || !instruction) {
+      return res.status(400).json({ error: 'imageBase64 and instruction are required' });
+    }
+
+    const isValidRegion = region && ['x', 'y', 'width', 'height'].every(
+      key => typeof region[key] === 'number' && region[key] >= 0 && region[key] <= 1
+    );
+    if (!isValidRegion) {
+      return res.status(400).json({ error: 'region must have x, y, width, height between 0 and 1' });
+    }
+
+    const provider = getImageProvider();
+    const result = await editImageRegion(provider, imageBase64, region as EditRegion, instruction);
+
+    res.json({
+      success: true,
+      imageBase64: result.imageBase64,
+      mimeType: result.mimeType,
+      region: result.region,
+      provider: provider.name
+    });
+
+  } catch (error) {
+    console.error('Edit error:', error);
+    setRetryAfter(res, error);
+    res.status(getErrorStatus(error)).json({
+      error: 'Failed to edit image region',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+const REPOSITORY_FILES_URL = '/api/repository/files';
+
+// Map repository errors to HTTP statuses
+function getRepositoryErrorStatus(error: unknown): number {
+  const message = error instanceof Error ? error.message : '';
+  if (message === 'Component not found' || message === 'Document not found') return 404;
+  if (message === 'Invalid repository path' || message.startsWith('Invalid component ID')) return 400;
+  return 500;
+}
+
+// Pick the writable fields out of a request body
+function getComponentChanges(body: Record<string, unknown>): ComponentChanges | string {
+  const { imageBase64, content, metadata } = body;
+  if (imageBase64 !== undefined && typeof imageBase64 !== 'string') return 'imageBase64 must be a string';
+  if (content !== undefined && content !== null && typeof content !== 'string') return 'content must be a string or null';
+  if (metadata !== undefined && (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata))) {
+    return 'metadata must be an object';
+  }
+  return { imageBase64, content, metadata } as ComponentChanges;
+}
+
+// List documents in the local component repository
+app.get('/api/repository/documents', (req, res) => {
+  try {
+    res.json({ documents: listDocuments() });
+  } catch (error) {
+    console.error('Repository error:', error);
+    res.status(500).json({
+      error: 'Failed to list documents',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Create a local document from segmented component images
+app.post('/api/repository/documents', (req, res) => {
+  try {
+    const { document: details = {}, components } = req.body;
+
+    if (!Array.isArray(components)) {
+      return res.status(400).json({ error: 'components array is required' });
+    }
+
+    const isValid = components.every((c: NewComponent) =>
+      typeof c.componentId === 'string' && Number.isInteger(c.page) && c.page > 0 && typeof c.imageBase64 === 'string'
+    );
+    if (!isValid) {
+      return res.status(400).json({ error: 'each component needs componentId, page and imageBase64' });
+    }
+
+    const document = createDocument(details, components as NewComponent[]);
+    res.json({ success: true, document });
+
+  } catch (error) {
+    console.error('Repository error:', error);
+    res.status(getRepositoryErrorStatus(error)).json({
+      error: 'Failed to create document',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// List components (page images + stored content) for a local document
+app.get('/api/repository/documents/:documentId/components', (req, res) => {
+  try {
+    const components = listComponents(req.params.documentId, REPOSITORY_FILES_URL);
+    res.json({ components });
+  } catch (error) {
+    console.error('Repository error:', error);
+    res.status(getRepositoryErrorStatus(error)).json({
+      error: 'Failed to list components',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Add a component (image and/or text) to a local document
+app.post('/api/repository/documents/:documentId/components', (req, res) => {
+  try {
+    const { componentId, page } = req.body;
+    const changes = getComponentChanges(req.body);
+
+    if (typeof componentId !== 'string') {
+      return res.status(400).json({ error: 'componentId is required' });
+    }
+    if (page !== undefined && (typeof page !== 'string' || !/^page-\d+$/.test(page))) {
+      return res.status(400).json({ error: 'page must look like page-N' });
+    }
+    if (typeof changes === 'string') {
+      return res.status(400).json({ error: changes });
+    }
+
+    const component = addComponent(req.params.documentId, componentId, changes, REPOSITORY_FILES_URL, page);
+    res.json({ success: true, component });
+
+  } catch (error) {
+    console.error('Repository error:', error);
+    res.status(getRepositoryErrorStatus(error)).json({
+      error: 'Failed to add component',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Replace the image, content or metadata of a local component
+app.patch('/api/repository/documents/:documentId/components/:page/:filename', (req, res) => {
+  try {
+    const { documentId, page, filename } = req.params;
+    const changes = getComponentChanges(req.body);
+
+    if (typeof changes === 'string') {
+      return res.status(400).json({ error: changes });
+    }
+
+    const component = updateComponent(documentId, page, filename, changes, REPOSITORY_FILES_URL);
+    res.json({ success: true, component });
+
+  } catch (error) {
+    console.error('Repository error:', error);
+    res.status(getRepositoryErrorStatus(error)).json({
+      error: 'Failed to update component',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Delete a local component (?imageOnly=true keeps its text)
+app.delete('/api/repository/documents/:documentId/components/:page/:filename', (req, res) => {
+  try {
+    const { documentId, page, filename } = req.params;
+    deleteComponent(documentId, page, filename, req.query.imageOnly === 'true');
+    res.json({ success: true });
+
+  } catch (error) {
+    console.error('Repository error:', error);
+    res.status(getRepositoryErrorStatus(error)).json({
+      error: 'Failed to delete component',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Serve a component image from the local repository
+app.get('/api/repository/files/*', (req, res) => {
+  try {
+    const relativePath = (req.params as Record<string, string>)['0'];
+    res.sendFile(resolveRepositoryPath(relativePath), err => {
+      if (err && !res.headersSent) res.status(404).json({ error: 'File not found' });
+    });
+  } catch {
+    res.status(400).json({ error: 'Invalid repository path' });
+  }
 });
 
 // Get available layouts
 app.get('/api/layouts', (req, res) => {
-  const layouts = Object.keys(LBL_LAYOUTS).map(id => ({
-    id,
-    name: id.replace(/-/g, ' ').replace(/\b\w/g, c => c.toUpperCase()),
-    regionCount: LBL_LAYOUTS[id].length
-  }));
-  res.json({ layouts });
+  res.json({ layouts: listLayouts() });
 });
 
 // Get layout details
 app.get('/api/layouts/:layoutId', (req, res) => {
   const { layoutId } = req.params;
-  const layout = LBL_LAYOUTS[layoutId];
+  const layout = getLayoutRegions(layoutId);
 
   if (!layout) {
     return res.status(404).json({ error: 'Layout not found' });
@@ -60,12 +413,54 @@ app.get('/api/layouts/:layoutId', (req, res) => {
   res.json({ layoutId, regions: layout });
 });
 
+// First problem in a list of regions (null when every region can be rendered)
+function getRegionsError(regions: unknown): string | null {
+  if (!Array.isArray(regions)) return 'regions must be an array';
+  return regions.map(getRegionError).find(error => error !== null) ?? null;
+}
+
+// Save a layout from the layout editor (replaces a built-in preset with the same id)
+app.put('/api/layouts/:layoutId', (req, res) => {
+  try {
+    const { name, regions } = req.body;
+    const regionsError = getRegionsError(regions);
+    if (regionsError) {
+      return res.status(400).json({ error: regionsError });
+    }
+
+    const layout = saveLayout(req.params.layoutId, name, regions);
+    res.json({ success: true, layout });
+  } catch (error) {
+    sendLayoutError(res, error, 'save layout');
+  }
+});
+
+// Delete a saved layout (a built-in preset it replaced becomes available again)
+app.delete('/api/layouts/:layoutId', (req, res) => {
+  try {
+    deleteLayout(req.params.layoutId);
+    res.json({ success: true });
+  } catch (error) {
+    sendLayoutError(res, error, 'delete layout');
+  }
+});
+
+// Map layout store errors to HTTP statuses
+function sendLayoutError(res: express.Response, error: unknown, action: string) {
+  console.error('Layout error:', error);
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const status = message.endsWith('not found') ? 404 : message.startsWith('Invalid') ? 400 : 500;
+  res.status(status).json({ error: `Failed to ${action}`, details: message });
+}
+
 // Apply text overlay
 app.post('/api/overlay', async (req, res) => {
   try {
     const {
       imageBase64,
       language = 'Hindi',
+      secondaryLanguage,
+      arrangement = 'stacked',
       layoutId,
       regions: customRegions,
       outputFormat = 'png',
@@ -76,22 +471,48 @@ app.post('/api/overlay', async (req, res) => {
       return res.status(400).json({ error: 'imageBase64 is required' });
     }
 
-    if (!['Hindi', 'Tamil', 'English'].includes(language)) {
-      return res.status(400).json({ error: 'Invalid language. Use: Hindi, Tamil, or English' });
+    if (!isSupportedLanguage(language)) {
+      return res.status(400).json({ error: `Invalid language. Use: ${LANGUAGE_NAMES.join(', ')}` });
+    }
+
+    // Bilingual mode: every region shows both languages
+    if (secondaryLanguage !== undefined && (!isSupportedLanguage(secondaryLanguage) || secondaryLanguage === language)) {
+      return res.status(400).json({ error: `Invalid secondaryLanguage. Use a different language from: ${LANGUAGE_NAMES.join(', ')}` });
+    }
+    if (!['stacked', 'side-by-side'].includes(arrangement)) {
+      return res.status(400).json({ error: 'arrangement must be stacked or side-by-side' });
+    }
+
+    const missingFonts = getMissingFonts(secondaryLanguage ? [language, secondaryLanguage] : [language]);
+    if (missingFonts.length > 0) {
+      return res.status(503).json({
+        error: 'Overlay fonts are not installed',
+        details: `Missing overlay fonts: ${missingFonts.join(', ')}. Run "npm run setup:fonts" and restart the server`,
+        missingFonts
+      });
     }
 
     let regions: TextRegion[];
+    const layoutRegions = layoutId ? getLayoutRegions(layoutId) : null;
 
     if (customRegions && Array.isArray(customRegions)) {
       regions = customRegions;
-    } else if (layoutId && LBL_LAYOUTS[layoutId]) {
-      regions = LBL_LAYOUTS[layoutId];
+    } else if (layoutRegions) {
+      regions = layoutRegions;
     } else {
       regions = LBL_LAYOUTS['nebzmart-horizontal'];
     }
 
+    // Saved layouts are checked too: files written before validation may hold anything
+    const regionsError = getRegionsError(regions);
+    if (regionsError) {
+      return res.status(400).json({ error: regionsError });
+    }
+
     const config: OverlayConfig = {
-      language: language as 'Hindi' | 'Tamil' | 'English',
+      language,
+      secondaryLanguage,
+      arrangement: arrangement as BilingualArrangement,
       regions,
       outputFormat: outputFormat as 'png' | 'jpeg',
       quality
@@ -103,6 +524,7 @@ app.post('/api/overlay', async (req, res) => {
       success: true,
       imageBase64: resultBase64,
       language,
+      secondaryLanguage: secondaryLanguage ?? null,
       regionsApplied: regions.length
     });
 
@@ -115,53 +537,238 @@ app.post('/api/overlay', async (req, res) => {
   }
 });
 
-// Translate text endpoint
-app.post('/api/translate', (req, res) => {
+// Supported overlay languages (script, font, default line height)
+app.get('/api/languages', (req, res) => {
+  res.json({ languages: LANGUAGES });
+});
+
+// Translate texts from the translation memory (approved entries only)
+app.post('/api/translate', async (req, res) => {
   const { texts, language = 'Hindi' } = req.body;
 
   if (!texts || !Array.isArray(texts)) {
     return res.status(400).json({ error: 'texts array is required' });
   }
+  if (!isSupportedLanguage(language)) {
+    return res.status(400).json({ error: `Invalid language. Use: ${LANGUAGE_NAMES.join(', ')}` });
+  }
+
+  try {
+    const memoryLanguage = getLanguage(language)?.memoryLanguage;
+    if (!memoryLanguage) {
+      const translations = texts.map((text: string) => ({ original: text, translated: text, hasTranslation: true, match: null, score: 0 }));
+      return res.json({ language, translations });
+    }
+
+    // Memory misses are machine translated and queued for review; only approved entries reach artwork
+    const provider = getTranslationProvider();
+    const results = await translateWithMemory(texts, memoryLanguage, provider.isConfigured() ? provider : null);
+    const translations = results.map(result => {
+      const hasTranslation = result.status === 'approved' && !result.glossaryIssues;
+      return {
+        original: result.original,
+        translated: result.translated,
+        hasTranslation,
+        needsReview: !!result.status && !hasTranslation,
+        match: result.match,
+        score: result.score,
+        status: result.status,
+        entryIds: result.entryIds,
+        ...(result.glossaryIssues && { glossaryIssues: result.glossaryIssues }),
+        ...(result.error && { error: result.error })
+      };
+    });
+
+    res.json({ language, provider: provider.name, translations });
+  } catch (error) {
+    console.error('Translation error:', error);
+    res.status(500).json({
+      error: 'Failed to translate texts',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Map translation memory errors to HTTP statuses
+function getTranslationMemoryErrorStatus(error: unknown): number {
+  const message = error instanceof Error ? error.message : '';
+  if (message.endsWith('not found')) return 404;
+  if (message.startsWith('Invalid') || message.startsWith('Glossary:')) return 400;
+  return 500;
+}
+
+function sendTranslationMemoryError(res: express.Response, error: unknown, action: string) {
+  console.error('Translation memory error:', error);
+  res.status(getTranslationMemoryErrorStatus(error)).json({
+    error: `Failed to ${action}`,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+function isExchangeFormat(value: unknown): value is ExchangeFormat {
+  return value === 'tmx' || value === 'xliff';
+}
+
+// List translation memory entries (?language=&status=&q=)
+app.get('/api/tm/entries', (req, res) => {
+  try {
+    const entries = listEntries({
+      language: typeof req.query.language === 'string' ? req.query.language : undefined,
+      status: typeof req.query.status === 'string' ? req.query.status as TranslationStatus : undefined,
+      query: typeof req.query.q === 'string' ? req.query.q : undefined
+    });
+    res.json({ entries });
+  } catch (error) {
+    sendTranslationMemoryError(res, error, 'list entries');
+  }
+});
+
+// Add a translation (draft unless status is 'approved')
+app.post('/api/tm/entries', (req, res) => {
+  try {
+    const { source, language, target, status, note, updatedBy } = req.body;
+    if (typeof source !== 'string' || typeof language !== 'string' || typeof target !== 'string') {
+      return res.status(400).json({ error: 'source, language and target are required' });
+    }
+
+    const entry = createEntry({ source, language, target, status, note, updatedBy });
+    res.json({ success: true, entry, glossaryIssues: findGlossaryIssues(entry.source, entry.target, entry.language) });
+  } catch (error) {
+    sendTranslationMemoryError(res, error, 'add entry');
+  }
+});
+
+// Edit or approve a translation
+app.patch('/api/tm/entries/:id', (req, res) => {
+  try {
+    const { source, language, target, status, note, updatedBy } = req.body;
+    const entry = updateEntry(req.params.id, { source, language, target, status, note, updatedBy });
+    res.json({ success: true, entry, glossaryIssues: findGlossaryIssues(entry.source, entry.target, entry.language) });
+  } catch (error) {
+    sendTranslationMemoryError(res, error, 'update entry');
+  }
+});
+
+app.delete('/api/tm/entries/:id', (req, res) => {
+  try {
+    deleteEntry(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    sendTranslationMemoryError(res, error, 'delete entry');
+  }
+});
+
+// Exact, segment and fuzzy matches with suggestions, for translators
+app.post('/api/tm/lookup', (req, res) => {
+  try {
+    const { texts, language, includeDrafts = false } = req.body;
+    if (!Array.isArray(texts) || typeof language !== 'string') {
+      return res.status(400).json({ error: 'texts array and language are required' });
+    }
+
+    res.json({ language, results: texts.map((text: string) => lookupTranslation(String(text), language, !!includeDrafts)) });
+  } catch (error) {
+    sendTranslationMemoryError(res, error, 'look up translations');
+  }
+});
+
+app.get('/api/tm/glossary', (req, res) => {
+  try {
+    res.json({ glossary: listGlossary() });
+  } catch (error) {
+    sendTranslationMemoryError(res, error, 'list glossary');
+  }
+});
+
+// Add a locked term; translations maps language -> fixed rendering (omit to keep the term as is)
+app.post('/api/tm/glossary', (req, res) => {
+  try {
+    const { term, translations = {}, caseSensitive, note } = req.body;
+    if (typeof term !== 'string' || typeof translations !== 'object' || translations === null) {
+      return res.status(400).json({ error: 'term is required and translations must be an object' });
+    }
+
+    res.json({ success: true, term: createGlossaryTerm({ term, translations, caseSensitive, note }) });
+  } catch (error) {
+    sendTranslationMemoryError(res, error, 'add glossary term');
+  }
+});
+
+app.patch('/api/tm/glossary/:id', (req, res) => {
+  try {
+    const { term, translations, caseSensitive, note } = req.body;
+    res.json({ success: true, term: updateGlossaryTerm(req.params.id, { term, translations, caseSensitive, note }) });
+  } catch (error) {
+    sendTranslationMemoryError(res, error, 'update glossary term');
+  }
+});
+
+app.delete('/api/tm/glossary/:id', (req, res) => {
+  try {
+    deleteGlossaryTerm(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    sendTranslationMemoryError(res, error, 'delete glossary term');
+  }
+});
 
-  const TRANSLATIONS: Record<string, Record<string, string>> = {
-    Hindi: {
-      'Quick onset of action within 5 mins': '5 मिनट में तेज़ असर',
-      '12 hrs long lasting relief': '12 घंटे लंबे समय तक राहत',
-      'Reduces exacerbations by 12%-15%': 'तीव्रता को 12%-15% तक कम करता है',
-      'Improves lung function by 120 ml': 'फेफड़ों की क्षमता में 120 ml सुधार',
-      'For the use of a Registered Medical Practitioner or a Hospital or a Laboratory only':
-        'केवल पंजीकृत चिकित्सक या अस्पताल या प्रयोगशाला के उपयोग के लिए',
-    },
-    Tamil: {
-      'Quick onset of action within 5 mins': '5 நிமிடங்களில் விரைவான செயல்',
-      '12 hrs long lasting relief': '12 மணி நேரம் நீடித்த நிவாரணம்',
-      'Reduces exacerbations by 12%-15%': 'தீவிரத்தை 12%-15% குறைக்கிறது',
-      'Improves lung function by 120 ml': 'நுரையீரல் செயல்பாட்டை 120 ml மேம்படுத்துகிறது',
-      'For the use of a Registered Medical Practitioner or a Hospital or a Laboratory only':
-        'பதிவு செய்யப்பட்ட மருத்துவர் அல்லது மருத்துவமனை அல்லது ஆய்வகத்தின் பயன்பாட்டிற்கு மட்டும்',
+// Download the memory as TMX or XLIFF (?format=tmx|xliff&language=)
+app.get('/api/tm/export', (req, res) => {
+  try {
+    const format = req.query.format || 'tmx';
+    if (!isExchangeFormat(format)) {
+      return res.status(400).json({ error: 'format must be tmx or xliff' });
     }
-  };
 
-  const langTranslations = TRANSLATIONS[language] || {};
+    const language = typeof req.query.language === 'string' ? req.query.language : undefined;
+    res.type('application/xml');
+    res.attachment(`translation-memory${language ? `-${language.toLowerCase()}` : ''}.${format === 'tmx' ? 'tmx' : 'xlf'}`);
+    res.send(exportEntries(format, language));
+  } catch (error) {
+    sendTranslationMemoryError(res, error, 'export translation memory');
+  }
+});
 
-  const translations = texts.map((text: string) => ({
-    original: text,
-    translated: langTranslations[text] || text,
-    hasTranslation: !!langTranslations[text]
-  }));
+// Import a TMX or XLIFF file sent as text
+app.post('/api/tm/import', (req, res) => {
+  try {
+    const { format, content, updatedBy } = req.body;
+    if (!isExchangeFormat(format) || typeof content !== 'string') {
+      return res.status(400).json({ error: 'format (tmx or xliff) and content are required' });
+    }
 
-  res.json({ language, translations });
+    res.json({ success: true, ...importEntries(format, content, updatedBy) });
+  } catch (error) {
+    sendTranslationMemoryError(res, error, 'import translation memory');
+  }
 });
 
 // Start server
 app.listen(PORT, () => {
-  console.log(`\n✅ Text Overlay API running on http://localhost:${PORT}`);
+  console.log(`\n✅ LBL API running on http://localhost:${PORT}`);
   console.log(`\n📝 Endpoints:`);
   console.log(`   GET  /health - Health check`);
+  console.log(`   GET  /api/status - API configuration status`);
+  console.log(`   POST /api/generate - Generate LBL image`);
+  console.log(`   POST /api/extract - Extract component text`);
+  console.log(`   POST /api/extract-batch - Extract text from several components`);
+  console.log(`   POST /api/edit - Edit a region of an image`);
+  console.log(`   GET  /api/repository/documents - List local documents`);
+  console.log(`   POST /api/repository/documents - Create a local document`);
+  console.log(`   GET  /api/repository/documents/:id/components - List local components`);
+  console.log(`   POST /api/repository/documents/:id/components - Add a local component`);
+  console.log(`   PATCH/DELETE /api/repository/documents/:id/components/:page/:file - Edit or delete a local component`);
+  console.log(`   GET  /api/repository/files/* - Serve a local component image`);
   console.log(`   GET  /api/layouts - List available layouts`);
   console.log(`   GET  /api/layouts/:id - Get layout details`);
-  console.log(`   POST /api/overlay - Apply text overlay`);
-  console.log(`   POST /api/translate - Translate texts\n`);
+  console.log(`   PUT/DELETE /api/layouts/:id - Save or delete an edited layout`);
+  console.log(`   POST /api/overlay - Apply text overlay (secondaryLanguage for bilingual)`);
+  console.log(`   GET  /api/languages - List overlay languages`);
+  console.log(`   POST /api/translate - Translate texts (machine translates memory misses for review)`);
+  console.log(`   GET/POST /api/tm/entries, PATCH/DELETE /api/tm/entries/:id - Translation memory`);
+  console.log(`   GET/POST /api/tm/glossary, PATCH/DELETE /api/tm/glossary/:id - Locked glossary terms`);
+  console.log(`   POST /api/tm/lookup - Exact, segment and fuzzy matches`);
+  console.log(`   GET  /api/tm/export, POST /api/tm/import - TMX/XLIFF exchange\n`);
 });
 
 export default app;
@@ -0,0 +1,114 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  addComponent,
+  createDocument,
+  deleteComponent,
+  initComponentRepository,
+  listComponents,
+  listDocuments,
+  resolveRepositoryPath,
+  updateComponent,
+} from './componentRepositoryServer.js';
+
+const FILES_URL = 'http://localhost/files';
+// 1x1 PNG
+const PIXEL = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repository-test-'));
+let root: string;
+let documentId: string;
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(tempDir, 'root-'));
+  initComponentRepository(root);
+  documentId = createDocument({ name: 'Test deck' }, [
+    { componentId: 'EVID_01', page: 2, imageBase64: PIXEL, content: 'Reduces exacerbations by 12%-15%' },
+    { componentId: 'EVID_01', page: 2, imageBase64: PIXEL },
+  ]).id;
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('createDocument / listComponents', () => {
+  it('numbers files per page and ComponentId and lists them with their stored content', () => {
+    const components = listComponents(documentId, FILES_URL);
+    expect(components.map(c => c.metadata.filename)).toEqual(['EVID_01-1.png', 'EVID_01-2.png']);
+    expect(components[0]).toMatchObject({
+      component_id: 'EVID_01',
+      content: 'Reduces exacerbations by 12%-15%',
+      image_path: `${FILES_URL}/documents/${documentId}/page-2/EVID_01-1.png`,
+      metadata: { page: 'page-2', source: 'segmentation' },
+    });
+    expect(fs.existsSync(path.join(root, 'documents', documentId, 'page-2', 'EVID_01-2.png'))).toBe(true);
+  });
+
+  it('rejects invalid component IDs before writing anything', () => {
+    expect(() => createDocument({}, [
+      { componentId: 'EVID_01', page: 1, imageBase64: PIXEL },
+      { componentId: '../evil', page: 1, imageBase64: PIXEL },
+    ])).toThrow('Invalid component ID');
+    expect(listDocuments()).toHaveLength(1);
+  });
+});
+
+describe('addComponent', () => {
+  it('adds text-only components under the next free filename', () => {
+    const added = addComponent(documentId, 'EVID_01', { content: 'Improves lung function' }, FILES_URL, 'page-2');
+    expect(added).toMatchObject({ image_path: null, content: 'Improves lung function', metadata: { page: 'page-2', filename: 'EVID_01-3.png' } });
+  });
+
+  it('rejects pages that are not page-N', () => {
+    for (const page of ['page-1/../../other-doc/page-1', '../page-1', 'pages', '']) {
+      expect(() => addComponent(documentId, 'EVID_01', { content: 'x' }, FILES_URL, page)).toThrow('Invalid repository path');
+    }
+    expect(fs.readdirSync(path.join(root, 'documents'))).toEqual([documentId]);
+  });
+
+  it('does not create unknown documents', () => {
+    expect(() => addComponent('other-doc', 'EVID_01', { imageBase64: PIXEL }, FILES_URL)).toThrow('Document not found');
+    expect(() => addComponent('..', 'EVID_01', { content: 'x' }, FILES_URL)).toThrow('Document not found');
+    expect(fs.readdirSync(path.join(root, 'documents'))).toEqual([documentId]);
+  });
+});
+
+describe('updateComponent / deleteComponent', () => {
+  it('replaces content and keeps page and filename out of the stored metadata', () => {
+    const updated = updateComponent(documentId, 'page-2', 'EVID_01-1.png', {
+      content: 'Reduces exacerbations by 15%',
+      metadata: { reviewStatus: 'approved', page: 'page-9' },
+    }, FILES_URL);
+    expect(updated).toMatchObject({ content: 'Reduces exacerbations by 15%', metadata: { page: 'page-2', reviewStatus: 'approved' } });
+
+    const index = JSON.parse(fs.readFileSync(path.join(root, 'repository.json'), 'utf-8'));
+    expect(index.components[`${documentId}/page-2/EVID_01-1.png`].metadata).toEqual({ reviewStatus: 'approved' });
+  });
+
+  it('rejects invalid paths, unknown documents and unknown components', () => {
+    expect(() => updateComponent(documentId, '../page-2', 'EVID_01-1.png', { content: 'x' }, FILES_URL)).toThrow('Invalid repository path');
+    expect(() => updateComponent(documentId, 'page-2', '../repository.json', { content: 'x' }, FILES_URL)).toThrow('Invalid repository path');
+    expect(() => updateComponent('other-doc', 'page-2', 'EVID_01-1.png', { content: 'x' }, FILES_URL)).toThrow('Document not found');
+    expect(() => updateComponent(documentId, 'page-3', 'EVID_01-1.png', { content: 'x' }, FILES_URL)).toThrow('Component not found');
+  });
+
+  it('keeps the content as a text-only component when only the image is deleted', () => {
+    deleteComponent(documentId, 'page-2', 'EVID_01-1.png', true);
+    const [textOnly] = listComponents(documentId, FILES_URL).filter(c => c.metadata.filename === 'EVID_01-1.png');
+    expect(textOnly).toMatchObject({ image_path: null, content: 'Reduces exacerbations by 12%-15%' });
+
+    deleteComponent(documentId, 'page-2', 'EVID_01-1.png');
+    expect(listComponents(documentId, FILES_URL).map(c => c.metadata.filename)).toEqual(['EVID_01-2.png']);
+  });
+});
+
+describe('resolveRepositoryPath', () => {
+  it('resolves paths inside the root and rejects paths that escape it', () => {
+    expect(resolveRepositoryPath('documents/a/page-1')).toBe(path.join(root, 'documents', 'a', 'page-1'));
+    expect(() => resolveRepositoryPath('../outside')).toThrow('Invalid repository path');
+    expect(() => resolveRepositoryPath('documents/../../outside')).toThrow('Invalid repository path');
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * Local Component Repository
+ * Serves documents and component images from a folder tree instead of Supabase:
+ *
+ *   <root>/documents/<documentId>/page-N/<COMPONENT_ID>-n.png
+ *   <root>/repository.json   (document details + per-component content/bbox/metadata)
+ *
+ * Same layout as the `component-images` bucket so exported fixtures work unchanged
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+// Matches the storage naming used by componentService ("INIT_03-1.jpg" -> "INIT_03")
+const COMPONENT_FILE_PATTERN = /^([A-Z]+_\d+[a-z]?)-?\d*\.(png|jpe?g)$/i;
+const COMPONENT_ID_PATTERN = /^[A-Z]+_\d+[a-z]?$/;
+const PAGE_PATTERN = /^page-\d+$/;
+
+export interface RepositoryDocument {
+  id: string;
+  name?: string;
+  brand_name?: string;
+  company_name?: string;
+  created_at?: string;
+  [key: string]: unknown;
+}
+
+// Stored per component file, keyed by "<documentId>/<page>/<filename>"
+export interface StoredComponent {
+  content?: string | null;
+  bbox?: number[] | null;
+  metadata?: Record<string, unknown>;
+  updated_at?: string;
+}
+
+interface RepositoryIndex {
+  documents: Record<string, Omit<RepositoryDocument, 'id'>>;
+  components: Record<string, StoredComponent>;
+}
+
+// Same shape as ComponentData on the client
+export interface RepositoryComponent {
+  id: string;
+  product_id: string;
+  component_id: string;
+  content: string | null;
+  image_path: string | null;
+  image_base64: null;
+  bbox: number[] | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+let repositoryRoot: string | null = null;
+
+/**
+ * Point the repository at a root folder (created if missing)
+ */
+export function initComponentRepository(rootDir: string): void {
+  repositoryRoot = path.resolve(rootDir);
+  fs.mkdirSync(path.join(repositoryRoot, 'documents'), { recursive: true });
+  console.log(`Component repository: ${repositoryRoot}`);
+}
+
+function getRoot(): string {
+  if (!repositoryRoot) {
+    throw new Error('Component repository not initialized');
+  }
+  return repositoryRoot;
+}
+
+function readIndex(): RepositoryIndex {
+  const indexPath = path.join(getRoot(), 'repository.json');
+  if (!fs.existsSync(indexPath)) {
+    return { documents: {}, components: {} };
+  }
+
+  const index = JSON.parse(fs.readFileSync(indexPath, 'utf-8')) as Partial<RepositoryIndex>;
+  return { documents: index.documents || {}, components: index.components || {} };
+}
+
+function writeIndex(index: RepositoryIndex): void {
+  const indexPath = path.join(getRoot(), 'repository.json');
+  fs.writeFileSync(indexPath, JSON.stringify(index, null, 2));
+}
+
+function listFolders(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/**
+ * List documents: every folder under documents/ plus anything described in repository.json
+ */
+export function listDocuments(): RepositoryDocument[] {
+  const index = readIndex();
+  const folderIds = listFolders(path.join(getRoot(), 'documents'));
+  const ids = [...new Set([...folderIds, ...Object.keys(index.documents)])];
+
+  return ids.map(id => {
+    const details = index.documents[id] || {};
+    const created = fs.existsSync(path.join(getRoot(), 'documents', id))
+      ? fs.statSync(path.join(getRoot(), 'documents', id)).birthtime.toISOString()
+      : undefined;
+
+    return {
+      name: `Document ${id.substring(0, 8)}`,
+      created_at: created,
+      ...details,
+      id,
+    };
+  });
+}
+
+/**
+ * List components for a document from its page folders, merged with stored content
+ */
+export function listComponents(documentId: string, fileBaseUrl: string): RepositoryComponent[] {
+  const index = readIndex();
+  const documentDir = resolveRepositoryPath(`documents/${documentId}`);
+  const components: RepositoryComponent[] = [];
+
+  const seen = new Set<string>();
+
+  for (const page of listFolders(documentDir).filter(name => name.startsWith('page-'))) {
+    const files = fs.readdirSync(path.join(documentDir, page)).sort();
+
+    for (const filename of files) {
+      const match = filename.match(COMPONENT_FILE_PATTERN);
+      if (!match) continue;
+
+      const relativePath = `documents/${documentId}/${page}/${filename}`;
+      const stats = fs.statSync(path.join(documentDir, page, filename));
+      const key = `${documentId}/${page}/${filename}`;
+      const stored = index.components[key] || {};
+      seen.add(key);
+
+      components.push({
+        id: `${documentId}-${page}-${filename}`,
+        product_id: documentId,
+        component_id: match[1],
+        content: stored.content ?? null,
+        image_path: `${fileBaseUrl}/${relativePath}`,
+        image_base64: null,
+        bbox: stored.bbox ?? null,
+        metadata: { ...stored.metadata, page, filename },
+        created_at: stats.birthtime.toISOString(),
+        updated_at: stored.updated_at || stats.mtime.toISOString(),
+      });
+    }
+  }
+
+  // Text-only components: stored content whose image file does not exist (yet)
+  for (const [key, stored] of Object.entries(index.components)) {
+    const [keyDocumentId, page, filename] = key.split('/');
+    const match = filename?.match(COMPONENT_FILE_PATTERN);
+    if (keyDocumentId !== documentId || seen.has(key) || !match) continue;
+
+    components.push({
+      id: `${documentId}-${page}-${filename}`,
+      product_id: documentId,
+      component_id: match[1],
+      content: stored.content ?? null,
+      image_path: null,
+      image_base64: null,
+      bbox: stored.bbox ?? null,
+      metadata: { ...stored.metadata, page, filename },
+      created_at: stored.updated_at || '',
+      updated_at: stored.updated_at || '',
+    });
+  }
+
+  return components;
+}
+
+/**
+ * Resolve a path inside the repository root, rejecting anything that escapes it
+ */
+export function resolveRepositoryPath(relativePath: string): string {
+  const root = getRoot();
+  const resolved = path.resolve(root, relativePath);
+
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new Error('Invalid repository path');
+  }
+  return resolved;
+}
+
+// One segmented component to write into a new document
+export interface NewComponent {
+  componentId: string;
+  page: number;                 // 1-based page number
+  imageBase64: string;          // PNG data
+  bbox?: number[] | null;       // [ymin, xmin, ymax, xmax] on the page, 0-1000
+  content?: string | null;
+}
+
+/**
+ * Create a document from segmented components
+ * Files are numbered per page and ComponentId (page-2/EVID_01-1.png, page-2/EVID_01-2.png, ...)
+ */
+export function createDocument(
+  details: Omit<RepositoryDocument, 'id'>,
+  components: NewComponent[]
+): RepositoryDocument {
+  const id = randomUUID();
+  const index = readIndex();
+  const now = new Date().toISOString();
+  const counters = new Map<string, number>();
+
+  // Validate everything before writing any file
+  const invalid = components.find(c => !COMPONENT_ID_PATTERN.test(c.componentId));
+  if (invalid) {
+    throw new Error(`Invalid component ID: ${invalid.componentId}`);
+  }
+
+  for (const component of components) {
+    const page = `page-${component.page}`;
+    const counterKey = `${page}/${component.componentId}`;
+    const n = (counters.get(counterKey) || 0) + 1;
+    counters.set(counterKey, n);
+
+    const filename = `${component.componentId}-${n}.png`;
+    const pageDir = resolveRepositoryPath(`documents/${id}/${page}`);
+    fs.mkdirSync(pageDir, { recursive: true });
+    fs.writeFileSync(path.join(pageDir, filename), Buffer.from(component.imageBase64, 'base64'));
+
+    index.components[`${id}/${page}/${filename}`] = {
+      content: component.content ?? null,
+      bbox: component.bbox ?? null,
+      metadata: { source: 'segmentation' },
+      updated_at: now,
+    };
+  }
+
+  // Folder exists even when no components were kept
+  fs.mkdirSync(resolveRepositoryPath(`documents/${id}`), { recursive: true });
+  index.documents[id] = { ...details, created_at: now };
+  writeIndex(index);
+
+  console.log(`[Repository] Created document ${id} with ${components.length} components`);
+  return { ...index.documents[id], id };
+}
+
+export interface ComponentChanges {
+  imageBase64?: string;                 // PNG data; replaces the image file
+  content?: string | null;
+  metadata?: Record<string, unknown>;   // Replaces stored metadata (page/filename are derived)
+}
+
+function getComponentKey(documentId: string, page: string, filename: string): string {
+  if (!PAGE_PATTERN.test(page) || !COMPONENT_FILE_PATTERN.test(filename)) {
+    throw new Error('Invalid repository path');
+  }
+  return `${documentId}/${page}/${filename}`;
+}
+
+/**
+ * Components are only written into documents that exist (a folder under documents/ or an index entry),
+ * which also rules out ids that are not a single folder name
+ */
+function requireDocument(index: RepositoryIndex, documentId: string): void {
+  if (!index.documents[documentId] && !listFolders(path.join(getRoot(), 'documents')).includes(documentId)) {
+    throw new Error('Document not found');
+  }
+}
+
+/**
+ * Next free "<COMPONENT_ID>-n.png" in a page, counting image files and text-only entries
+ */
+function nextComponentFilename(index: RepositoryIndex, documentId: string, page: string, componentId: string): string {
+  const pageDir = resolveRepositoryPath(`documents/${documentId}/${page}`);
+  const taken = new Set([
+    ...(fs.existsSync(pageDir) ? fs.readdirSync(pageDir) : []),
+    ...Object.keys(index.components)
+      .filter(key => key.startsWith(`${documentId}/${page}/`))
+      .map(key => key.split('/')[2]),
+  ]);
+
+  let n = 1;
+  while ([...taken].some(name => name.replace(/\.(png|jpe?g)$/i, '') === `${componentId}-${n}`)) n++;
+  return `${componentId}-${n}.png`;
+}
+
+/**
+ * Write image and/or stored fields for one component file
+ */
+function writeComponent(
+  index: RepositoryIndex,
+  documentId: string,
+  page: string,
+  filename: string,
+  changes: ComponentChanges
+): void {
+  const key = getComponentKey(documentId, page, filename);
+
+  if (changes.imageBase64) {
+    const pageDir = resolveRepositoryPath(`documents/${documentId}/${page}`);
+    fs.mkdirSync(pageDir, { recursive: true });
+    fs.writeFileSync(path.join(pageDir, filename), Buffer.from(changes.imageBase64, 'base64'));
+  }
+
+  const stored = index.components[key] || {};
+  const metadata = changes.metadata ? { ...changes.metadata } : stored.metadata;
+  delete metadata?.page;
+  delete metadata?.filename;
+
+  index.components[key] = {
+    ...stored,
+    ...(changes.content !== undefined ? { content: changes.content } : {}),
+    metadata,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Add a component to an existing document (image, text or both)
+ */
+export function addComponent(
+  documentId: string,
+  componentId: string,
+  changes: ComponentChanges,
+  fileBaseUrl: string,
+  page: string = 'page-1'
+): RepositoryComponent {
+  if (!COMPONENT_ID_PATTERN.test(componentId)) {
+    throw new Error(`Invalid component ID: ${componentId}`);
+  }
+  if (!PAGE_PATTERN.test(page)) {
+    throw new Error('Invalid repository path');
+  }
+
+  const index = readIndex();
+  requireDocument(index, documentId);
+  const filename = nextComponentFilename(index, documentId, page, componentId);
+  writeComponent(index, documentId, page, filename, changes);
+  writeIndex(index);
+
+  console.log(`[Repository] Added ${documentId}/${page}/${filename}`);
+  return findComponent(documentId, page, filename, fileBaseUrl);
+}
+
+/**
+ * Update the image, content or metadata of an existing component file
+ */
+export function updateComponent(
+  documentId: string,
+  page: string,
+  filename: string,
+  changes: ComponentChanges,
+  fileBaseUrl: string
+): RepositoryComponent {
+  const index = readIndex();
+  const key = getComponentKey(documentId, page, filename);
+  requireDocument(index, documentId);
+  if (!index.components[key] && !fs.existsSync(resolveRepositoryPath(`documents/${key}`))) {
+    throw new Error('Component not found');
+  }
+
+  writeComponent(index, documentId, page, filename, changes);
+  writeIndex(index);
+
+  return findComponent(documentId, page, filename, fileBaseUrl);
+}
+
+/**
+ * Delete a component's image; with `imageOnly` its stored content is kept as a text-only component
+ */
+export function deleteComponent(documentId: string, page: string, filename: string, imageOnly: boolean = false): void {
+  const key = getComponentKey(documentId, page, filename);
+  const filePath = resolveRepositoryPath(`documents/${key}`);
+  const index = readIndex();
+
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+  if (!imageOnly) {
+    delete index.components[key];
+  }
+  writeIndex(index);
+
+  console.log(`[Repository] Deleted ${imageOnly ? 'image of ' : ''}${key}`);
+}
+
+function findComponent(documentId: string, page: string, filename: string, fileBaseUrl: string): RepositoryComponent {
+  const component = listComponents(documentId, fileBaseUrl)
+    .find(c => c.metadata.page === page && c.metadata.filename === filename);
+  if (!component) {
+    throw new Error('Component not found');
+  }
+  return component;
+}
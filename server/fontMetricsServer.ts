@@ -0,0 +1,257 @@
+/**
+ * Font Metrics
+ * Loads the overlay font files with fontkit so text is measured from real shaped glyph advances
+ * (Devanagari/Tamil conjuncts, ligatures, bold widths) instead of a fixed width per character,
+ * and drawn as glyph outlines so the output does not depend on the system fonts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import * as fontkit from 'fontkit';
+import type { Font, GlyphRun } from 'fontkit';
+
+export type FontWeight = 'normal' | 'bold';
+
+export interface LoadedFont {
+  family: string;
+  weight: FontWeight;
+  file: string;
+  font: Font;
+}
+
+export interface LineMetrics {
+  ascent: number;              // px above the baseline
+  descent: number;             // px below the baseline (positive)
+}
+
+const FONT_EXTENSIONS = ['.ttf', '.otf', '.woff', '.woff2'];
+
+// Fallback advances in em when no loaded font covers the text
+const FALLBACK_ADVANCES: { pattern: RegExp; em: number }[] = [
+  { pattern: /\p{M}/u, em: 0 },                    // Vowel signs and viramas attach to the base
+  { pattern: /\s/u, em: 0.28 },
+  { pattern: /[\u0B80-\u0BFF]/u, em: 0.72 },       // Tamil
+  { pattern: /[\u0900-\u0DFF]/u, em: 0.62 },       // Other Indic scripts
+  { pattern: /[A-Z0-9%]/u, em: 0.64 },
+  { pattern: /[il.,:;'|!]/u, em: 0.28 },
+];
+const FALLBACK_EM = 0.52;
+const FALLBACK_BOLD_FACTOR = 1.08;
+
+// Word widths are measured many times while shrinking a region to fit
+const MAX_CACHE_ENTRIES = 5000;
+
+const loadedFonts: LoadedFont[] = [];
+const widthCache = new Map<string, number>();
+const unshapedFonts = new Set<string>();
+
+/**
+ * Load every font file in a directory (replaces fonts loaded earlier)
+ */
+export function loadFonts(fontsDir: string): LoadedFont[] {
+  loadedFonts.length = 0;
+  widthCache.clear();
+
+  if (!fs.existsSync(fontsDir)) return [];
+
+  for (const name of fs.readdirSync(fontsDir).sort()) {
+    if (!FONT_EXTENSIONS.includes(path.extname(name).toLowerCase())) continue;
+    const file = path.join(fontsDir, name);
+    try {
+      const opened = fontkit.openSync(file);
+      const font = 'fonts' in opened ? opened.fonts[0] : opened;
+      if (!font) continue;
+      loadedFonts.push({
+        family: font.familyName,
+        weight: /bold|black|heavy/i.test(font.subfamilyName) ? 'bold' : 'normal',
+        file,
+        font,
+      });
+    } catch (error) {
+      console.warn(`[Fonts] Could not read ${name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return [...loadedFonts];
+}
+
+export function getLoadedFonts(): LoadedFont[] {
+  return [...loadedFonts];
+}
+
+function parseFamilies(fontFamily: string): string[] {
+  return fontFamily.split(',').map(family => family.trim().replace(/^['"]|['"]$/g, '').toLowerCase());
+}
+
+function coversText(font: Font, text: string): boolean {
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    // Spaces and zero-width joiners need no glyph of their own
+    if (/[\s\u200C\u200D]/u.test(char)) continue;
+    if (!font.hasGlyphForCodePoint(codePoint)) return false;
+  }
+  return true;
+}
+
+export interface TextRun {
+  text: string;
+  font: LoadedFont | null;     // null when no loaded font has the glyphs
+}
+
+/**
+ * First font in the CSS family list that is loaded and has glyphs for the whole text
+ * Prefers the requested weight, then any weight of the same family
+ */
+export function selectFont(text: string, fontFamily: string, weight: FontWeight): LoadedFont | null {
+  for (const family of parseFamilies(fontFamily)) {
+    const candidates = loadedFonts
+      .filter(loaded => loaded.family.toLowerCase() === family)
+      .sort((a, b) => Number(b.weight === weight) - Number(a.weight === weight));
+    const match = candidates.find(candidate => coversText(candidate.font, text));
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Split text into runs per font, so Latin words inside Hindi or Tamil copy use the Latin font
+ */
+export function splitRuns(text: string, fontFamily: string, weight: FontWeight): TextRun[] {
+  const whole = selectFont(text, fontFamily, weight);
+  if (whole) return [{ text, font: whole }];
+
+  const runs: TextRun[] = [];
+  const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+  for (const { segment } of segmenter.segment(text)) {
+    const last = runs[runs.length - 1];
+    // Spaces stay in the current run instead of starting a new one
+    if (last && (/^\s+$/u.test(segment) || (last.font && coversText(last.font.font, segment)))) {
+      last.text += segment;
+      continue;
+    }
+    const font = selectFont(segment, fontFamily, weight);
+    if (last && last.font === font) {
+      last.text += segment;
+    } else {
+      runs.push({ text: segment, font });
+    }
+  }
+  return runs;
+}
+
+function estimateWidth(text: string, weight: FontWeight, fontSize: number): number {
+  let em = 0;
+  for (const char of text) {
+    em += FALLBACK_ADVANCES.find(({ pattern }) => pattern.test(char))?.em ?? FALLBACK_EM;
+  }
+  return em * fontSize * (weight === 'bold' ? FALLBACK_BOLD_FACTOR : 1);
+}
+
+// Only a regular face available: the outline is stroked to approximate the heavier weight
+function isSyntheticBold(run: TextRun, weight: FontWeight): boolean {
+  return weight === 'bold' && !!run.font && run.font.weight !== 'bold';
+}
+
+/**
+ * Shape a run; fontkit throws on some fonts' mark anchor tables, so those retry without mark positioning
+ */
+function shape(loaded: LoadedFont, text: string): GlyphRun {
+  try {
+    return loaded.font.layout(text);
+  } catch (error) {
+    if (!unshapedFonts.has(loaded.file)) {
+      unshapedFonts.add(loaded.file);
+      console.warn(`[Fonts] ${loaded.family} ${loaded.weight}: mark positioning failed, marks use default offsets -`, error instanceof Error ? error.message : error);
+    }
+    return loaded.font.layout(text, { mark: false, mkmk: false, abvm: false, blwm: false });
+  }
+}
+
+function measureRun(run: TextRun, weight: FontWeight): number {
+  if (!run.font) return estimateWidth(run.text, weight, 1);
+  return shape(run.font, run.text).advanceWidth / run.font.font.unitsPerEm;
+}
+
+/**
+ * Width of a shaped text run in px
+ */
+export function measureText(text: string, fontFamily: string, weight: FontWeight, fontSize: number): number {
+  const key = `${fontFamily}|${weight}|${text}`;
+  let unitWidth = widthCache.get(key);
+
+  if (unitWidth === undefined) {
+    unitWidth = splitRuns(text, fontFamily, weight).reduce((sum, run) => sum + measureRun(run, weight), 0);
+    if (widthCache.size >= MAX_CACHE_ENTRIES) widthCache.clear();
+    widthCache.set(key, unitWidth);
+  }
+
+  return unitWidth * fontSize;
+}
+
+/**
+ * Ascent and descent of the fonts used for a text, so tall Indic vowel signs stay inside the box
+ */
+export function getLineMetrics(text: string, fontFamily: string, weight: FontWeight, fontSize: number): LineMetrics {
+  const fonts = splitRuns(text, fontFamily, weight).map(run => run.font?.font).filter((font): font is Font => !!font);
+  if (fonts.length === 0) return { ascent: fontSize, descent: fontSize * 0.25 };
+
+  return {
+    ascent: Math.max(...fonts.map(font => font.ascent / font.unitsPerEm)) * fontSize,
+    descent: Math.max(...fonts.map(font => Math.abs(font.descent) / font.unitsPerEm)) * fontSize,
+  };
+}
+
+/**
+ * SVG for one line of text drawn as glyph outlines starting at (x, baseline)
+ * Outlines do not depend on the fonts installed where the SVG is rasterized
+ * Runs without a loaded font fall back to an SVG <text> element
+ */
+export function outlineText(
+  text: string,
+  fontFamily: string,
+  weight: FontWeight,
+  fontSize: number,
+  x: number,
+  baseline: number,
+  color: string
+): string {
+  const elements: string[] = [];
+  let penX = x;
+
+  for (const run of splitRuns(text, fontFamily, weight)) {
+    if (!run.font) {
+      elements.push(`<text x="${penX}" y="${baseline}" font-family="${fontFamily}" font-size="${fontSize}px" font-weight="${weight}" fill="${color}">${escapeXml(run.text)}</text>`);
+      penX += estimateWidth(run.text, weight, fontSize);
+      continue;
+    }
+
+    const { font } = run.font;
+    const scale = fontSize / font.unitsPerEm;
+    const stroke = isSyntheticBold(run, weight) ? ` stroke="${color}" stroke-width="${(0.04 * font.unitsPerEm).toFixed(1)}"` : '';
+    const glyphRun = shape(run.font, run.text);
+    let unitX = 0;
+
+    const paths = glyphRun.glyphs.map((glyph, i) => {
+      const position = glyphRun.positions[i];
+      const d = glyph.path.toSVG();
+      const glyphX = unitX + position.xOffset;
+      unitX += position.xAdvance;
+      return d ? `<path transform="translate(${glyphX} ${position.yOffset})" d="${d}"/>` : '';
+    }).join('');
+
+    // Font units are y-up; flip around the baseline
+    elements.push(`<g transform="translate(${penX} ${baseline}) scale(${scale} ${-scale})" fill="${color}"${stroke}>${paths}</g>`);
+    penX += measureRun(run, weight) * fontSize;
+  }
+
+  return elements.join('');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,221 @@
+/**
+ * Server-side Gemini Service
+ * Owns the Gemini API key and retry/backoff logic so the browser never sees credentials
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import type { ContentPart, GeneratedImage, ImageProvider } from './imageProviders.js';
+import type { GlossaryHint, TranslationProvider } from './translationProviders.js';
+
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+const EXTRACTION_MODEL = 'gemini-2.0-flash';
+
+let ai: GoogleGenAI | null = null;
+
+/**
+ * Create the Gemini client from GEMINI_API_KEY (call once on startup)
+ */
+export function initGemini(): boolean {
+  const apiKey = process.env.GEMINI_API_KEY;
+
+  if (!apiKey) {
+    console.warn('GEMINI_API_KEY is not set. The gemini image provider will not work.');
+    ai = null;
+    return false;
+  }
+
+  ai = new GoogleGenAI({ apiKey });
+  return true;
+}
+
+export function isGeminiConfigured(): boolean {
+  return !!ai;
+}
+
+function getClient(): GoogleGenAI {
+  if (!ai) {
+    throw new Error('API key not configured. Please set GEMINI_API_KEY for the API server.');
+  }
+  return ai;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isServerError(message: string): boolean {
+  return message.includes('500') ||
+    message.includes('503') ||
+    message.includes('INTERNAL') ||
+    message.includes('Internal error');
+}
+
+function isRateLimitError(message: string): boolean {
+  return message.includes('429') ||
+    message.includes('rate') ||
+    message.includes('Too Many') ||
+    message.includes('RESOURCE_EXHAUSTED');
+}
+
+/**
+ * Build the normalized rate-limit error, keeping Gemini's suggested retry delay when present
+ */
+function rateLimitError(message: string): Error {
+  const retryDelay = message.match(/retryDelay"?\s*[:=]\s*"?(\d+(?:\.\d+)?)s/);
+  const suffix = retryDelay ? ` Retry after ${Math.ceil(Number(retryDelay[1]))}s.` : '';
+  return new Error(`Rate limit exceeded. Please wait a moment and try again.${suffix}`);
+}
+
+/**
+ * Generate an image from prompt + labeled inlineData parts
+ * Retries transient 500/503 errors (2s, 4s backoff)
+ */
+export async function generateImageFromParts(contents: ContentPart[]): Promise<GeneratedImage> {
+  const client = getClient();
+
+  const maxRetries = 3;
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      console.log(`[Gemini] Generate attempt ${attempt}/${maxRetries}...`);
+
+      const response = await client.models.generateContent({
+        model: IMAGE_MODEL,
+        contents,
+        config: {
+          responseModalities: ['image', 'text'],
+        }
+      });
+
+      const candidate = response.candidates?.[0];
+      if (!candidate?.content?.parts) {
+        throw new Error('No content in response');
+      }
+
+      for (const part of candidate.content.parts) {
+        if (part.inlineData?.data) {
+          console.log(`[Gemini] Generate success on attempt ${attempt}`);
+          return {
+            imageBase64: part.inlineData.data,
+            mimeType: part.inlineData.mimeType || 'image/png'
+          };
+        }
+      }
+
+      // If no image found, check for text response (might be an error message)
+      for (const part of candidate.content.parts) {
+        if (part.text) {
+          throw new Error(`Model returned text instead of image: ${part.text}`);
+        }
+      }
+
+      throw new Error('No image generated in response');
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error('Unknown error');
+
+      if (isServerError(lastError.message) && attempt < maxRetries) {
+        const delay = attempt * 2000;
+        console.warn(`[Gemini] Attempt ${attempt} failed with retryable error, waiting ${delay}ms before retry...`);
+        await sleep(delay);
+        continue;
+      }
+
+      if (lastError.message.includes('429')) {
+        throw rateLimitError(lastError.message);
+      }
+      if (lastError.message.includes('403')) {
+        throw new Error('API access denied. Please check your API key permissions.');
+      }
+      throw lastError;
+    }
+  }
+
+  throw lastError || new Error('Unknown error occurred during image generation');
+}
+
+/**
+ * Run the extraction model on prompt + image parts and return the text response
+ * Rate limits fail fast (with Retry-After) - callers queue and back off on their side
+ */
+async function runExtraction(contents: ContentPart[], responseMimeType?: string): Promise<string | null> {
+  const client = getClient();
+
+  try {
+    const response = await client.models.generateContent({
+      model: EXTRACTION_MODEL,
+      contents,
+      config: responseMimeType ? { responseMimeType } : undefined
+    });
+
+    return response.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || null;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Extraction failed';
+
+    if (isRateLimitError(message)) {
+      throw rateLimitError(message);
+    }
+    throw error instanceof Error ? error : new Error(message);
+  }
+}
+
+/**
+ * Run a vision prompt against a single image and return the text response
+ */
+export async function extractTextFromImage(
+  prompt: string,
+  imageBase64: string,
+  mimeType: string = 'image/png'
+): Promise<string | null> {
+  return runExtraction([
+    { text: prompt },
+    { inlineData: { mimeType, data: imageBase64 } }
+  ]);
+}
+
+/**
+ * Run a vision prompt against several labeled images and return the JSON response text
+ */
+export async function extractJsonFromParts(contents: ContentPart[]): Promise<string | null> {
+  return runExtraction(contents, 'application/json');
+}
+
+// Gemini backend for the image provider registry
+export const geminiProvider: ImageProvider = {
+  name: 'gemini',
+  isConfigured: isGeminiConfigured,
+  generateImage: generateImageFromParts,
+  extractText: extractTextFromImage,
+  extractJson: extractJsonFromParts,
+};
+
+/**
+ * Machine-translate English LBL copy; the output is reviewed by a translator before use
+ */
+export async function translateTexts(texts: string[], language: string, glossary: GlossaryHint[]): Promise<string[]> {
+  const glossaryLines = glossary.map(({ term, rendering }) => `- "${term}" -> "${rendering}"`).join('\n');
+  const prompt = `Translate each English string into ${language} for a pharmaceutical leave-behind leaflet aimed at doctors.
+Rules:
+- Keep numbers, percentages, units and ranges exactly as written (e.g. "12%-15%", "120 ml")
+- Use formal medical register; do not add or drop claims
+${glossaryLines ? `- These terms are locked and must appear exactly as given:\n${glossaryLines}\n` : ''}
+Return ONLY a JSON array of ${texts.length} strings, in the same order as the input.
+
+Input:
+${JSON.stringify(texts)}`;
+
+  const response = await runExtraction([{ text: prompt }], 'application/json');
+  const translations: unknown = JSON.parse(response || '[]');
+
+  if (!Array.isArray(translations) || translations.length !== texts.length || !translations.every(t => typeof t === 'string')) {
+    throw new Error(`Translation response did not contain ${texts.length} strings`);
+  }
+  return translations;
+}
+
+// Gemini backend for the translation provider registry
+export const geminiTranslationProvider: TranslationProvider = {
+  name: 'gemini',
+  isConfigured: isGeminiConfigured,
+  translate: translateTexts,
+};
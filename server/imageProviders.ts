@@ -0,0 +1,84 @@
+/**
+ * Image Provider Registry
+ * Pluggable backends for image generation and component text extraction
+ *
+ * Select with IMAGE_PROVIDER=gemini (default) or IMAGE_PROVIDER=mock (offline, deterministic)
+ */
+
+import { geminiProvider } from './geminiServer.js';
+import { mockProvider } from './mockImageProvider.js';
+
+export type ContentPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+// What a JSON extraction is for - lets offline providers answer without reading the prompt
+export type ExtractTask = 'components' | 'segmentation' | 'ocr';
+
+export const EXTRACT_TASKS: ExtractTask[] = ['components', 'segmentation', 'ocr'];
+
+export interface GeneratedImage {
+  imageBase64: string;
+  mimeType: string;
+}
+
+export interface ImageProvider {
+  name: string;
+  isConfigured(): boolean;
+  // Generate from prompt + labeled inlineData parts (textFree: text layer mode, no copy in the image)
+  generateImage(contents: ContentPart[], textFree?: boolean): Promise<GeneratedImage>;
+  // Run a vision prompt against a single image
+  extractText(prompt: string, imageBase64: string, mimeType?: string): Promise<string | null>;
+  // Run a vision prompt against several labeled images, expecting a JSON response
+  extractJson(contents: ContentPart[], task: ExtractTask): Promise<string | null>;
+}
+
+const PROVIDERS: Record<string, ImageProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+const DEFAULT_PROVIDER = 'gemini';
+
+// Suggested wait when the provider does not say how long to back off
+const DEFAULT_RETRY_AFTER_SECONDS = 5;
+
+/**
+ * Get the active provider (IMAGE_PROVIDER env var, falls back to gemini)
+ */
+export function getImageProvider(): ImageProvider {
+  const name = (process.env.IMAGE_PROVIDER || DEFAULT_PROVIDER).toLowerCase();
+  const provider = PROVIDERS[name];
+
+  if (!provider) {
+    console.warn(`Unknown IMAGE_PROVIDER "${name}", using ${DEFAULT_PROVIDER}`);
+    return PROVIDERS[DEFAULT_PROVIDER];
+  }
+
+  return provider;
+}
+
+export function listImageProviders(): string[] {
+  return Object.keys(PROVIDERS);
+}
+
+/**
+ * Map an error thrown by a provider to an HTTP status code
+ */
+export function getErrorStatus(error: unknown): number {
+  const message = error instanceof Error ? error.message : '';
+  if (message.startsWith('API key not configured')) return 503;
+  if (message.startsWith('Rate limit exceeded')) return 429;
+  if (message.startsWith('API access denied')) return 403;
+  if (message.startsWith('Edit region')) return 400;
+  return 500;
+}
+
+/**
+ * Seconds to send in a Retry-After header for rate-limit errors ("... Retry after 30s.")
+ */
+export function getRetryAfterSeconds(error: unknown): number | null {
+  const message = error instanceof Error ? error.message : '';
+  if (!message.startsWith('Rate limit exceeded')) return null;
+
+  const match = message.match(/Retry after (\d+)s/);
+  return match ? Number(match[1]) : DEFAULT_RETRY_AFTER_SECONDS;
+}
@@ -0,0 +1,67 @@
+/**
+ * Language Registry
+ * Every overlay language with its script, Noto font, default line height and translation memory
+ * Used by the overlay renderer (fonts, line spacing), /api/overlay and /api/translate (validation)
+ * and the translation memory (language codes for TMX/XLIFF)
+ */
+
+export interface LanguageDefinition {
+  name: string;                // As sent by clients ('Hindi')
+  code: string;                // BCP 47 code used in TMX/XLIFF files
+  script: string;
+  fontFamily: string;          // Noto family loaded from the fonts directory (npm run setup:fonts)
+  systemFallbacks: string[];   // Only used for glyphs the Noto fonts do not cover
+  lineHeight: number;          // Default line height ratio; stacked vowel signs need more room
+  memoryLanguage: string | null;   // Translation memory entries used for this language (null = source text)
+}
+
+export const LANGUAGES = [
+  { name: 'English', code: 'en', script: 'Latin', fontFamily: 'Noto Sans', systemFallbacks: ['Arial'], lineHeight: 1.4, memoryLanguage: null },
+  { name: 'Hindi', code: 'hi', script: 'Devanagari', fontFamily: 'Noto Sans Devanagari', systemFallbacks: ['Mangal'], lineHeight: 1.5, memoryLanguage: 'Hindi' },
+  { name: 'Marathi', code: 'mr', script: 'Devanagari', fontFamily: 'Noto Sans Devanagari', systemFallbacks: ['Mangal'], lineHeight: 1.5, memoryLanguage: 'Marathi' },
+  { name: 'Bengali', code: 'bn', script: 'Bengali', fontFamily: 'Noto Sans Bengali', systemFallbacks: ['Vrinda'], lineHeight: 1.5, memoryLanguage: 'Bengali' },
+  { name: 'Gujarati', code: 'gu', script: 'Gujarati', fontFamily: 'Noto Sans Gujarati', systemFallbacks: ['Shruti'], lineHeight: 1.5, memoryLanguage: 'Gujarati' },
+  { name: 'Punjabi', code: 'pa', script: 'Gurmukhi', fontFamily: 'Noto Sans Gurmukhi', systemFallbacks: ['Raavi'], lineHeight: 1.5, memoryLanguage: 'Punjabi' },
+  { name: 'Tamil', code: 'ta', script: 'Tamil', fontFamily: 'Noto Sans Tamil', systemFallbacks: ['Latha'], lineHeight: 1.5, memoryLanguage: 'Tamil' },
+  { name: 'Telugu', code: 'te', script: 'Telugu', fontFamily: 'Noto Sans Telugu', systemFallbacks: ['Gautami'], lineHeight: 1.6, memoryLanguage: 'Telugu' },
+  { name: 'Kannada', code: 'kn', script: 'Kannada', fontFamily: 'Noto Sans Kannada', systemFallbacks: ['Tunga'], lineHeight: 1.6, memoryLanguage: 'Kannada' },
+  { name: 'Malayalam', code: 'ml', script: 'Malayalam', fontFamily: 'Noto Sans Malayalam', systemFallbacks: ['Kartika'], lineHeight: 1.6, memoryLanguage: 'Malayalam' },
+] as const satisfies readonly LanguageDefinition[];
+
+export type LanguageName = typeof LANGUAGES[number]['name'];
+
+export const LANGUAGE_NAMES: LanguageName[] = LANGUAGES.map(language => language.name);
+
+export function isSupportedLanguage(name: unknown): name is LanguageName {
+  return typeof name === 'string' && LANGUAGE_NAMES.includes(name as LanguageName);
+}
+
+export function getLanguage(name: string): LanguageDefinition | undefined {
+  return LANGUAGES.find(language => language.name === name);
+}
+
+export function getLanguageByCode(code: string | undefined): LanguageDefinition | undefined {
+  const base = code?.toLowerCase().split(/[-_]/)[0];
+  return LANGUAGES.find(language => language.code === base);
+}
+
+/**
+ * CSS font-family list: the script's Noto font, Noto Sans for Latin words (ICS, COPD, 120 ml),
+ * then system fonts
+ */
+export function getFontFamily(name: string): string {
+  const language = getLanguage(name) || LANGUAGES[0];
+  const families = [language.fontFamily, 'Noto Sans', ...language.systemFallbacks, 'sans-serif'];
+  return [...new Set(families)].join(', ');
+}
+
+/**
+ * Noto families the overlay needs, with the languages that use each
+ */
+export function getRequiredFonts(): { fontFamily: string; languages: string[] }[] {
+  const families = new Map<string, string[]>();
+  for (const language of LANGUAGES) {
+    families.set(language.fontFamily, [...(families.get(language.fontFamily) || []), language.name]);
+  }
+  return [...families].map(([fontFamily, languages]) => ({ fontFamily, languages }));
+}
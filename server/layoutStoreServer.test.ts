@@ -0,0 +1,78 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import { deleteLayout, getLayoutRegions, initLayoutStore, listLayouts, saveLayout } from './layoutStoreServer.js';
+import { LBL_LAYOUTS, getRegionError } from './textOverlayServer.js';
+import type { TextRegion } from './textOverlayServer.js';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'layouts-test-'));
+
+const region: TextRegion = {
+  id: 'headline', englishText: 'Quick onset of action', x: 5, y: 5, width: 90, height: 10,
+  fontSize: 24, fontWeight: 'bold', textAlign: 'center', color: '#1a365d', backgroundColor: 'rgba(255,255,255,0.85)',
+};
+
+beforeEach(() => {
+  const filePath = path.join(tempDir, 'layouts.json');
+  fs.rmSync(filePath, { force: true });
+  initLayoutStore(filePath);
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('getRegionError', () => {
+  it('accepts the built-in layouts', () => {
+    Object.values(LBL_LAYOUTS).flat().forEach(builtIn => expect(getRegionError(builtIn)).toBeNull());
+  });
+
+  it('accepts hex, rgb() and rgba() colors', () => {
+    for (const color of ['#fff', '#ffff', '#1a365d', '#1a365dcc', 'rgb(26, 54, 93)', 'rgba(255,255,255,0.85)', 'rgba(0, 0, 0, 50%)']) {
+      expect(getRegionError({ ...region, color })).toBeNull();
+    }
+  });
+
+  it('rejects colors that could break out of an SVG attribute', () => {
+    for (const color of ['red" onload="alert(1)', 'url(#x)', '#12345', 'rgb(1,2)', '']) {
+      expect(getRegionError({ ...region, backgroundColor: color })).toBe('Region "headline": backgroundColor must be a hex, rgb() or rgba() color');
+    }
+    expect(getRegionError({ ...region, secondaryColor: 42 })).toMatch(/secondaryColor/);
+  });
+
+  it('rejects unknown options and non-numeric sizes', () => {
+    expect(getRegionError({ ...region, fontWeight: '900' })).toBe('Region "headline": fontWeight must be one of normal, bold');
+    expect(getRegionError({ ...region, textAlign: 'justify' })).toMatch(/textAlign/);
+    expect(getRegionError({ ...region, verticalAlign: 'baseline' })).toMatch(/verticalAlign/);
+    expect(getRegionError({ ...region, fontSize: '24' })).toBe('Region "headline": fontSize must be a number');
+    expect(getRegionError({ ...region, backgroundPadding: '5"/>' })).toMatch(/backgroundPadding/);
+    expect(getRegionError({ id: 'headline', x: 0 })).toMatch(/englishText/);
+  });
+});
+
+describe('layout store', () => {
+  it('refuses to save invalid regions', () => {
+    expect(() => saveLayout('custom', 'Custom', [{ ...region, color: 'red;' }])).toThrow('Invalid layout: Region "headline": color');
+    expect(listLayouts().some(layout => layout.id === 'custom')).toBe(false);
+  });
+
+  it('saves over a built-in preset and restores it on delete', () => {
+    saveLayout('generic-horizontal', 'Edited', [region]);
+    expect(listLayouts().find(layout => layout.id === 'generic-horizontal')).toMatchObject({ source: 'saved', overridesBuiltIn: true, regionCount: 1 });
+
+    deleteLayout('generic-horizontal');
+    expect(getLayoutRegions('generic-horizontal')).toBe(LBL_LAYOUTS['generic-horizontal']);
+  });
+
+  it('treats prototype keys as ordinary layout ids', () => {
+    expect(getLayoutRegions('constructor')).toBeNull();
+    expect(getLayoutRegions('to-string')).toBeNull();
+
+    saveLayout('constructor', 'Constructor', [region]);
+    expect(listLayouts().filter(layout => layout.id === 'constructor')).toEqual([
+      { id: 'constructor', name: 'Constructor', regionCount: 1, source: 'saved', overridesBuiltIn: false },
+    ]);
+    expect(getLayoutRegions('constructor')).toEqual([region]);
+  });
+});
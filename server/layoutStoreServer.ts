@@ -0,0 +1,162 @@
+/**
+ * Layout Store
+ * Overlay layouts saved from the layout editor, stored as one JSON file:
+ *
+ *   { "layouts": [{ "id", "name", "regions": [...], "createdAt", "updatedAt" }] }
+ *
+ * The built-in LBL_LAYOUTS stay read-only presets; a saved layout with the same id replaces
+ * the preset until it is deleted again
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { LBL_LAYOUTS, getRegionError } from './textOverlayServer.js';
+import type { TextRegion } from './textOverlayServer.js';
+
+const LAYOUT_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export interface SavedLayout {
+  id: string;
+  name: string;
+  regions: TextRegion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LayoutSummary {
+  id: string;
+  name: string;
+  regionCount: number;
+  source: 'built-in' | 'saved';
+  overridesBuiltIn: boolean;   // Saved over a built-in preset (deleting restores the preset)
+}
+
+interface LayoutFile {
+  layouts: SavedLayout[];
+}
+
+let storePath: string | null = null;
+
+/**
+ * Point the layout store at its JSON file (created on the first save)
+ */
+export function initLayoutStore(filePath: string): void {
+  storePath = path.resolve(filePath);
+  console.log(`Layout store: ${storePath} (${readStore().layouts.length} saved layouts)`);
+}
+
+function getStorePath(): string {
+  if (!storePath) {
+    throw new Error('Layout store not initialized');
+  }
+  return storePath;
+}
+
+function readStore(): LayoutFile {
+  const filePath = getStorePath();
+  if (!fs.existsSync(filePath)) {
+    return { layouts: [] };
+  }
+  const store = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<LayoutFile>;
+  return { layouts: store.layouts || [] };
+}
+
+function writeStore(store: LayoutFile): void {
+  const filePath = getStorePath();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(store, null, 2));
+}
+
+// "nebzmart-horizontal" -> "Nebzmart Horizontal"
+function defaultName(id: string): string {
+  return id.replace(/-/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+}
+
+// Own keys only, so ids like "constructor" don't resolve to Object.prototype members
+function isBuiltIn(id: string): boolean {
+  return Object.hasOwn(LBL_LAYOUTS, id);
+}
+
+function toSummary(layout: SavedLayout): LayoutSummary {
+  return {
+    id: layout.id,
+    name: layout.name,
+    regionCount: layout.regions.length,
+    source: 'saved',
+    overridesBuiltIn: isBuiltIn(layout.id),
+  };
+}
+
+/**
+ * Built-in presets (or the saved layouts replacing them), then the other saved layouts
+ */
+export function listLayouts(): LayoutSummary[] {
+  const saved = readStore().layouts;
+  const builtIn = Object.entries(LBL_LAYOUTS).map(([id, regions]): LayoutSummary => {
+    const override = saved.find(layout => layout.id === id);
+    return override
+      ? toSummary(override)
+      : { id, name: defaultName(id), regionCount: regions.length, source: 'built-in', overridesBuiltIn: false };
+  });
+
+  return [...builtIn, ...saved.filter(layout => !isBuiltIn(layout.id)).map(toSummary)];
+}
+
+/**
+ * Regions of a saved layout, or of the built-in preset with that id
+ */
+export function getLayoutRegions(id: string): TextRegion[] | null {
+  const saved = readStore().layouts.find(layout => layout.id === id);
+  if (saved) {
+    return saved.regions;
+  }
+  return isBuiltIn(id) ? LBL_LAYOUTS[id] : null;
+}
+
+/**
+ * Create or replace a saved layout
+ */
+export function saveLayout(id: string, name: string | undefined, regions: TextRegion[]): SavedLayout {
+  if (!LAYOUT_ID_PATTERN.test(id)) {
+    throw new Error('Invalid layout id: use lowercase letters, digits and hyphens');
+  }
+  if (regions.length === 0) {
+    throw new Error('Invalid layout: at least one region is required');
+  }
+  const regionError = regions.map(getRegionError).find(error => error !== null);
+  if (regionError) {
+    throw new Error(`Invalid layout: ${regionError}`);
+  }
+  const regionIds = regions.map(region => region.id);
+  if (new Set(regionIds).size !== regionIds.length) {
+    throw new Error('Invalid layout: region ids must be unique');
+  }
+
+  const store = readStore();
+  const existing = store.layouts.find(layout => layout.id === id);
+  const now = new Date().toISOString();
+  const layout: SavedLayout = {
+    id,
+    name: name?.trim() || existing?.name || defaultName(id),
+    regions,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+
+  store.layouts = [...store.layouts.filter(saved => saved.id !== id), layout];
+  writeStore(store);
+
+  console.log(`[Layouts] Saved ${id} (${regions.length} regions)`);
+  return layout;
+}
+
+export function deleteLayout(id: string): void {
+  const store = readStore();
+  if (!store.layouts.some(layout => layout.id === id)) {
+    throw new Error('Saved layout not found');
+  }
+  store.layouts = store.layouts.filter(layout => layout.id !== id);
+  writeStore(store);
+
+  console.log(`[Layouts] Deleted ${id}`);
+}
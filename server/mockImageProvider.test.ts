@@ -0,0 +1,134 @@
+import sharp from 'sharp';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mockProvider } from './mockImageProvider.js';
+import { getImageProvider, listImageProviders } from './imageProviders.js';
+import type { ContentPart } from './imageProviders.js';
+
+const PROMPT = `Product: Nebzmart
+
+=== CLAIMS ===
+Quick onset of action within 5 mins
+12 hrs long lasting relief
+
+==========
+SAFETY
+==========
+For the use of a Registered Medical Practitioner only`;
+
+const image = (data: string): ContentPart => ({ inlineData: { mimeType: 'image/png', data } });
+
+const FULL_PROMPT = `${PROMPT}\n${['REFERENCES', 'DOSAGE', 'PACK', 'BRAND', 'CONTACT'].map(title => `=== ${title} ===\nLine`).join('\n')}`;
+
+// Every pixel of an area has the same color
+async function isPlain(png: string, area: { left: number; top: number; width: number; height: number }): Promise<boolean> {
+  // stats() reads the input image, so crop into a new one first
+  const cropped = await sharp(Buffer.from(png, 'base64')).extract(area).toBuffer();
+  const { channels } = await sharp(cropped).stats();
+  return channels.every(channel => channel.min === channel.max);
+}
+
+const CORNERS = [
+  { left: 0, top: 0 },
+  { left: 1920 - 230, top: 0 },
+  { left: 0, top: 1080 - 162 },
+  { left: 1920 - 230, top: 1080 - 162 },
+].map(corner => ({ ...corner, width: 230, height: 162 }));
+
+const HEADER = { left: 400, top: 20, width: 1120, height: 120 };
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('generateImage', () => {
+  it('renders a deterministic 1920x1080 PNG per prompt', async () => {
+    const first = await mockProvider.generateImage([{ text: PROMPT }]);
+    const again = await mockProvider.generateImage([{ text: PROMPT }]);
+    const other = await mockProvider.generateImage([{ text: `${PROMPT}\nExtra line` }]);
+
+    expect(first.mimeType).toBe('image/png');
+    expect(again.imageBase64).toBe(first.imageBase64);
+    expect(other.imageBase64).not.toBe(first.imageBase64);
+    expect(await sharp(Buffer.from(first.imageBase64, 'base64')).metadata()).toMatchObject({ width: 1920, height: 1080, format: 'png' });
+  });
+
+  it('keeps the logo corners empty', async () => {
+    const { imageBase64 } = await mockProvider.generateImage([{ text: FULL_PROMPT }, { text: 'LOGO:' }, image('bG9nbw==')]);
+    for (const corner of CORNERS) {
+      expect(await isPlain(imageBase64, corner)).toBe(true);
+    }
+  });
+
+  it('draws no text in text layer mode', async () => {
+    const withText = await mockProvider.generateImage([{ text: PROMPT }]);
+    const textFree = await mockProvider.generateImage([{ text: PROMPT }], true);
+
+    expect(await isPlain(withText.imageBase64, HEADER)).toBe(false);
+    expect(await isPlain(textFree.imageBase64, HEADER)).toBe(true);
+  });
+});
+
+describe('extractText', () => {
+  it('answers component prompts with text derived from the image', async () => {
+    const text = await mockProvider.extractText('Component: EVID_01 - Efficacy claims\nExtract the text', 'aW1hZ2UtMQ==');
+    expect(text).toMatch(/^Mock Efficacy claims \(EVID_01\) [0-9a-f]{6}$/);
+    expect(await mockProvider.extractText('Component: EVID_01 - Efficacy claims', 'aW1hZ2UtMQ==')).toBe(text);
+    expect(await mockProvider.extractText('Component: EVID_01 - Efficacy claims', 'aW1hZ2UtMg==')).not.toBe(text);
+  });
+
+  it('returns null for prompts without a component', async () => {
+    expect(await mockProvider.extractText('Describe this image', 'aW1hZ2UtMQ==')).toBeNull();
+  });
+});
+
+describe('extractJson', () => {
+  it('keys batched component extractions by ComponentId', async () => {
+    const text = await mockProvider.extractJson([
+      { text: 'Extract every component. SEGMENTATION and OCR TASK appear in this prompt on purpose' },
+      { text: '=== COMPONENT: EVID_01 - Efficacy claims ===' },
+      image('aW1hZ2UtMQ=='),
+      { text: '=== COMPONENT: SAFE_01 - Dosage ===' },
+      image('aW1hZ2UtMg=='),
+      { text: '=== COMPONENT: REG_02 - References ===' },
+    ], 'components');
+
+    const result = JSON.parse(text!);
+    expect(Object.keys(result)).toEqual(['EVID_01', 'SAFE_01']);
+    expect(result.SAFE_01).toMatch(/^Mock Dosage \(SAFE_01\) [0-9a-f]{6}$/);
+  });
+
+  it('lays out the first four listed components as a 2 x 2 grid for segmentation', async () => {
+    const text = await mockProvider.extractJson([
+      { text: 'Components:\n- HEAD_01: Headline\n- EVID_01: Efficacy\n- SAFE_01: Dosage\n- REG_01: Disclaimer\n- REG_02: References' },
+      image('cGFnZS0x'),
+    ], 'segmentation');
+
+    expect(JSON.parse(text!)).toEqual([
+      { componentId: 'HEAD_01', bbox: [50, 50, 450, 450] },
+      { componentId: 'EVID_01', bbox: [50, 500, 450, 900] },
+      { componentId: 'SAFE_01', bbox: [500, 50, 900, 450] },
+      { componentId: 'REG_01', bbox: [500, 500, 900, 900] },
+    ]);
+  });
+
+  it('returns one OCR block per image', async () => {
+    const blocks = JSON.parse((await mockProvider.extractJson([{ text: 'Transcribe' }, image('bGJs')], 'ocr'))!);
+    expect(blocks).toEqual([{ text: expect.stringMatching(/^Mock OCR text [0-9a-f]{6}$/), bbox: [40, 300, 110, 700] }]);
+  });
+});
+
+describe('provider registry', () => {
+  it('selects the mock provider with IMAGE_PROVIDER=mock', () => {
+    vi.stubEnv('IMAGE_PROVIDER', 'MOCK');
+    expect(getImageProvider()).toBe(mockProvider);
+    expect(mockProvider.isConfigured()).toBe(true);
+    expect(listImageProviders()).toEqual(['gemini', 'mock']);
+  });
+
+  it('falls back to gemini for unknown providers', () => {
+    vi.stubEnv('IMAGE_PROVIDER', 'dall-e');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(getImageProvider().name).toBe('gemini');
+    expect(warn).toHaveBeenCalledWith('Unknown IMAGE_PROVIDER "dall-e", using gemini');
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Mock Image Provider
+ * Deterministic offline backend - renders the prompt sections into a placeholder LBL with Sharp
+ * Used for developing and testing the extract → prompt → generate → logo-overlay pipeline without network
+ */
+
+import sharp from 'sharp';
+import { createHash } from 'crypto';
+import type { ContentPart, ExtractTask, GeneratedImage, ImageProvider } from './imageProviders.js';
+
+const WIDTH = 1920;
+const HEIGHT = 1080;
+
+// Matches the logo reservation requested in the prompt (12% width x 15% height per corner)
+const LOGO_ZONE_WIDTH = WIDTH * 0.12;
+const LOGO_ZONE_HEIGHT = HEIGHT * 0.15;
+
+const MAX_SECTIONS = 8;
+const MAX_LINES_PER_SECTION = 6;
+const MAX_CHARS_PER_LINE = 42;
+
+interface PromptSection {
+  title: string;
+  lines: string[];
+}
+
+function hashOf(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+}
+
+/**
+ * Split a prompt into titled sections
+ * Understands both "=====\nTITLE\n=====" blocks and inline "=== TITLE ===" headers
+ */
+function parsePromptSections(prompt: string): PromptSection[] {
+  const lines = prompt.split('\n').map(l => l.trim());
+  const sections: PromptSection[] = [];
+  let current: PromptSection = { title: 'BRIEF', lines: [] };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const inlineHeader = line.match(/^===\s*(.+?)\s*===$/);
+    const isRule = /^={10,}$/.test(line);
+
+    if (isRule && lines[i + 2] !== undefined && /^={10,}$/.test(lines[i + 2]) && lines[i + 1]) {
+      sections.push(current);
+      current = { title: lines[i + 1], lines: [] };
+      i += 2;
+    } else if (inlineHeader) {
+      sections.push(current);
+      current = { title: inlineHeader[1], lines: [] };
+    } else if (line && !isRule) {
+      current.lines.push(line);
+    }
+  }
+  sections.push(current);
+
+  return sections.filter(s => s.lines.length > 0);
+}
+
+/**
+ * Render a placeholder LBL: colored header, one card per prompt section, empty logo corners
+ * In text layer mode only the card shapes are drawn, the copy is typeset afterwards
+ */
+async function generateMockImage(contents: ContentPart[], textFree = false): Promise<GeneratedImage> {
+  const prompt = contents
+    .filter((c): c is { text: string } => 'text' in c)
+    .map(c => c.text)
+    .join('\n');
+  const imageCount = contents.filter(c => 'inlineData' in c).length;
+
+  const hash = hashOf(prompt);
+  const hue = parseInt(hash.slice(0, 4), 16) % 360;
+  const primary = `hsl(${hue}, 55%, 38%)`;
+  const tint = `hsl(${hue}, 40%, 95%)`;
+
+  const productMatch = prompt.match(/^Product:\s*(.+)$/m);
+  const title = productMatch ? productMatch[1] : 'Mock LBL';
+
+  const sections = parsePromptSections(prompt).slice(0, MAX_SECTIONS);
+
+  // 4 x 2 card grid between the header and the bottom logo zones
+  const gridTop = LOGO_ZONE_HEIGHT + 40;
+  const gridBottom = HEIGHT - LOGO_ZONE_HEIGHT - 20;
+  const gap = 24;
+  const cols = 4;
+  const rows = 2;
+  const cardWidth = (WIDTH - gap * (cols + 1)) / cols;
+  const cardHeight = (gridBottom - gridTop - gap * (rows - 1)) / rows;
+
+  const cards = sections.map((section, index) => {
+    const x = gap + (index % cols) * (cardWidth + gap);
+    const y = gridTop + Math.floor(index / cols) * (cardHeight + gap);
+    if (textFree) {
+      return `<rect x="${x}" y="${y}" width="${cardWidth}" height="${cardHeight}" rx="12" fill="#ffffff" stroke="${primary}" stroke-width="2" opacity="0.5"/>`;
+    }
+    const body = section.lines
+      .slice(0, MAX_LINES_PER_SECTION)
+      .map((line, i) =>
+        `<text x="${x + 20}" y="${y + 80 + i * 30}" font-family="Arial, sans-serif" font-size="18" fill="#333333">${escapeXml(truncate(line, MAX_CHARS_PER_LINE))}</text>`
+      ).join('');
+
+    return `
+      <rect x="${x}" y="${y}" width="${cardWidth}" height="${cardHeight}" rx="12" fill="#ffffff" stroke="${primary}" stroke-width="2"/>
+      <text x="${x + 20}" y="${y + 40}" font-family="Arial, sans-serif" font-size="20" font-weight="bold" fill="${primary}">${escapeXml(truncate(section.title, 34))}</text>
+      ${body}
+    `;
+  }).join('');
+
+  const svg = `
+    <svg width="${WIDTH}" height="${HEIGHT}" xmlns="http://www.w3.org/2000/svg">
+      <rect width="${WIDTH}" height="${HEIGHT}" fill="${tint}"/>
+      <rect x="${LOGO_ZONE_WIDTH}" y="0" width="${WIDTH - LOGO_ZONE_WIDTH * 2}" height="${LOGO_ZONE_HEIGHT}" fill="${primary}"/>
+      ${textFree ? '' : `<text x="${WIDTH / 2}" y="${LOGO_ZONE_HEIGHT / 2 + 18}" font-family="Arial, sans-serif" font-size="48" font-weight="bold" fill="#ffffff" text-anchor="middle">${escapeXml(truncate(title, 40))}</text>`}
+      ${cards}
+      ${textFree ? '' : `<text x="${WIDTH / 2}" y="${HEIGHT - 40}" font-family="Arial, sans-serif" font-size="16" fill="#666666" text-anchor="middle">MOCK PROVIDER · ${sections.length} sections · ${imageCount} image parts · ${hash.slice(0, 12)}</text>`}
+    </svg>
+  `;
+
+  const buffer = await sharp(Buffer.from(svg)).png().toBuffer();
+
+  return {
+    imageBase64: buffer.toString('base64'),
+    mimeType: 'image/png'
+  };
+}
+
+/**
+ * Return deterministic placeholder text for a component extraction prompt
+ */
+async function extractMockText(prompt: string, imageBase64: string): Promise<string | null> {
+  const componentMatch = prompt.match(/Component:\s*([A-Z]+_\d+[a-z]?)\s*-\s*(.+)/);
+  if (!componentMatch) {
+    return null;
+  }
+
+  const [, componentId, name] = componentMatch;
+  return `Mock ${name.trim()} (${componentId}) ${hashOf(imageBase64).slice(0, 6)}`;
+}
+
+/**
+ * Return deterministic regions for a segmentation prompt: the first four listed
+ * component IDs ("- ID: Name" lines) laid out as a 2 x 2 grid of bboxes (0-1000)
+ */
+function segmentMockPage(prompt: string): string {
+  const ids = [...prompt.matchAll(/^-\s*([A-Z]+_\d+[a-z]?):/gm)].map(m => m[1]).slice(0, 4);
+  const regions = ids.map((componentId, index) => {
+    const row = Math.floor(index / 2);
+    const col = index % 2;
+    return { componentId, bbox: [50 + row * 450, 50 + col * 450, 450 + row * 450, 450 + col * 450] };
+  });
+  return JSON.stringify(regions);
+}
+
+/**
+ * Return a single deterministic OCR block - the mock cannot read pixels, so the
+ * text is derived from the image hash and will not match any source component
+ */
+function ocrMockImage(contents: ContentPart[]): string {
+  const image = contents.find((c): c is Extract<ContentPart, { inlineData: unknown }> => 'inlineData' in c);
+  const hash = hashOf(image?.inlineData.data || '').slice(0, 6);
+  return JSON.stringify([{ text: `Mock OCR text ${hash}`, bbox: [40, 300, 110, 700] }]);
+}
+
+/**
+ * Return deterministic JSON for a batched extraction: each "COMPONENT: ID - Name" label
+ * followed by an image part becomes one entry keyed by ComponentId
+ * Segmentation and OCR requests are answered by their own mocks
+ */
+async function extractMockJson(contents: ContentPart[], task: ExtractTask): Promise<string | null> {
+  if (task === 'segmentation') {
+    const prompt = contents
+      .filter((c): c is { text: string } => 'text' in c)
+      .map(c => c.text)
+      .join('\n');
+    return segmentMockPage(prompt);
+  }
+  if (task === 'ocr') {
+    return ocrMockImage(contents);
+  }
+
+  const result: Record<string, string> = {};
+  let pending: { componentId: string; name: string } | null = null;
+
+  for (const part of contents) {
+    if ('text' in part) {
+      const label = part.text.match(/COMPONENT:\s*([A-Z]+_\d+[a-z]?)\s*-\s*(.+?)\s*(?:===)?$/m);
+      if (label) pending = { componentId: label[1], name: label[2].trim() };
+    } else if (pending) {
+      result[pending.componentId] = `Mock ${pending.name} (${pending.componentId}) ${hashOf(part.inlineData.data).slice(0, 6)}`;
+      pending = null;
+    }
+  }
+
+  return JSON.stringify(result);
+}
+
+export const mockProvider: ImageProvider = {
+  name: 'mock',
+  isConfigured: () => true,
+  generateImage: generateMockImage,
+  extractText: extractMockText,
+  extractJson: extractMockJson,
+};
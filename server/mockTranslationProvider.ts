@@ -0,0 +1,31 @@
+/**
+ * Mock Translation Provider
+ * Deterministic offline stand-in for machine translation - tags the English text with the
+ * target language code (and applies the glossary renderings), so tests can tell machine output
+ * apart from reviewed translations
+ */
+
+import { getLanguage } from './languageRegistryServer.js';
+import type { GlossaryHint, TranslationProvider } from './translationProviders.js';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+async function translateMock(texts: string[], language: string, glossary: GlossaryHint[]): Promise<string[]> {
+  const code = getLanguage(language)?.code || language.toLowerCase();
+
+  return texts.map(text => {
+    const translated = glossary.reduce(
+      (result, { term, rendering }) => result.replace(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'gu'), rendering),
+      text
+    );
+    return `[${code}] ${translated}`;
+  });
+}
+
+export const mockTranslationProvider: TranslationProvider = {
+  name: 'mock',
+  isConfigured: () => true,
+  translate: translateMock,
+};
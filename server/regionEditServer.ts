@@ -0,0 +1,137 @@
+/**
+ * Server-side Region Edit Service
+ * Sends the current LBL plus a region mask to the image provider, then composites
+ * only the edited rectangle back over the original (logos and other areas stay untouched)
+ */
+
+import sharp from 'sharp';
+import type { ContentPart, ImageProvider } from './imageProviders.js';
+
+// Region as fractions (0-1) of the image width/height
+export interface EditRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RegionEditResult {
+  imageBase64: string;
+  mimeType: string;
+  region: { left: number; top: number; width: number; height: number }; // Pixels
+}
+
+const MIN_REGION_PX = 8;
+
+/**
+ * Convert a fractional region to a pixel rectangle clamped to the image bounds
+ */
+function toPixelRegion(region: EditRegion, imageWidth: number, imageHeight: number) {
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+  const x1 = clamp(region.x);
+  const y1 = clamp(region.y);
+  const x2 = clamp(region.x + region.width);
+  const y2 = clamp(region.y + region.height);
+
+  const left = Math.round(x1 * imageWidth);
+  const top = Math.round(y1 * imageHeight);
+  const width = Math.round(x2 * imageWidth) - left;
+  const height = Math.round(y2 * imageHeight) - top;
+
+  if (width < MIN_REGION_PX || height < MIN_REGION_PX) {
+    throw new Error('Edit region is too small');
+  }
+
+  return { left, top, width, height };
+}
+
+/**
+ * Build a black/white mask (white = area the model may change)
+ */
+async function buildRegionMask(
+  imageWidth: number,
+  imageHeight: number,
+  region: { left: number; top: number; width: number; height: number }
+): Promise<Buffer> {
+  const svg = `
+    <svg width="${imageWidth}" height="${imageHeight}" xmlns="http://www.w3.org/2000/svg">
+      <rect width="${imageWidth}" height="${imageHeight}" fill="#000000"/>
+      <rect x="${region.left}" y="${region.top}" width="${region.width}" height="${region.height}" fill="#ffffff"/>
+    </svg>
+  `;
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+function buildEditPrompt(
+  instruction: string,
+  imageWidth: number,
+  imageHeight: number,
+  region: { left: number; top: number; width: number; height: number }
+): string {
+  const pct = (value: number, total: number) => Math.round((value / total) * 100);
+
+  return `Edit the attached pharmaceutical LBL (leave-behind literature) image.
+
+=== EDIT REGION ===
+Only change the rectangle marked WHITE in the attached mask:
+- Left: ${pct(region.left, imageWidth)}% from the left edge
+- Top: ${pct(region.top, imageHeight)}% from the top edge
+- Width: ${pct(region.width, imageWidth)}% of the image width
+- Height: ${pct(region.height, imageHeight)}% of the image height
+
+=== INSTRUCTION ===
+${instruction}
+
+=== RULES ===
+- Keep everything outside the edit region exactly as it is
+- Keep the same canvas size, layout, colors and typography style
+- Do not add, move or redraw any logos`;
+}
+
+/**
+ * Apply an instruction to one region of an image
+ */
+export async function editImageRegion(
+  provider: ImageProvider,
+  imageBase64: string,
+  region: EditRegion,
+  instruction: string
+): Promise<RegionEditResult> {
+  const original = Buffer.from(imageBase64, 'base64');
+  const metadata = await sharp(original).metadata();
+  const imageWidth = metadata.width || 1920;
+  const imageHeight = metadata.height || 1080;
+
+  const pixelRegion = toPixelRegion(region, imageWidth, imageHeight);
+  const mask = await buildRegionMask(imageWidth, imageHeight, pixelRegion);
+  const originalPng = await sharp(original).png().toBuffer();
+
+  const contents: ContentPart[] = [
+    { text: buildEditPrompt(instruction, imageWidth, imageHeight, pixelRegion) },
+    { text: 'ORIGINAL IMAGE:' },
+    { inlineData: { mimeType: 'image/png', data: originalPng.toString('base64') } },
+    { text: 'EDIT MASK (white = area to change):' },
+    { inlineData: { mimeType: 'image/png', data: mask.toString('base64') } },
+  ];
+
+  console.log(`[RegionEdit] ${provider.name}: ${pixelRegion.width}x${pixelRegion.height} at (${pixelRegion.left}, ${pixelRegion.top})`);
+  const edited = await provider.generateImage(contents);
+
+  // Models may return a different resolution - scale back before cropping the region
+  const editedPatch = await sharp(Buffer.from(edited.imageBase64, 'base64'))
+    .resize(imageWidth, imageHeight, { fit: 'fill' })
+    .extract(pixelRegion)
+    .png()
+    .toBuffer();
+
+  const result = await sharp(original)
+    .composite([{ input: editedPatch, left: pixelRegion.left, top: pixelRegion.top }])
+    .png()
+    .toBuffer();
+
+  return {
+    imageBase64: result.toString('base64'),
+    mimeType: 'image/png',
+    region: pixelRegion,
+  };
+}
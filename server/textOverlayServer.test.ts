@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { measureText } from './fontMetricsServer.js';
+import { reflowRegions, wrapText } from './textOverlayServer.js';
+import type { TextRegion } from './textOverlayServer.js';
+
+function region(id: string, x: number, y: number, width: number, height: number): TextRegion {
+  return { id, englishText: id, x, y, width, height, fontSize: 24, fontWeight: 'normal', textAlign: 'left', color: '#000000' };
+}
+
+describe('reflowRegions', () => {
+  it('pushes regions below a grown region down in the same column', () => {
+    const regions = [region('head', 5, 10, 40, 10), region('body', 5, 25, 40, 20), region('side', 60, 25, 30, 20)];
+    const [head, body, side] = reflowRegions(regions, [30, 0, 0]);
+
+    expect(head).toMatchObject({ y: 10, height: 30 });
+    expect(body).toMatchObject({ y: 41, height: 20 });   // 1% gap kept below the grown region
+    expect(side).toMatchObject({ y: 25, height: 20 });
+  });
+
+  it('handles regions given out of vertical order', () => {
+    const [body, head] = reflowRegions([region('body', 5, 25, 40, 20), region('head', 5, 10, 40, 10)], [0, 30]);
+    expect(head).toMatchObject({ y: 10, height: 30 });
+    expect(body.y).toBe(41);
+  });
+
+  it('never shrinks a region or moves it past the bottom of the image', () => {
+    const regions = [region('body', 5, 40, 40, 40), region('footer', 5, 90, 40, 8)];
+    const [body, footer] = reflowRegions(regions, [55, 4]);
+
+    expect(body).toMatchObject({ y: 40, height: 55 });
+    expect(footer).toMatchObject({ y: 92, height: 8 });
+  });
+
+  it('leaves regions whose text fits untouched', () => {
+    const regions = [region('head', 5, 10, 40, 10), region('body', 5, 25, 40, 20)];
+    expect(reflowRegions(regions, [8, 12])).toEqual(regions);
+  });
+});
+
+describe('wrapText', () => {
+  const style = { fontFamily: 'Noto Sans', fontWeight: 'normal' as const, fontSize: 20 };
+  const width = (text: string) => measureText(text, style.fontFamily, style.fontWeight, style.fontSize);
+
+  it('breaks between words at the width', () => {
+    expect(wrapText('Quick onset of action', width('Quick onset'), style)).toEqual(['Quick onset', 'of action']);
+  });
+
+  it('keeps explicit line breaks', () => {
+    expect(wrapText('Quick onset\n\nof action', 1000, style)).toEqual(['Quick onset', 'of action']);
+  });
+
+  it('breaks after a hyphen and rejoins without a space', () => {
+    expect(wrapText('long-lasting relief', width('long-lasting'), style)).toEqual(['long-lasting', 'relief']);
+    expect(wrapText('long-lasting relief', width('long-lasting') - 1, style)).toEqual(['long-', 'lasting', 'relief']);
+  });
+
+  it('splits a word wider than the line into pieces that fit', () => {
+    const word = 'Fluticasonefuroateumeclidinium';
+    const maxWidth = width('Fluticasone');
+    const lines = wrapText(word, maxWidth, style);
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join('')).toBe(word);
+    lines.forEach(line => expect(width(line)).toBeLessThanOrEqual(maxWidth));
+  });
+
+  it('keeps Devanagari conjuncts together when splitting', () => {
+    const word = 'प्रयोगशालाप्रयोगशाला';
+    const lines = wrapText(word, width('प्रयोग'), style);
+
+    expect(lines.join('')).toBe(word);
+    lines.forEach(line => expect(line.startsWith('्')).toBe(false));
+    lines.slice(0, -1).forEach(line => expect(line.endsWith('्')).toBe(false));
+  });
+});
@@ -1,9 +1,15 @@
 /**
  * Server-side Text Overlay Service
  * Uses Sharp with SVG for Hindi/Tamil text rendering (no canvas required)
+ * Text is drawn as glyph outlines from the fonts directory, not with system fonts
  */
 
 import sharp from 'sharp';
+import { getLineMetrics, loadFonts, measureText, outlineText } from './fontMetricsServer.js';
+import type { FontWeight } from './fontMetricsServer.js';
+import { translate } from './translationMemoryServer.js';
+import { getFontFamily, getLanguage, getRequiredFonts } from './languageRegistryServer.js';
+import type { LanguageName } from './languageRegistryServer.js';
 
 export interface TextRegion {
   id: string;
@@ -21,193 +27,430 @@ export interface TextRegion {
   backgroundPadding?: number;
   lineHeight?: number;
   maxLines?: number;
+  minFontSize?: number;        // Auto-shrink floor (default 60% of fontSize)
+  verticalAlign?: 'top' | 'middle' | 'bottom';
+  // Bilingual mode only (OverlayConfig.secondaryLanguage)
+  secondaryText?: string;      // Default: englishText in the secondary language
+  secondaryFontSize?: number;  // Default 75% of fontSize
+  secondaryFontWeight?: 'normal' | 'bold';
+  secondaryColor?: string;     // Default: color
 }
 
+// Bilingual regions show the secondary language below the primary text or in a column beside it
+export type BilingualArrangement = 'stacked' | 'side-by-side';
+
 export interface OverlayConfig {
-  language: 'Hindi' | 'Tamil' | 'English';
+  language: LanguageName;
+  secondaryLanguage?: LanguageName;      // Bilingual mode: shown together with the primary language
+  arrangement?: BilingualArrangement;    // Default stacked
   regions: TextRegion[];
   outputFormat?: 'png' | 'jpeg';
   quality?: number;
 }
 
-// Translation maps
-const TRANSLATIONS: Record<string, Record<string, string>> = {
-  Hindi: {
-    'Quick onset of action within 5 mins': '5 मिनट में तेज़ असर',
-    'Action within 5 mins': '5 मिनट में असर',
-    '5 mins': '5 मिनट',
-    '12 hrs long lasting relief': '12 घंटे लंबे समय तक राहत',
-    'Long lasting relief': 'लंबे समय तक राहत',
-    '12 hrs': '12 घंटे',
-    'Reduces exacerbations by 12%-15%': 'तीव्रता को 12%-15% तक कम करता है',
-    'Reduces exacerbations': 'तीव्रता को कम करता है',
-    '12%-15%': '12%-15%',
-    'Improves lung function by 120 ml': 'फेफड़ों की क्षमता में 120 ml सुधार',
-    'Improves lung function': 'फेफड़ों की क्षमता में सुधार',
-    '120 ml': '120 ml',
-    'For the use of a Registered Medical Practitioner or a Hospital or a Laboratory only':
-      'केवल पंजीकृत चिकित्सक या अस्पताल या प्रयोगशाला के उपयोग के लिए',
-    'COPD patients highly symptomatic and requiring high dose of ICS':
-      'अत्यधिक लक्षण वाले सीओपीडी रोगी जिन्हें ICS की उच्च खुराक की आवश्यकता है',
-    'Quick onset of action': 'तेज़ असर की शुरुआत',
-    'action within': 'में असर',
-    'long lasting': 'लंबे समय तक',
-    'relief': 'राहत',
-  },
-  Tamil: {
-    'Quick onset of action within 5 mins': '5 நிமிடங்களில் விரைவான செயல்',
-    'Action within 5 mins': '5 நிமிடங்களில் செயல்',
-    '5 mins': '5 நிமிடங்கள்',
-    '12 hrs long lasting relief': '12 மணி நேரம் நீடித்த நிவாரணம்',
-    'Long lasting relief': 'நீடித்த நிவாரணம்',
-    '12 hrs': '12 மணி நேரம்',
-    'Reduces exacerbations by 12%-15%': 'தீவிரத்தை 12%-15% குறைக்கிறது',
-    'Reduces exacerbations': 'தீவிரத்தை குறைக்கிறது',
-    'Improves lung function by 120 ml': 'நுரையீரல் செயல்பாட்டை 120 ml மேம்படுத்துகிறது',
-    'Improves lung function': 'நுரையீரல் செயல்பாட்டை மேம்படுத்துகிறது',
-    'For the use of a Registered Medical Practitioner or a Hospital or a Laboratory only':
-      'பதிவு செய்யப்பட்ட மருத்துவர் அல்லது மருத்துவமனை அல்லது ஆய்வகத்தின் பயன்பாட்டிற்கு மட்டும்',
-    'COPD patients highly symptomatic and requiring high dose of ICS':
-      'அதிக அறிகுறிகள் கொண்ட மற்றும் அதிக ICS தேவைப்படும் சிஓபிடி நோயாளிகள்',
-  },
-  English: {}
+// Break opportunities besides spaces: after a hyphen or slash between letters, after a danda
+const BREAK_AFTER = /(?<=[\p{L}\p{M}][-\u2010/])(?=\p{L})|(?<=[\u0964\u0965])/u;
+
+// Viramas join the next consonant into a conjunct, so a word is never split right after one
+const VIRAMA = /[\u094D\u09CD\u0A4D\u0ACD\u0B4D\u0BCD\u0C4D\u0CCD\u0D4D]$/u;
+
+// Colors are written into SVG attributes, so only hex and rgb()/rgba() values are accepted
+const COLOR_PATTERN = /^(#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})|rgba?\(\s*\d{1,3}%?(?:\s*,\s*\d{1,3}%?){2}(?:\s*,\s*(?:\d*\.)?\d+%?)?\s*\))$/i;
+
+const REGION_NUMBERS = ['x', 'y', 'width', 'height', 'fontSize'] as const;
+const OPTIONAL_REGION_NUMBERS = ['backgroundPadding', 'lineHeight', 'maxLines', 'minFontSize', 'secondaryFontSize'] as const;
+const REGION_COLORS = ['color', 'backgroundColor', 'secondaryColor'] as const;
+const REGION_OPTIONS: Record<string, readonly string[]> = {
+  fontWeight: ['normal', 'bold'],
+  secondaryFontWeight: ['normal', 'bold'],
+  textAlign: ['left', 'center', 'right'],
+  verticalAlign: ['top', 'middle', 'bottom'],
 };
 
-function translate(text: string, language: string): string {
-  if (language === 'English') return text;
+const SHRINK_STEP = 0.05;
+const DEFAULT_MIN_FONT_SCALE = 0.6;
+const DEFAULT_SECONDARY_FONT_SCALE = 0.75;
+
+const STACK_GAP = 0.35;              // Between primary and secondary text, in primary em
+const COLUMN_GAP = 0.04;             // Between side-by-side columns, fraction of the region width
+const REFLOW_GAP = 1;                // Max space kept between a grown region and the one pushed below, in %
+
+interface TextStyle {
+  fontFamily: string;
+  fontWeight: FontWeight;
+  fontSize: number;
+}
+
+// One language's text in a region, sizes in px at the image size
+interface TextPart extends TextStyle {
+  text: string;
+  minFontSize: number;
+  lineHeight: number;          // Ratio
+  color: string;
+}
 
-  const langTranslations = TRANSLATIONS[language] || {};
+interface TextLayout {
+  lines: string[];
+  fontSize: number;
+  lineHeight: number;
+  ascent: number;
+  descent: number;
+  textHeight: number;
+}
 
-  if (langTranslations[text]) {
-    return langTranslations[text];
+interface TextBlock {
+  layouts: TextLayout[];       // One per part
+  columnWidth: number;
+  columnGap: number;
+  stackGap: number;
+  height: number;
+}
+
+function measure(text: string, style: TextStyle): number {
+  return measureText(text, style.fontFamily, style.fontWeight, style.fontSize);
+}
+
+/**
+ * Grapheme clusters of a word, with virama + consonant sequences kept together
+ */
+function splitClusters(word: string): string[] {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+  const clusters: string[] = [];
+  for (const { segment } of segmenter.segment(word)) {
+    if (clusters.length > 0 && (VIRAMA.test(clusters[clusters.length - 1]) || /^[\u200C\u200D]/u.test(segment))) {
+      clusters[clusters.length - 1] += segment;
+    } else {
+      clusters.push(segment);
+    }
   }
+  return clusters;
+}
 
-  for (const [eng, trans] of Object.entries(langTranslations)) {
-    if (eng.toLowerCase() === text.toLowerCase()) {
-      return trans;
+/**
+ * Split a word wider than the line at cluster boundaries (last resort, e.g. long compound words)
+ */
+function breakLongWord(word: string, maxWidth: number, style: TextStyle): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const cluster of splitClusters(word)) {
+    if (current && measure(current + cluster, style) > maxWidth) {
+      pieces.push(current);
+      current = cluster;
+    } else {
+      current += cluster;
     }
   }
+  if (current) pieces.push(current);
+  return pieces;
+}
 
-  return text;
+/**
+ * Wrap text to a width using measured glyph advances; explicit line breaks are kept
+ */
+export function wrapText(text: string, maxWidth: number, style: TextStyle): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    const words = paragraph.split(/\s+/).filter(Boolean).flatMap(word => word.split(BREAK_AFTER));
+    let currentLine = '';
+
+    for (const word of words) {
+      // Words split at a hyphen or danda rejoin without a space
+      const joiner = !currentLine || /[-\u2010/\u0964\u0965]$/u.test(currentLine) ? '' : ' ';
+      const candidate = currentLine + joiner + word;
+      if (measure(candidate, style) <= maxWidth) {
+        currentLine = candidate;
+        continue;
+      }
+
+      if (currentLine) lines.push(currentLine);
+      const pieces = measure(word, style) > maxWidth ? breakLongWord(word, maxWidth, style) : [word];
+      lines.push(...pieces.slice(0, -1));
+      currentLine = pieces[pieces.length - 1];
+    }
+    if (currentLine) lines.push(currentLine);
+  }
+
+  return lines;
 }
 
-function getFontFamily(language: string): string {
-  switch (language) {
-    case 'Hindi':
-      return 'Noto Sans Devanagari, Mangal, Arial Unicode MS, sans-serif';
-    case 'Tamil':
-      return 'Noto Sans Tamil, Latha, Arial Unicode MS, sans-serif';
-    default:
-      return 'Arial, sans-serif';
+/**
+ * Shorten the last visible line so it ends in an ellipsis within the width
+ */
+function ellipsize(line: string, maxWidth: number, style: TextStyle): string {
+  const clusters = splitClusters(line);
+  while (clusters.length > 0 && measure(`${clusters.join('').trimEnd()}…`, style) > maxWidth) {
+    clusters.pop();
   }
+  return `${clusters.join('').trimEnd()}…`;
+}
+
+function layoutPart(part: TextPart, width: number, fontSize: number): TextLayout {
+  const style = { ...part, fontSize };
+  const lines = wrapText(part.text, width, style);
+  const { ascent, descent } = getLineMetrics(part.text, part.fontFamily, part.fontWeight, fontSize);
+  const lineHeight = fontSize * part.lineHeight;
+  return { lines, fontSize, lineHeight, ascent, descent, textHeight: (lines.length - 1) * lineHeight + ascent + descent };
+}
+
+/**
+ * Keep the lines that fit a height, ending the last one in an ellipsis
+ */
+function truncateLayout(layout: TextLayout, part: TextPart, width: number, maxHeight: number, maxLines?: number): TextLayout {
+  const heightLines = Math.max(1, Math.floor((maxHeight - layout.ascent - layout.descent) / layout.lineHeight) + 1);
+  const limit = Math.min(heightLines, maxLines || heightLines);
+  if (layout.lines.length <= limit) return layout;
+
+  const lines = layout.lines.slice(0, limit);
+  lines[lines.length - 1] = ellipsize(lines[lines.length - 1], width, { ...part, fontSize: layout.fontSize });
+  return { ...layout, lines, textHeight: (lines.length - 1) * layout.lineHeight + layout.ascent + layout.descent };
 }
 
-function escapeXml(text: string): string {
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
+function combineLayouts(layouts: TextLayout[], arrangement: BilingualArrangement, columnWidth: number, columnGap: number): TextBlock {
+  const stackGap = layouts.length > 1 ? layouts[0].fontSize * STACK_GAP : 0;
+  const height = arrangement === 'side-by-side'
+    ? Math.max(...layouts.map(layout => layout.textHeight))
+    : layouts.reduce((sum, layout) => sum + layout.textHeight, 0) + stackGap * (layouts.length - 1);
+  return { layouts, columnWidth, columnGap, stackGap, height };
 }
 
-function getTextAnchor(align: 'left' | 'center' | 'right'): string {
-  switch (align) {
-    case 'center': return 'middle';
-    case 'right': return 'end';
-    default: return 'start';
+/**
+ * Wrap every part at a scale of its font size (floored at its minimum)
+ */
+function layoutBlockAt(parts: TextPart[], boxWidth: number, arrangement: BilingualArrangement, scale: number): TextBlock {
+  const columns = arrangement === 'side-by-side' ? parts.length : 1;
+  const columnGap = columns > 1 ? boxWidth * COLUMN_GAP : 0;
+  const columnWidth = (boxWidth - columnGap * (columns - 1)) / columns;
+  const layouts = parts.map(part =>
+    layoutPart(part, columnWidth, Math.max(part.minFontSize, Math.floor(part.fontSize * scale)))
+  );
+  return combineLayouts(layouts, arrangement, columnWidth, columnGap);
+}
+
+/**
+ * Wrap the region's text, shrinking all parts together until they fit the width, height and maxLines
+ * Below the minimum sizes the text is truncated with an ellipsis instead
+ */
+function layoutBlock(
+  parts: TextPart[],
+  region: TextRegion,
+  boxWidth: number,
+  boxHeight: number,
+  arrangement: BilingualArrangement
+): TextBlock {
+  const fits = (block: TextBlock) =>
+    block.height <= boxHeight && (!region.maxLines || block.layouts.every(layout => layout.lines.length <= region.maxLines!));
+  const canShrink = (block: TextBlock) =>
+    block.layouts.some((layout, i) => layout.fontSize > parts[i].minFontSize);
+
+  let scale = 1;
+  let block = layoutBlockAt(parts, boxWidth, arrangement, scale);
+  while (!fits(block) && canShrink(block)) {
+    scale *= 1 - SHRINK_STEP;
+    block = layoutBlockAt(parts, boxWidth, arrangement, scale);
   }
+  if (fits(block)) return block;
+
+  // Still too long at the minimum sizes: stacked parts share the height in proportion to their text
+  const stackedHeight = boxHeight - block.stackGap * (parts.length - 1);
+  const totalHeight = block.layouts.reduce((sum, layout) => sum + layout.textHeight, 0);
+  const layouts = block.layouts.map((layout, i) => {
+    const maxHeight = arrangement === 'side-by-side' ? boxHeight : stackedHeight * layout.textHeight / totalHeight;
+    return truncateLayout(layout, parts[i], block.columnWidth, maxHeight, region.maxLines);
+  });
+
+  const lineCounts = layouts.map(layout => layout.lines.length).join('+');
+  console.warn(`[Overlay] Region "${region.id}" does not fit at ${layouts.map(layout => `${layout.fontSize}px`).join('/')} - truncated to ${lineCounts} lines`);
+  return combineLayouts(layouts, arrangement, block.columnWidth, block.columnGap);
+}
+
+function alignTop(top: number, space: number, height: number, verticalAlign: TextRegion['verticalAlign']): number {
+  if (verticalAlign === 'middle') return top + (space - height) / 2;
+  if (verticalAlign === 'bottom') return top + space - height;
+  return top;
+}
+
+// Each line is outlined from the font files and aligned by its measured width
+function drawLines(layout: TextLayout, part: TextPart, x: number, width: number, top: number, textAlign: TextRegion['textAlign']): string {
+  return layout.lines.map((line, i) => {
+    const lineWidth = measureText(line, part.fontFamily, part.fontWeight, layout.fontSize);
+    let lineX = x;
+    if (textAlign === 'center') lineX = x + (width - lineWidth) / 2;
+    if (textAlign === 'right') lineX = x + width - lineWidth;
+    return outlineText(line, part.fontFamily, part.fontWeight, layout.fontSize, lineX, top + layout.ascent + i * layout.lineHeight, part.color);
+  }).join('');
 }
 
 function createTextSvg(
-  text: string,
+  parts: TextPart[],
   region: TextRegion,
   imgWidth: number,
   imgHeight: number,
-  fontFamily: string
+  arrangement: BilingualArrangement
 ): string {
+  if (parts.length === 0) return '';
+
   const actualX = (region.x / 100) * imgWidth;
   const actualY = (region.y / 100) * imgHeight;
   const actualWidth = (region.width / 100) * imgWidth;
+  const actualHeight = (region.height / 100) * imgHeight;
 
-  const scaleFactor = Math.min(imgWidth / 1920, imgHeight / 1080);
-  const actualFontSize = Math.round(region.fontSize * scaleFactor);
-  const lineHeight = actualFontSize * (region.lineHeight || 1.4);
-
-  let textX = actualX;
-  if (region.textAlign === 'center') textX = actualX + actualWidth / 2;
-  if (region.textAlign === 'right') textX = actualX + actualWidth;
+  const block = layoutBlock(parts, region, actualWidth, actualHeight, arrangement);
+  const blockTop = alignTop(actualY, actualHeight, block.height, region.verticalAlign);
 
-  const textAnchor = getTextAnchor(region.textAlign);
-  const fontWeight = region.fontWeight === 'bold' ? 'bold' : 'normal';
-
-  // Simple word wrapping
-  const words = text.split(' ');
-  const lines: string[] = [];
-  let currentLine = '';
-  const avgCharWidth = actualFontSize * 0.5;
-  const maxCharsPerLine = Math.floor(actualWidth / avgCharWidth);
-
-  for (const word of words) {
-    if ((currentLine + ' ' + word).trim().length > maxCharsPerLine && currentLine) {
-      lines.push(currentLine.trim());
-      currentLine = word;
-    } else {
-      currentLine = currentLine ? currentLine + ' ' + word : word;
+  let partTop = blockTop;
+  const textLines = block.layouts.map((layout, i) => {
+    if (arrangement === 'side-by-side') {
+      const columnX = actualX + i * (block.columnWidth + block.columnGap);
+      const columnTop = alignTop(blockTop, block.height, layout.textHeight, region.verticalAlign);
+      return drawLines(layout, parts[i], columnX, block.columnWidth, columnTop, region.textAlign);
     }
-  }
-  if (currentLine) lines.push(currentLine.trim());
-
-  // Apply maxLines limit
-  if (region.maxLines && lines.length > region.maxLines) {
-    lines.length = region.maxLines;
-    lines[lines.length - 1] = lines[lines.length - 1] + '...';
-  }
-
-  // Generate tspan elements for each line
-  const tspans = lines.map((line, i) =>
-    `<tspan x="${textX}" dy="${i === 0 ? 0 : lineHeight}">${escapeXml(line)}</tspan>`
-  ).join('');
+    const svg = drawLines(layout, parts[i], actualX, actualWidth, partTop, region.textAlign);
+    partTop += layout.textHeight + block.stackGap;
+    return svg;
+  }).join('');
 
   // Background rect if specified
   let bgRect = '';
   if (region.backgroundColor) {
     const padding = region.backgroundPadding || 5;
-    const bgHeight = lines.length * lineHeight + padding * 2;
-    bgRect = `<rect x="${actualX - padding}" y="${actualY - padding}" width="${actualWidth + padding * 2}" height="${bgHeight}" fill="${region.backgroundColor}"/>`;
+    bgRect = `<rect x="${actualX - padding}" y="${blockTop - padding}" width="${actualWidth + padding * 2}" height="${block.height + padding * 2}" fill="${region.backgroundColor}"/>`;
   }
 
   return `
     ${bgRect}
-    <text
-      x="${textX}"
-      y="${actualY + actualFontSize}"
-      font-family="${fontFamily}"
-      font-size="${actualFontSize}px"
-      font-weight="${fontWeight}"
-      fill="${region.color}"
-      text-anchor="${textAnchor}"
-    >${tspans}</text>
+    ${textLines}
   `;
 }
 
+/**
+ * Text parts of a region: the primary language, plus the secondary language in bilingual mode
+ */
+function getTextParts(region: TextRegion, config: OverlayConfig, scaleFactor: number): TextPart[] {
+  const { language, secondaryLanguage } = config;
+  const fontSize = Math.round(region.fontSize * scaleFactor);
+  const minFontSize = Math.round((region.minFontSize ?? region.fontSize * DEFAULT_MIN_FONT_SCALE) * scaleFactor);
+
+  const parts: TextPart[] = [{
+    text: region.translatedText || translate(region.englishText, language),
+    fontFamily: getFontFamily(language),
+    fontWeight: region.fontWeight === 'bold' ? 'bold' : 'normal',
+    fontSize,
+    minFontSize: Math.max(1, Math.min(minFontSize, fontSize)),
+    lineHeight: region.lineHeight || getLanguage(language)?.lineHeight || 1.4,
+    color: region.color,
+  }];
+
+  const secondaryText = secondaryLanguage && secondaryLanguage !== language
+    ? region.secondaryText || translate(region.englishText, secondaryLanguage)
+    : '';
+
+  // No approved translation: translate() falls back to the English text, which would print the same copy twice
+  if (secondaryText && secondaryText.trim() === parts[0].text.trim()) {
+    console.warn(`[Overlay] Region "${region.id}": ${language} and ${secondaryLanguage} text are identical (translation missing) - shown once`);
+  } else if (secondaryLanguage && secondaryText) {
+    const secondarySize = region.secondaryFontSize ?? region.fontSize * DEFAULT_SECONDARY_FONT_SCALE;
+    const secondaryFontSize = Math.round(secondarySize * scaleFactor);
+    parts.push({
+      text: secondaryText,
+      fontFamily: getFontFamily(secondaryLanguage),
+      fontWeight: region.secondaryFontWeight === 'bold' ? 'bold' : 'normal',
+      fontSize: secondaryFontSize,
+      minFontSize: Math.max(1, Math.min(Math.round(secondarySize * DEFAULT_MIN_FONT_SCALE * scaleFactor), secondaryFontSize)),
+      lineHeight: getLanguage(secondaryLanguage)?.lineHeight || 1.4,
+      color: region.secondaryColor || region.color,
+    });
+  }
+
+  return parts.filter(part => part.text.trim());
+}
+
+/**
+ * Why a value cannot be rendered as a TextRegion, or null when it can
+ * Style fields are optional here, but when present they must be valid colors and known options
+ */
+export function getRegionError(value: unknown): string | null {
+  const region = value as Record<string, unknown>;
+  if (!region || typeof region !== 'object' || typeof region.id !== 'string' || typeof region.englishText !== 'string') {
+    return 'Each region needs id, englishText and numeric x, y, width, height, fontSize';
+  }
+
+  const label = `Region "${region.id}"`;
+  const number = REGION_NUMBERS.find(key => !Number.isFinite(region[key])) ||
+    OPTIONAL_REGION_NUMBERS.find(key => region[key] !== undefined && !Number.isFinite(region[key]));
+  if (number) return `${label}: ${number} must be a number`;
+
+  const color = REGION_COLORS.find(key => region[key] !== undefined && !(typeof region[key] === 'string' && COLOR_PATTERN.test(region[key])));
+  if (color) return `${label}: ${color} must be a hex, rgb() or rgba() color`;
+
+  const option = Object.entries(REGION_OPTIONS).find(([key, values]) =>
+    region[key] !== undefined && !values.includes(region[key] as string)
+  );
+  if (option) return `${label}: ${option[0]} must be one of ${option[1].join(', ')}`;
+
+  return null;
+}
+
+function overlapsHorizontally(a: TextRegion, b: TextRegion): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width;
+}
+
+/**
+ * Grow regions to the height their text needs at full size (in %) and push the regions below them
+ * in the same columns down to make room; nothing moves past the bottom of the image
+ */
+export function reflowRegions(regions: TextRegion[], neededHeights: number[]): TextRegion[] {
+  const order = regions.map((_, i) => i).sort((a, b) => regions[a].y - regions[b].y);
+  const placed = [...regions];
+
+  order.forEach((i, position) => {
+    const region = regions[i];
+    let y = region.y;
+
+    for (const j of order.slice(0, position)) {
+      const above = regions[j];
+      const gap = region.y - (above.y + above.height);
+      if (gap < 0 || !overlapsHorizontally(above, region)) continue;
+      y = Math.max(y, placed[j].y + placed[j].height + Math.min(gap, REFLOW_GAP));
+    }
+
+    y = Math.min(y, Math.max(region.y, 100 - region.height));
+    const height = Math.max(region.height, Math.min(neededHeights[i] ?? 0, 100 - y));
+    placed[i] = { ...region, y, height };
+  });
+
+  return placed;
+}
+
 export async function applyTextOverlay(
   imageBuffer: Buffer,
   config: OverlayConfig
 ): Promise<Buffer> {
-  const { language, regions, outputFormat = 'png', quality = 90 } = config;
+  const { regions, outputFormat = 'png', quality = 90 } = config;
+  const arrangement = config.arrangement || 'stacked';
 
   const metadata = await sharp(imageBuffer).metadata();
   const imgWidth = metadata.width || 1920;
   const imgHeight = metadata.height || 1080;
 
-  const fontFamily = getFontFamily(language);
+  const scaleFactor = Math.min(imgWidth / 1920, imgHeight / 1080);
+  const parts = regions.map(region => getTextParts(region, config, scaleFactor));
+
+  // Two languages need more room than the layout was drawn for: let regions grow before shrinking text
+  let placed = regions;
+  if (parts.some(regionParts => regionParts.length > 1)) {
+    const neededHeights = regions.map((region, i) => {
+      if (parts[i].length === 0) return 0;
+      const block = layoutBlockAt(parts[i], (region.width / 100) * imgWidth, arrangement, 1);
+      return ((Math.ceil(block.height) + 1) / imgHeight) * 100;
+    });
+    placed = reflowRegions(regions, neededHeights);
+    const moved = placed.filter((region, i) => region.y !== regions[i].y || region.height !== regions[i].height);
+    if (moved.length > 0) console.log(`[Overlay] Bilingual reflow: ${moved.map(region => region.id).join(', ')}`);
+  }
 
   // Build SVG with all text regions
-  const textElements = regions.map(region => {
-    const text = region.translatedText || translate(region.englishText, language);
-    return createTextSvg(text, region, imgWidth, imgHeight, fontFamily);
-  }).join('');
+  const textElements = placed.map((region, i) => createTextSvg(parts[i], region, imgWidth, imgHeight, arrangement)).join('');
 
   const svgOverlay = `
     <svg width="${imgWidth}" height="${imgHeight}" xmlns="http://www.w3.org/2000/svg">
@@ -239,13 +482,56 @@ export async function applyTextOverlayBase64(
   return resultBuffer.toString('base64');
 }
 
-// No-op for compatibility - fonts are loaded from system
-export function registerFonts(_fontsDir?: string): void {
-  console.log('Using system fonts for text rendering (Noto Sans Devanagari/Tamil)');
-  console.log('For best results, install Noto Sans fonts on your system');
+interface MissingFont {
+  fontFamily: string;
+  weight: FontWeight;
+  languages: string[];
+}
+
+let missingFonts: MissingFont[] = [];
+
+function describeMissing(fonts: MissingFont[]): string[] {
+  return fonts.map(({ fontFamily, weight, languages }) => `${fontFamily} ${weight} (${languages.join(', ')})`);
+}
+
+/**
+ * Load the overlay fonts from the fonts directory (npm run setup:fonts)
+ * Text is measured and outlined from these files, so rendering is identical on any machine
+ * Throws when a font is missing, unless allowMissing is set: then the languages without their
+ * fonts are refused by /api/overlay (see getMissingFonts) and the rest keeps working
+ */
+export function registerFonts(fontsDir: string, { allowMissing = false }: { allowMissing?: boolean } = {}): string[] {
+  const fonts = loadFonts(fontsDir);
+
+  missingFonts = getRequiredFonts().flatMap(({ fontFamily, languages }) =>
+    (['normal', 'bold'] as FontWeight[])
+      .filter(weight => !fonts.some(f => f.family === fontFamily && f.weight === weight))
+      .map(weight => ({ fontFamily, weight, languages }))
+  );
+  const missing = describeMissing(missingFonts);
+  if (missing.length > 0 && !allowMissing) {
+    throw new Error(`Missing overlay fonts in ${fontsDir}: ${missing.join(', ')}. Run "npm run setup:fonts" to download them`);
+  }
+  if (missing.length > 0) {
+    console.error(`\n⚠️  Missing overlay fonts in ${fontsDir}: ${missing.join(', ')}`);
+    console.error('   Overlays in these languages are refused until they are installed. Run "npm run setup:fonts" to download them\n');
+  }
+
+  console.log(`Overlay fonts: ${fonts.map(f => `${f.family} ${f.weight}`).join(', ') || 'none'}`);
+  return missing;
+}
+
+/**
+ * Missing fonts an overlay in these languages needs (every missing font when no languages are given)
+ * Each language uses its script's font plus Noto Sans for embedded Latin words
+ */
+export function getMissingFonts(languages?: string[]): string[] {
+  const families = languages && new Set(languages.flatMap(name => [getLanguage(name)?.fontFamily, 'Noto Sans']));
+  return describeMissing(missingFonts.filter(font => !families || families.has(font.fontFamily)));
 }
 
-// Predefined LBL layouts - background covers English, Hindi stacked on top
+// Predefined LBL layouts - the translation replaces the English copy (background covers it),
+// or is shown together with it in bilingual mode (secondaryLanguage)
 export const LBL_LAYOUTS: Record<string, TextRegion[]> = {
   'nebzmart-horizontal': [
     // Main headline - cream/beige background to match LBL header area
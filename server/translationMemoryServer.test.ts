@@ -0,0 +1,137 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  createEntry,
+  createGlossaryTerm,
+  deleteEntry,
+  exportEntries,
+  importEntries,
+  initTranslationMemory,
+  listEntries,
+  lookupTranslation,
+  translateWithMemory,
+} from './translationMemoryServer.js';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tm-test-'));
+
+// A fresh store with the seed translations for every test
+beforeEach(() => {
+  const filePath = path.join(tempDir, 'translation-memory.json');
+  fs.rmSync(filePath, { force: true });
+  initTranslationMemory(filePath);
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('lookupTranslation', () => {
+  it('matches exact sources ignoring case and spacing', () => {
+    const { match } = lookupTranslation('  quick onset of  action ', 'Hindi');
+    expect(match).toMatchObject({ match: 'exact', score: 1, target: 'तेज़ असर की शुरुआत' });
+  });
+
+  it('translates sentence by sentence and keeps the separators', () => {
+    const { match } = lookupTranslation('Quick onset of action. Long lasting relief', 'Hindi');
+    expect(match?.match).toBe('segment');
+    expect(match?.target).toBe('तेज़ असर की शुरुआत. लंबे समय तक राहत');
+    expect(match?.entryIds).toHaveLength(2);
+  });
+
+  it('needs every sentence in the memory for a segment match', () => {
+    const { match } = lookupTranslation('Quick onset of action. Unknown sentence', 'Hindi');
+    expect(match).toBeNull();
+  });
+
+  it('applies close fuzzy matches and only suggests weaker ones', () => {
+    const close = lookupTranslation('Quick onset of action within 5 min', 'Hindi');
+    expect(close.match).toMatchObject({ match: 'fuzzy', source: 'Quick onset of action within 5 mins' });
+    expect(close.match!.score).toBeGreaterThanOrEqual(0.85);
+
+    const weak = lookupTranslation('Improves the lung function', 'Hindi');
+    expect(weak.match).toBeNull();
+    expect(weak.suggestions[0]).toMatchObject({ match: 'fuzzy', source: 'Improves lung function' });
+  });
+
+  it('never fuzzy-matches a source with different numbers', () => {
+    const result = lookupTranslation('Quick onset of action within 10 mins', 'Hindi');
+    expect(result.match).toBeNull();
+    expect(result.suggestions).toEqual([]);
+  });
+
+  it('skips drafts unless asked for them', () => {
+    createEntry({ source: 'Once daily', language: 'Hindi', target: 'दिन में एक बार' });
+    expect(lookupTranslation('Once daily', 'Hindi').match).toBeNull();
+    expect(lookupTranslation('Once daily', 'Hindi', true).match).toMatchObject({ match: 'exact', status: 'draft' });
+  });
+});
+
+describe('translateWithMemory', () => {
+  it('reports approved entries that break a glossary term added later', async () => {
+    const entry = createEntry({ source: 'Use the inhaler twice daily', language: 'Hindi', target: 'इनहेलर दिन में दो बार लें', status: 'approved' });
+    createGlossaryTerm({ term: 'inhaler', translations: { Hindi: 'इन्हेलर' } });
+
+    const [result] = await translateWithMemory(['Use the inhaler twice daily'], 'Hindi', null);
+    expect(result).toMatchObject({ translated: entry.target, status: 'approved', entryIds: [entry.id] });
+    expect(result.glossaryIssues).toEqual(['"inhaler" must be rendered as "इन्हेलर"']);
+    expect(lookupTranslation('Use the inhaler twice daily', 'Hindi').match).toBeNull();
+  });
+
+  it('returns pending entries without glossary issues when they follow the glossary', async () => {
+    createEntry({ source: 'Once daily', language: 'Hindi', target: 'दिन में एक बार' });
+    const [result] = await translateWithMemory(['Once daily'], 'Hindi', null);
+    expect(result).toMatchObject({ translated: 'दिन में एक बार', status: 'draft' });
+    expect(result.glossaryIssues).toBeUndefined();
+  });
+});
+
+describe('TMX / XLIFF exchange', () => {
+  const entries = [
+    { source: 'Take 2 puffs <twice> daily & "as needed"', language: 'Hindi', target: 'दिन में दो बार 2 पफ लें', status: 'needs_review' as const, note: "Translator's note" },
+    { source: 'Store below 30°C', language: 'Tamil', target: '30°C க்கு கீழே சேமிக்கவும்', status: 'draft' as const },
+  ];
+
+  for (const format of ['tmx', 'xliff'] as const) {
+    it(`restores exported entries from ${format.toUpperCase()}`, () => {
+      const created = entries.map(entry => createEntry(entry));
+      const exported = exportEntries(format);
+      created.forEach(entry => deleteEntry(entry.id));
+
+      const summary = importEntries(format, exported, 'tester');
+      expect(summary).toMatchObject({ added: 2, updated: 0, issues: [] });
+
+      for (const entry of entries) {
+        const [restored] = listEntries({ language: entry.language, query: entry.source });
+        expect(restored).toMatchObject({ ...entry, updatedBy: 'tester' });
+      }
+    });
+
+    it(`skips unchanged entries when ${format.toUpperCase()} is imported again`, () => {
+      const before = listEntries().length;
+      const summary = importEntries(format, exportEntries(format));
+      expect(summary.added).toBe(0);
+      expect(summary.updated).toBe(0);
+      expect(listEntries()).toHaveLength(before);
+    });
+  }
+
+  it('imports approved units that break the glossary as drafts', () => {
+    const xliff = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file original="vendor" source-language="en" target-language="hi" datatype="plaintext">
+    <body>
+      <trans-unit id="1" approved="yes">
+        <source>For COPD patients</source>
+        <target state="final">COPD रोगियों के लिए</target>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>`;
+    const summary = importEntries('xliff', xliff);
+    expect(summary.added).toBe(1);
+    expect(summary.issues).toHaveLength(1);
+    expect(listEntries({ query: 'For COPD patients' })[0].status).toBe('draft');
+  });
+});
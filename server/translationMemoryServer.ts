@@ -0,0 +1,757 @@
+/**
+ * Translation Memory
+ * English -> Indian language translations maintained by medical translators, stored as one JSON file:
+ *
+ *   { "entries": [...], "glossary": [...] }
+ *
+ * - Lookups try an exact match, then sentence segments, then a fuzzy match with identical numbers
+ * - Glossary terms (drug names, units) are locked: every translation must keep their fixed rendering
+ * - Only approved entries are used for rendering unless drafts are requested
+ * - Misses can be machine translated; those entries need review before they are used
+ * - Import/export as TMX 1.4 or XLIFF 1.2 for CAT tools
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { LANGUAGES, getLanguage, getLanguageByCode } from './languageRegistryServer.js';
+import type { GlossaryHint, TranslationProvider } from './translationProviders.js';
+
+// needs_review: machine translated, waiting for a translator
+export type TranslationStatus = 'draft' | 'needs_review' | 'approved';
+
+export const TRANSLATION_STATUSES: TranslationStatus[] = ['draft', 'needs_review', 'approved'];
+
+export interface TranslationEntry {
+  id: string;
+  source: string;              // English
+  language: string;            // Target language name ('Hindi', 'Tamil'), see languageRegistryServer
+  target: string;
+  status: TranslationStatus;
+  note?: string;
+  updatedBy?: string;
+  provider?: string;           // Machine translation provider that produced the first version
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GlossaryTerm {
+  id: string;
+  term: string;                          // English term as it appears in the source
+  translations: Record<string, string>;  // Fixed rendering per language; missing = kept as is
+  caseSensitive?: boolean;
+  note?: string;
+}
+
+export type MatchType = 'exact' | 'segment' | 'fuzzy';
+
+export interface TranslationMatch {
+  source: string;              // Source text in the memory (differs from the lookup for fuzzy matches)
+  target: string;
+  match: MatchType;
+  score: number;               // 1 for exact/segment matches
+  entryIds: string[];
+  status: TranslationStatus;   // Status of the least reviewed entry used
+}
+
+export interface LookupResult {
+  source: string;
+  match: TranslationMatch | null;
+  suggestions: TranslationMatch[];   // Fuzzy candidates below the auto-apply threshold
+}
+
+export type ExchangeFormat = 'tmx' | 'xliff';
+
+export interface ImportSummary {
+  added: number;
+  updated: number;
+  skipped: number;
+  issues: string[];
+}
+
+interface TranslationMemoryFile {
+  entries: TranslationEntry[];
+  glossary: GlossaryTerm[];
+}
+
+// Target languages with their own entries (English is the source)
+export const TM_LANGUAGES: string[] = LANGUAGES.flatMap(language => language.memoryLanguage ? [language.memoryLanguage] : []);
+
+// Fuzzy matches at or above this score are applied; lower ones are only suggested
+const FUZZY_APPLY_SCORE = 0.85;
+const FUZZY_SUGGEST_SCORE = 0.6;
+const MAX_SUGGESTIONS = 3;
+
+// Translations that were hardcoded in the overlay server, written when the store is created
+const SEED_TRANSLATIONS: Record<string, Record<string, string>> = {
+  Hindi: {
+    'Quick onset of action within 5 mins': '5 मिनट में तेज़ असर',
+    'Action within 5 mins': '5 मिनट में असर',
+    '5 mins': '5 मिनट',
+    '12 hrs long lasting relief': '12 घंटे लंबे समय तक राहत',
+    'Long lasting relief': 'लंबे समय तक राहत',
+    '12 hrs': '12 घंटे',
+    'Reduces exacerbations by 12%-15%': 'तीव्रता को 12%-15% तक कम करता है',
+    'Reduces exacerbations': 'तीव्रता को कम करता है',
+    'Improves lung function by 120 ml': 'फेफड़ों की क्षमता में 120 ml सुधार',
+    'Improves lung function': 'फेफड़ों की क्षमता में सुधार',
+    'For the use of a Registered Medical Practitioner or a Hospital or a Laboratory only':
+      'केवल पंजीकृत चिकित्सक या अस्पताल या प्रयोगशाला के उपयोग के लिए',
+    'COPD patients highly symptomatic and requiring high dose of ICS':
+      'अत्यधिक लक्षण वाले सीओपीडी रोगी जिन्हें ICS की उच्च खुराक की आवश्यकता है',
+    'Quick onset of action': 'तेज़ असर की शुरुआत',
+    'Long lasting': 'लंबे समय तक',
+    'Relief': 'राहत',
+  },
+  Tamil: {
+    'Quick onset of action within 5 mins': '5 நிமிடங்களில் விரைவான செயல்',
+    'Action within 5 mins': '5 நிமிடங்களில் செயல்',
+    '5 mins': '5 நிமிடங்கள்',
+    '12 hrs long lasting relief': '12 மணி நேரம் நீடித்த நிவாரணம்',
+    'Long lasting relief': 'நீடித்த நிவாரணம்',
+    '12 hrs': '12 மணி நேரம்',
+    'Reduces exacerbations by 12%-15%': 'தீவிரத்தை 12%-15% குறைக்கிறது',
+    'Reduces exacerbations': 'தீவிரத்தை குறைக்கிறது',
+    'Improves lung function by 120 ml': 'நுரையீரல் செயல்பாட்டை 120 ml மேம்படுத்துகிறது',
+    'Improves lung function': 'நுரையீரல் செயல்பாட்டை மேம்படுத்துகிறது',
+    'For the use of a Registered Medical Practitioner or a Hospital or a Laboratory only':
+      'பதிவு செய்யப்பட்ட மருத்துவர் அல்லது மருத்துவமனை அல்லது ஆய்வகத்தின் பயன்பாட்டிற்கு மட்டும்',
+    'COPD patients highly symptomatic and requiring high dose of ICS':
+      'அதிக அறிகுறிகள் கொண்ட மற்றும் அதிக ICS தேவைப்படும் சிஓபிடி நோயாளிகள்',
+  },
+};
+
+const SEED_GLOSSARY: Omit<GlossaryTerm, 'id'>[] = [
+  { term: 'ml', translations: {}, caseSensitive: true, note: 'Unit' },
+  { term: 'mg', translations: {}, caseSensitive: true, note: 'Unit' },
+  { term: 'mcg', translations: {}, caseSensitive: true, note: 'Unit' },
+  { term: 'ICS', translations: {}, caseSensitive: true, note: 'Inhaled corticosteroid' },
+  { term: 'COPD', translations: { Hindi: 'सीओपीडी', Tamil: 'சிஓபிடி' }, caseSensitive: true },
+];
+
+let storePath: string | null = null;
+
+/**
+ * Point the translation memory at its JSON file (created with the seed translations if missing)
+ */
+export function initTranslationMemory(filePath: string): void {
+  storePath = path.resolve(filePath);
+
+  if (!fs.existsSync(storePath)) {
+    const now = new Date().toISOString();
+    const entries = Object.entries(SEED_TRANSLATIONS).flatMap(([language, translations]) =>
+      Object.entries(translations).map(([source, target]): TranslationEntry => ({
+        id: randomUUID(), source, language, target, status: 'approved', createdAt: now, updatedAt: now,
+      }))
+    );
+    const glossary = SEED_GLOSSARY.map(term => ({ ...term, id: randomUUID() }));
+    fs.mkdirSync(path.dirname(storePath), { recursive: true });
+    writeStore({ entries, glossary });
+  }
+
+  const { entries, glossary } = readStore();
+  console.log(`Translation memory: ${storePath} (${entries.length} entries, ${glossary.length} glossary terms)`);
+}
+
+function getStorePath(): string {
+  if (!storePath) {
+    throw new Error('Translation memory not initialized');
+  }
+  return storePath;
+}
+
+function readStore(): TranslationMemoryFile {
+  const filePath = getStorePath();
+  if (!fs.existsSync(filePath)) {
+    return { entries: [], glossary: [] };
+  }
+  const store = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<TranslationMemoryFile>;
+  return { entries: store.entries || [], glossary: store.glossary || [] };
+}
+
+function writeStore(store: TranslationMemoryFile): void {
+  fs.writeFileSync(getStorePath(), JSON.stringify(store, null, 2));
+}
+
+// ============================================
+// Matching
+// ============================================
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function tokenize(text: string): string[] {
+  return normalize(text).match(/[\p{L}\p{M}\p{N}%.]+/gu) || [];
+}
+
+function extractNumbers(text: string): string {
+  return (text.match(/\d+(?:[.,]\d+)?/g) || []).join('|');
+}
+
+/**
+ * Word-level similarity: 1 - edit distance / longer length
+ */
+function similarity(a: string, b: string): number {
+  const wordsA = tokenize(a);
+  const wordsB = tokenize(b);
+  if (wordsA.length === 0 || wordsB.length === 0) return 0;
+
+  let previous = Array.from({ length: wordsB.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= wordsA.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= wordsB.length; j++) {
+      const cost = wordsA[i - 1] === wordsB[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return 1 - previous[wordsB.length] / Math.max(wordsA.length, wordsB.length);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function containsTerm(text: string, term: string, caseSensitive = false): boolean {
+  // \b does not work next to Indic letters, so word boundaries are spelled out
+  const pattern = new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{M}\\p{N}])`, caseSensitive ? 'u' : 'iu');
+  return pattern.test(text);
+}
+
+/**
+ * Locked glossary terms in the source that the target does not render as required
+ */
+export function findGlossaryIssues(source: string, target: string, language: string, glossary?: GlossaryTerm[]): string[] {
+  const terms = glossary || readStore().glossary;
+  return terms
+    .filter(term => containsTerm(source, term.term, term.caseSensitive))
+    .map(term => ({ term, expected: term.translations[language] || term.term }))
+    .filter(({ expected }) => !containsTerm(target, expected))
+    .map(({ term, expected }) => `"${term.term}" must be rendered as "${expected}"`);
+}
+
+function usableEntries(store: TranslationMemoryFile, language: string, includeDrafts: boolean): TranslationEntry[] {
+  return store.entries.filter(entry =>
+    entry.language === language &&
+    (includeDrafts || entry.status === 'approved') &&
+    findGlossaryIssues(entry.source, entry.target, language, store.glossary).length === 0
+  );
+}
+
+function toMatch(entry: TranslationEntry, match: MatchType, score: number): TranslationMatch {
+  return { source: entry.source, target: entry.target, match, score, entryIds: [entry.id], status: entry.status };
+}
+
+// Fields sent as undefined in a partial update keep their stored values
+function definedFields<T extends object>(changes: T): Partial<T> {
+  return Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+function findExact(text: string, entries: TranslationEntry[]): TranslationEntry | undefined {
+  const key = normalize(text);
+  // Prefer approved entries when drafts are included
+  return entries
+    .filter(entry => normalize(entry.source) === key)
+    .sort((a, b) => Number(b.status === 'approved') - Number(a.status === 'approved'))[0];
+}
+
+function rankFuzzy(text: string, entries: TranslationEntry[]): TranslationMatch[] {
+  const numbers = extractNumbers(text);
+  return entries
+    // A fuzzy match must never change a number (dose, percentage, duration)
+    .filter(entry => extractNumbers(entry.source) === numbers)
+    .map(entry => toMatch(entry, 'fuzzy', similarity(text, entry.source)))
+    .filter(match => match.score >= FUZZY_SUGGEST_SCORE)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Translate each sentence separately and rejoin them (keeps the original separators)
+ */
+function matchSegments(text: string, entries: TranslationEntry[]): TranslationMatch | null {
+  const parts = text.split(/((?<=[.;!?:])\s+|\n)/);
+  const segments = parts.filter((_, i) => i % 2 === 0);
+  if (segments.filter(segment => segment.trim()).length < 2) return null;
+
+  const targets: string[] = [];
+  const used: TranslationEntry[] = [];
+  for (const segment of segments) {
+    if (!segment.trim()) {
+      targets.push(segment);
+      continue;
+    }
+    // Sentence-final punctuation is often missing in the memory
+    const entry = findExact(segment, entries) || findExact(segment.replace(/[.;!?:]$/, ''), entries);
+    if (!entry) return null;
+    targets.push(normalize(entry.source) === normalize(segment) ? entry.target : entry.target + segment.slice(-1));
+    used.push(entry);
+  }
+
+  return {
+    source: text,
+    target: parts.map((part, i) => (i % 2 === 0 ? targets[i / 2] : part)).join(''),
+    match: 'segment',
+    score: 1,
+    entryIds: used.map(entry => entry.id),
+    status: used.find(entry => entry.status !== 'approved')?.status ?? 'approved',
+  };
+}
+
+/**
+ * Look up a text in the memory: exact, then segment-level, then fuzzy
+ */
+export function lookupTranslation(text: string, language: string, includeDrafts = false): LookupResult {
+  const entries = usableEntries(readStore(), language, includeDrafts);
+
+  const exact = findExact(text, entries);
+  if (exact) return { source: text, match: toMatch(exact, 'exact', 1), suggestions: [] };
+
+  const segmented = matchSegments(text, entries);
+  if (segmented) return { source: text, match: segmented, suggestions: [] };
+
+  const fuzzy = rankFuzzy(text, entries);
+  const best = fuzzy[0]?.score >= FUZZY_APPLY_SCORE ? fuzzy[0] : null;
+  return {
+    source: text,
+    match: best,
+    suggestions: fuzzy.filter(match => match !== best).slice(0, MAX_SUGGESTIONS),
+  };
+}
+
+/**
+ * Translated text for rendering, or the English text when the memory has no usable match
+ */
+export function translate(text: string, language: string): string {
+  const memoryLanguage = getLanguage(language)?.memoryLanguage;
+  if (!memoryLanguage) return text;
+  return lookupTranslation(text, memoryLanguage).match?.target ?? text;
+}
+
+export interface TranslationResult {
+  original: string;
+  translated: string;          // English text when nothing is available
+  match: MatchType | 'machine' | null;
+  score: number;
+  status: TranslationStatus | null;
+  entryIds: string[];
+  glossaryIssues?: string[];   // Stored entry breaks a glossary rule, so the overlay will not render it
+  error?: string;              // Machine translation failure
+}
+
+/**
+ * Glossary renderings for a language, for machine translation prompts
+ */
+export function getGlossaryHints(language: string): GlossaryHint[] {
+  return readStore().glossary.map(term => ({ term: term.term, rendering: term.translations[language] || term.term }));
+}
+
+/**
+ * Translate texts from the memory; misses go to the machine translation provider and are stored
+ * as needs_review entries, so the next request (and the translators) see the same text
+ * Unreviewed entries are returned with their status - the overlay only renders approved ones
+ * that follow the glossary, so entries breaking it come back with their glossary issues
+ */
+export async function translateWithMemory(
+  texts: string[],
+  language: string,
+  provider: TranslationProvider | null
+): Promise<TranslationResult[]> {
+  const store = readStore();
+  const known = store.entries.filter(entry => entry.language === language);
+
+  const results = texts.map((text): TranslationResult => {
+    const { match } = lookupTranslation(text, language);
+    if (match) {
+      return { original: text, translated: match.target, match: match.match, score: match.score, status: match.status, entryIds: match.entryIds };
+    }
+    // Not usable yet: drafts, machine translations waiting for review and entries breaking the glossary
+    const pending = findExact(text, known);
+    if (pending) {
+      const glossaryIssues = findGlossaryIssues(pending.source, pending.target, language, store.glossary);
+      return {
+        original: text, translated: pending.target, match: 'exact', score: 1, status: pending.status, entryIds: [pending.id],
+        ...(glossaryIssues.length > 0 && { glossaryIssues }),
+      };
+    }
+    return { original: text, translated: text, match: null, score: 0, status: null, entryIds: [] };
+  });
+
+  const misses = [...new Set(results.filter(result => !result.status && result.original.trim()).map(result => result.original))];
+  if (!provider || misses.length === 0) return results;
+
+  let machine: string[];
+  try {
+    machine = await provider.translate(misses, language, getGlossaryHints(language));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Machine translation failed';
+    console.error(`[TM] ${provider.name} translation failed:`, message);
+    return results.map(result => (result.status ? result : { ...result, error: message }));
+  }
+
+  const stored = new Map<string, TranslationEntry | Error>();
+  misses.forEach((source, i) => {
+    const target = machine[i]?.trim() || '';
+    const issues = findGlossaryIssues(source, target, language);
+    try {
+      stored.set(source, createEntry({
+        source,
+        language,
+        target,
+        status: 'needs_review',
+        provider: provider.name,
+        note: [`Machine translation (${provider.name})`, ...issues].join(' - '),
+      }));
+    } catch (error) {
+      stored.set(source, error instanceof Error ? error : new Error('Could not store machine translation'));
+    }
+  });
+
+  return results.map(result => {
+    const entry = stored.get(result.original);
+    if (!entry) return result;
+    if (entry instanceof Error) return { ...result, error: entry.message };
+    return { ...result, translated: entry.target, match: 'machine', status: entry.status, entryIds: [entry.id] };
+  });
+}
+
+// ============================================
+// Entries and glossary
+// ============================================
+
+export interface EntryFilter {
+  language?: string;
+  status?: TranslationStatus;
+  query?: string;
+}
+
+export function listEntries(filter: EntryFilter = {}): TranslationEntry[] {
+  const query = filter.query ? normalize(filter.query) : '';
+  return readStore().entries.filter(entry =>
+    (!filter.language || entry.language === filter.language) &&
+    (!filter.status || entry.status === filter.status) &&
+    (!query || normalize(entry.source).includes(query) || normalize(entry.target).includes(query))
+  );
+}
+
+export type EntryInput = Pick<TranslationEntry, 'source' | 'language' | 'target'> &
+  Partial<Pick<TranslationEntry, 'status' | 'note' | 'updatedBy' | 'provider'>>;
+
+function validateEntry(entry: TranslationEntry, store: TranslationMemoryFile): void {
+  if (!entry.source.trim() || !entry.target.trim()) {
+    throw new Error('Invalid entry: source and target are required');
+  }
+  if (!TM_LANGUAGES.includes(entry.language)) {
+    throw new Error(`Invalid entry: unsupported language ${entry.language}`);
+  }
+  if (!TRANSLATION_STATUSES.includes(entry.status)) {
+    throw new Error(`Invalid entry: unknown status ${entry.status}`);
+  }
+  const duplicate = store.entries.find(other =>
+    other.id !== entry.id && other.language === entry.language && normalize(other.source) === normalize(entry.source)
+  );
+  if (duplicate) {
+    throw new Error(`Invalid entry: "${entry.source}" already has a ${entry.language} translation (${duplicate.id})`);
+  }
+  // Drafts may be saved while the translator works on them, approval needs the locked terms
+  const issues = findGlossaryIssues(entry.source, entry.target, entry.language, store.glossary);
+  if (entry.status === 'approved' && issues.length > 0) {
+    throw new Error(`Glossary: ${issues.join('; ')}`);
+  }
+}
+
+export function createEntry(input: EntryInput): TranslationEntry {
+  const store = readStore();
+  const now = new Date().toISOString();
+  const entry: TranslationEntry = {
+    id: randomUUID(),
+    source: input.source.trim(),
+    language: input.language,
+    target: input.target.trim(),
+    status: input.status || 'draft',
+    note: input.note,
+    updatedBy: input.updatedBy,
+    provider: input.provider,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  validateEntry(entry, store);
+  store.entries.push(entry);
+  writeStore(store);
+
+  console.log(`[TM] Added ${entry.language} entry ${entry.id} (${entry.status})`);
+  return entry;
+}
+
+export function updateEntry(id: string, changes: Partial<EntryInput>): TranslationEntry {
+  const store = readStore();
+  const index = store.entries.findIndex(entry => entry.id === id);
+  if (index === -1) {
+    throw new Error('Translation entry not found');
+  }
+
+  const existing = store.entries[index];
+  const entry: TranslationEntry = {
+    ...existing,
+    ...definedFields(changes),
+    source: (changes.source ?? existing.source).trim(),
+    target: (changes.target ?? existing.target).trim(),
+    id,
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString(),
+  };
+
+  validateEntry(entry, store);
+  store.entries[index] = entry;
+  writeStore(store);
+
+  console.log(`[TM] Updated ${entry.language} entry ${id} (${entry.status})`);
+  return entry;
+}
+
+export function deleteEntry(id: string): void {
+  const store = readStore();
+  if (!store.entries.some(entry => entry.id === id)) {
+    throw new Error('Translation entry not found');
+  }
+  store.entries = store.entries.filter(entry => entry.id !== id);
+  writeStore(store);
+
+  console.log(`[TM] Deleted entry ${id}`);
+}
+
+export function listGlossary(): GlossaryTerm[] {
+  return readStore().glossary;
+}
+
+function validateTerm(term: GlossaryTerm, store: TranslationMemoryFile): void {
+  if (!term.term.trim()) {
+    throw new Error('Invalid glossary term: term is required');
+  }
+  if (store.glossary.some(other => other.id !== term.id && other.term === term.term)) {
+    throw new Error(`Invalid glossary term: "${term.term}" already exists`);
+  }
+}
+
+export function createGlossaryTerm(input: Omit<GlossaryTerm, 'id'>): GlossaryTerm {
+  const store = readStore();
+  const term: GlossaryTerm = { ...input, term: input.term.trim(), translations: input.translations || {}, id: randomUUID() };
+
+  validateTerm(term, store);
+  store.glossary.push(term);
+  writeStore(store);
+
+  console.log(`[TM] Added glossary term "${term.term}"`);
+  return term;
+}
+
+export function updateGlossaryTerm(id: string, changes: Partial<Omit<GlossaryTerm, 'id'>>): GlossaryTerm {
+  const store = readStore();
+  const index = store.glossary.findIndex(term => term.id === id);
+  if (index === -1) {
+    throw new Error('Glossary term not found');
+  }
+
+  const term: GlossaryTerm = { ...store.glossary[index], ...definedFields(changes), id };
+  validateTerm(term, store);
+  store.glossary[index] = term;
+  writeStore(store);
+
+  console.log(`[TM] Updated glossary term "${term.term}"`);
+  return term;
+}
+
+export function deleteGlossaryTerm(id: string): void {
+  const store = readStore();
+  if (!store.glossary.some(term => term.id === id)) {
+    throw new Error('Glossary term not found');
+  }
+  store.glossary = store.glossary.filter(term => term.id !== id);
+  writeStore(store);
+
+  console.log(`[TM] Deleted glossary term ${id}`);
+}
+
+// ============================================
+// TMX / XLIFF exchange
+// ============================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/<[^>]+>/g, '')                    // Inline markup (<bpt>, <ph>, <g>) is dropped
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*"([^"]*)"`));
+  return match ? unescapeXml(match[1]) : undefined;
+}
+
+function getElements(xml: string, name: string): { tag: string; body: string }[] {
+  const pattern = new RegExp(`(<${name}(?:\\s[^>]*)?>)([\\s\\S]*?)</${name}>`, 'g');
+  return [...xml.matchAll(pattern)].map(match => ({ tag: match[1], body: match[2] }));
+}
+
+function languageFromCode(code: string | undefined): string | undefined {
+  return getLanguageByCode(code)?.name;
+}
+
+function languageCode(language: string): string {
+  return getLanguage(language)?.code || language;
+}
+
+function toTmx(entries: TranslationEntry[]): string {
+  const units = entries.map(entry => `    <tu tuid="${entry.id}" changedate="${entry.updatedAt.replace(/[-:]/g, '').replace(/\.\d+/, '')}">
+      <prop type="x-status">${entry.status}</prop>${entry.note ? `\n      <note>${escapeXml(entry.note)}</note>` : ''}
+      <tuv xml:lang="en"><seg>${escapeXml(entry.source)}</seg></tuv>
+      <tuv xml:lang="${languageCode(entry.language)}"><seg>${escapeXml(entry.target)}</seg></tuv>
+    </tu>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="ribotr" creationtoolversion="1.0" segtype="sentence" o-tmf="json" adminlang="en" srclang="en" datatype="plaintext"/>
+  <body>
+${units}
+  </body>
+</tmx>
+`;
+}
+
+// XLIFF 1.2 target states
+const XLIFF_STATES: Record<TranslationStatus, string> = {
+  draft: 'translated',
+  needs_review: 'needs-review-translation',
+  approved: 'final',
+};
+
+function toXliff(entries: TranslationEntry[]): string {
+  const files = TM_LANGUAGES
+    .map(language => ({ language, units: entries.filter(entry => entry.language === language) }))
+    .filter(({ units }) => units.length > 0)
+    .map(({ language, units }) => `  <file original="translation-memory" source-language="en" target-language="${languageCode(language)}" datatype="plaintext">
+    <body>
+${units.map(entry => `      <trans-unit id="${entry.id}"${entry.status === 'approved' ? ' approved="yes"' : ''}>
+        <source>${escapeXml(entry.source)}</source>
+        <target state="${XLIFF_STATES[entry.status]}">${escapeXml(entry.target)}</target>${entry.note ? `\n        <note>${escapeXml(entry.note)}</note>` : ''}
+      </trans-unit>`).join('\n')}
+    </body>
+  </file>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+${files}
+</xliff>
+`;
+}
+
+/**
+ * Export entries (optionally one language) as TMX or XLIFF
+ */
+export function exportEntries(format: ExchangeFormat, language?: string): string {
+  const entries = listEntries({ language });
+  return format === 'tmx' ? toTmx(entries) : toXliff(entries);
+}
+
+function parseTmx(xml: string): EntryInput[] {
+  return getElements(xml, 'tu').flatMap(({ body }) => {
+    const variants = getElements(body, 'tuv').map(({ tag, body: tuv }) => ({
+      language: languageFromCode(getAttribute(tag, 'xml:lang') || getAttribute(tag, 'lang')),
+      text: unescapeXml(getElements(tuv, 'seg')[0]?.body || '').trim(),
+    }));
+    const source = variants.find(variant => variant.language === 'English')?.text;
+    const status = getElements(body, 'prop').find(({ tag }) => getAttribute(tag, 'type') === 'x-status')?.body.trim();
+    const note = getElements(body, 'note')[0]?.body;
+
+    return variants
+      .filter(variant => variant.language && variant.language !== 'English' && source && variant.text)
+      .map(variant => ({
+        source: source!,
+        language: variant.language!,
+        target: variant.text,
+        status: TRANSLATION_STATUSES.find(known => known === status) || 'draft',
+        note: note ? unescapeXml(note).trim() : undefined,
+      }));
+  });
+}
+
+function parseXliff(xml: string): EntryInput[] {
+  return getElements(xml, 'file').flatMap(({ tag: fileTag, body: file }) => {
+    const language = languageFromCode(getAttribute(fileTag, 'target-language'));
+    if (!language) return [];
+
+    return getElements(file, 'trans-unit').flatMap(({ tag, body }) => {
+      const source = unescapeXml(getElements(body, 'source')[0]?.body || '').trim();
+      const targetElement = getElements(body, 'target')[0];
+      const target = unescapeXml(targetElement?.body || '').trim();
+      if (!source || !target) return [];
+
+      const state = getAttribute(targetElement.tag, 'state') || '';
+      const status: TranslationStatus = getAttribute(tag, 'approved') === 'yes' || ['final', 'signed-off'].includes(state)
+        ? 'approved'
+        : state.startsWith('needs-review') ? 'needs_review' : 'draft';
+      const note = getElements(body, 'note')[0]?.body;
+      return [{ source, language, target, status, note: note ? unescapeXml(note).trim() : undefined }];
+    });
+  });
+}
+
+/**
+ * Import a TMX or XLIFF file; units matching an existing source + language update that entry
+ * Approved units that break a glossary rule are imported as drafts
+ */
+export function importEntries(format: ExchangeFormat, content: string, updatedBy?: string): ImportSummary {
+  const units = format === 'tmx' ? parseTmx(content) : parseXliff(content);
+  const store = readStore();
+  const summary: ImportSummary = { added: 0, updated: 0, skipped: 0, issues: [] };
+  const now = new Date().toISOString();
+
+  for (const unit of units) {
+    if (!TM_LANGUAGES.includes(unit.language)) {
+      summary.skipped++;
+      continue;
+    }
+
+    let status = unit.status || 'draft';
+    const issues = findGlossaryIssues(unit.source, unit.target, unit.language, store.glossary);
+    if (status === 'approved' && issues.length > 0) {
+      status = 'draft';
+      summary.issues.push(`"${unit.source}" (${unit.language}) imported as draft: ${issues.join('; ')}`);
+    }
+
+    const existing = store.entries.find(entry =>
+      entry.language === unit.language && normalize(entry.source) === normalize(unit.source)
+    );
+    if (existing) {
+      if (existing.target === unit.target && existing.status === status) {
+        summary.skipped++;
+        continue;
+      }
+      Object.assign(existing, { target: unit.target, status, note: unit.note ?? existing.note, updatedBy, updatedAt: now });
+      summary.updated++;
+    } else {
+      store.entries.push({ id: randomUUID(), ...unit, status, updatedBy, createdAt: now, updatedAt: now });
+      summary.added++;
+    }
+  }
+
+  writeStore(store);
+  console.log(`[TM] Imported ${format.toUpperCase()}: ${summary.added} added, ${summary.updated} updated, ${summary.skipped} skipped`);
+  return summary;
+}
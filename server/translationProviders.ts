@@ -0,0 +1,50 @@
+/**
+ * Translation Provider Registry
+ * Pluggable machine translation for strings the translation memory does not have yet
+ * Results are stored in the memory as "needs review" and are not used in artwork until approved
+ *
+ * Select with TRANSLATION_PROVIDER=gemini or TRANSLATION_PROVIDER=mock (offline, deterministic)
+ * Defaults to IMAGE_PROVIDER, so an offline setup stays offline
+ */
+
+import { geminiTranslationProvider } from './geminiServer.js';
+import { mockTranslationProvider } from './mockTranslationProvider.js';
+
+// Locked glossary term and how it must appear in the target language
+export interface GlossaryHint {
+  term: string;
+  rendering: string;
+}
+
+export interface TranslationProvider {
+  name: string;
+  isConfigured(): boolean;
+  // Translate English texts into a language, one result per text in the same order
+  translate(texts: string[], language: string, glossary: GlossaryHint[]): Promise<string[]>;
+}
+
+const PROVIDERS: Record<string, TranslationProvider> = {
+  gemini: geminiTranslationProvider,
+  mock: mockTranslationProvider,
+};
+
+const DEFAULT_PROVIDER = 'gemini';
+
+/**
+ * Get the active provider (TRANSLATION_PROVIDER, then IMAGE_PROVIDER, falls back to gemini)
+ */
+export function getTranslationProvider(): TranslationProvider {
+  const name = (process.env.TRANSLATION_PROVIDER || process.env.IMAGE_PROVIDER || DEFAULT_PROVIDER).toLowerCase();
+  const provider = PROVIDERS[name];
+
+  if (!provider) {
+    console.warn(`Unknown TRANSLATION_PROVIDER "${name}", using ${DEFAULT_PROVIDER}`);
+    return PROVIDERS[DEFAULT_PROVIDER];
+  }
+
+  return provider;
+}
+
+export function listTranslationProviders(): string[] {
+  return Object.keys(PROVIDERS);
+}
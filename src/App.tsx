@@ -1,13 +1,31 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { ProductSelect } from './components/ProductSelect';
 import { ImageOutput } from './components/ImageOutput';
+import type { OutputVariant } from './components/ImageOutput';
 import { GenerateButton } from './components/GenerateButton';
-import { generateImage, isApiConfigured } from './services/nanoBananaService';
+import { GenerationHistory } from './components/GenerationHistory';
+import { ExtractionReview } from './components/ExtractionReview';
+import { DocumentImport } from './components/DocumentImport';
+import { ComponentManager } from './components/ComponentManager';
+import { ReadinessReport } from './components/ReadinessReport';
+import { CompliancePanel } from './components/CompliancePanel';
+import { generateImage, editImageRegion } from './services/nanoBananaService';
+import type { EditRegion } from './services/nanoBananaService';
+import { checkApiStatus } from './services/apiClient';
+import type { ApiStatus } from './services/apiClient';
 import { overlayLogos } from './services/logoOverlayService';
-import { extractAllContent, getExtractionSummary } from './services/contentExtractorService';
+import { extractAllContent, getExtractionSummary, needsTextExtraction } from './services/contentExtractorService';
+import type { ExtractionEvent } from './services/contentExtractorService';
+import { applyCachedExtractions, clearCachedExtractions } from './services/extractionCacheService';
+import { applyReviews } from './services/extractionReviewService';
 import type { ComponentData, Document, ComponentId } from './services/componentService';
-import { COMPONENT_METADATA } from './services/componentService';
+import { COMPONENT_METADATA, DEFAULT_SELECTED_COMPONENTS, getComponentsForProduct, loadComponentImages } from './services/componentService';
 import { buildPromptFromComponents, buildApiContent } from './utils/promptBuilder';
+import { saveGeneration, createGenerationId, updateGeneration } from './services/historyService';
+import type { GenerationRecord } from './services/historyService';
+import { getRevisionRefs } from './services/revisionService';
+import { buildTextLayerPrompt, typesetTextLayer } from './services/textLayerService';
+import type { TextLayerMode } from './services/textLayerService';
 
 // Default prompt template (editable version with ${variables})
 const DEFAULT_PROMPT = `You are generating a high-fidelity, print-ready pharmaceutical
@@ -289,13 +307,6 @@ OUTPUT
 • The result must look like a professionally designed pharmaceutical LBL,
   NOT a presentation slide or PPT`;
 
-// Default selected components per focus area
-const DEFAULT_SELECTED_COMPONENTS: Record<string, ComponentId[]> = {
-  'Efficacy': ['INIT_01a', 'INIT_01b', 'INIT_03', 'SOL_01', 'SOL_02', 'EVID_01', 'EVID_03', 'INS_04', 'REG_05'],
-  'Safety': ['INIT_01a', 'INIT_01b', 'SOL_02', 'SAFE_01', 'SAFE_02', 'SAFE_03', 'SAFE_04', 'SAFE_05', 'INS_04', 'REG_05'],
-  'Evidence': ['INIT_01a', 'INIT_01b', 'SOL_02', 'EVID_01', 'EVID_03', 'EVID_05', 'REG_02', 'INS_04', 'REG_05'],
-};
-
 // Default theme-specific prompts
 const DEFAULT_THEME_PROMPTS: Record<string, string> = {
   'Efficacy': `EFFICACY FOCUS - DESIGN DIRECTION:
@@ -331,11 +342,34 @@ function getDocumentDisplayName(doc: Document): string {
   return (doc.name || doc.title || doc.brand_name || `Document ${doc.id.substring(0, 8)}`) as string;
 }
 
+// Variant generation: repeat the active focus area, or rotate through all focus areas
+type VariantStrategy = 'same' | 'focusAreas';
+const MAX_VARIANTS = 4;
+
+// Components per multimodal call when batch extraction is enabled
+const EXTRACTION_BATCH_SIZE = 6;
+
+function planVariantFocusAreas(activeFocusArea: string, count: number, strategy: VariantStrategy): string[] {
+  if (strategy === 'same') {
+    return Array.from({ length: count }, () => activeFocusArea);
+  }
+  // Start with the active focus area, then the others in order
+  const areas = Object.keys(DEFAULT_THEME_PROMPTS);
+  const ordered = [activeFocusArea, ...areas.filter(a => a !== activeFocusArea)];
+  return Array.from({ length: count }, (_, i) => ordered[i % ordered.length]);
+}
+
 function App() {
   // Document/Component state (replaces file upload)
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
   const [components, setComponents] = useState<ComponentData[]>([]);
 
+  // Document import (segmentation of an uploaded deck)
+  const [showImport, setShowImport] = useState(false);
+  const [importedDocumentId, setImportedDocumentId] = useState<string | null>(null);
+  const [showManager, setShowManager] = useState(false);
+  const [showReadiness, setShowReadiness] = useState(false);
+
   // Generation settings
   const [focusArea, setFocusArea] = useState('Efficacy');
 
@@ -381,18 +415,46 @@ function App() {
   });
   const [showComponentSelection, setShowComponentSelection] = useState(false);
 
-  // Output state - single image
+  // Output state - chosen image (plus all variants when generating several)
   const [generatedImage, setGeneratedImage] = useState<{ image: string; mimeType: string } | null>(null);
+  const [variants, setVariants] = useState<OutputVariant[]>([]);
+  const [variantCount, setVariantCount] = useState(1);
+  const [variantStrategy, setVariantStrategy] = useState<VariantStrategy>('same');
   const [isLoading, setIsLoading] = useState(false);
-  const [_isExtracting, setIsExtracting] = useState(false); // Used for future UI enhancement
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [refreshingComponentId, setRefreshingComponentId] = useState<ComponentId | null>(null);
+
+  // Review step between extraction and prompt building
+  const [reviewBeforeGenerate, setReviewBeforeGenerate] = useState(() => {
+    const saved = localStorage.getItem('lblReviewExtraction');
+    return saved ? JSON.parse(saved) : true;
+  });
+  const [batchExtraction, setBatchExtraction] = useState(() => {
+    const saved = localStorage.getItem('lblBatchExtraction');
+    return saved ? JSON.parse(saved) : false;
+  });
+  const [textLayerMode, setTextLayerMode] = useState<TextLayerMode>(() =>
+    localStorage.getItem('lblTextLayerMode') === 'typeset' ? 'typeset' : 'model'
+  );
+  const [reviewComponents, setReviewComponents] = useState<ComponentData[] | null>(null);
+  const reviewResolverRef = useRef<((reviewed: ComponentData[] | null) => void) | null>(null);
   const [extractionProgress, setExtractionProgress] = useState<string | null>(null);
+  const [extractionItems, setExtractionItems] = useState<Record<string, ExtractionEvent>>({});
+  const extractionAbortRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [overlayStatus, setOverlayStatus] = useState<string | null>(null);
 
+  // Generation history state
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [activeGenerationId, setActiveGenerationId] = useState<string | null>(null);
+
   // Prompt preview state
   const [showPromptPreview, setShowPromptPreview] = useState(false);
   const [previewPrompt, setPreviewPrompt] = useState<string>('');
 
+  // API server status (Gemini key lives on the server)
+  const [apiStatus, setApiStatus] = useState<ApiStatus | null>(null);
+
   // UI state
   const [isDarkMode, setIsDarkMode] = useState(() => {
     const saved = localStorage.getItem('lblDarkMode');
@@ -421,14 +483,154 @@ function App() {
     localStorage.setItem('lblDarkMode', JSON.stringify(isDarkMode));
   }, [isDarkMode]);
 
+  useEffect(() => {
+    localStorage.setItem('lblReviewExtraction', JSON.stringify(reviewBeforeGenerate));
+  }, [reviewBeforeGenerate]);
+
+  useEffect(() => {
+    localStorage.setItem('lblBatchExtraction', JSON.stringify(batchExtraction));
+  }, [batchExtraction]);
+
+  useEffect(() => {
+    localStorage.setItem('lblTextLayerMode', textLayerMode);
+  }, [textLayerMode]);
+
+  // Check API server configuration on mount
+  useEffect(() => {
+    checkApiStatus().then(setApiStatus);
+  }, []);
+
   // Handle document selection from Supabase
   const handleDocumentSelect = useCallback((doc: Document, docComponents: ComponentData[]) => {
     setSelectedDocument(doc);
     setComponents(docComponents);
     setError(null);
     setGeneratedImage(null);
+    setVariants([]);
+    setActiveGenerationId(null);
+
+    // Restore previously extracted text (ignored if another document was selected meanwhile)
+    applyCachedExtractions(docComponents)
+      .then(applyReviews)
+      .then(cached => setComponents(prev => prev === docComponents ? cached : prev))
+      .catch(err => console.warn('Failed to load cached extractions:', err));
+  }, []);
+
+  // Select a freshly imported document (ProductSelect remounts to list it)
+  const handleImportComplete = useCallback(async (doc: Document | null) => {
+    setShowImport(false);
+    if (!doc) return;
+
+    setImportedDocumentId(doc.id);
+    try {
+      const docComponents = await loadComponentImages(await getComponentsForProduct(doc.id));
+      handleDocumentSelect(doc, docComponents);
+    } catch (err) {
+      console.error('Failed to load imported document:', err);
+      setError('Document saved, but its components could not be loaded');
+    }
+  }, [handleDocumentSelect]);
+
+  // Keep edits made in the component manager (already written to the repository)
+  const handleManagerClose = useCallback((updated: ComponentData[]) => {
+    setShowManager(false);
+    setComponents(updated);
   }, []);
 
+  // Show the review screen and wait for the reviewer (resolves null when cancelled)
+  const requestReview = useCallback((toReview: ComponentData[]) => {
+    return new Promise<ComponentData[] | null>(resolve => {
+      reviewResolverRef.current = resolve;
+      setReviewComponents(toReview);
+    });
+  }, []);
+
+  const handleReviewComplete = useCallback((reviewed: ComponentData[] | null) => {
+    reviewResolverRef.current?.(reviewed);
+    reviewResolverRef.current = null;
+    setReviewComponents(null);
+  }, []);
+
+  // Force re-extraction of one component, bypassing the extraction cache
+  const handleRefreshExtraction = useCallback(async (componentId: ComponentId) => {
+    if (!selectedDocument) return;
+
+    const targets = components
+      .filter(c => c.component_id === componentId)
+      .map(c => ({ ...c, content: null }));
+    if (targets.length === 0) return;
+
+    setRefreshingComponentId(componentId);
+    try {
+      await clearCachedExtractions(selectedDocument.id, componentId);
+      const refreshed = await extractAllContent(targets, undefined, { forceRefresh: [componentId] });
+      setComponents(prev => prev.map(c => refreshed.find(r => r.id === c.id) ?? c));
+    } catch (err) {
+      console.warn(`Failed to re-extract ${componentId}:`, err);
+    } finally {
+      setRefreshingComponentId(null);
+    }
+  }, [selectedDocument, components]);
+
+  // Reopen a past generation from history
+  const handleOpenGeneration = useCallback((record: GenerationRecord) => {
+    setGeneratedImage({ image: record.imageBase64, mimeType: record.mimeType });
+    setVariants([]);
+    setFocusArea(record.focusArea);
+    setActiveGenerationId(record.id);
+    setError(null);
+    setOverlayStatus(null);
+  }, []);
+
+  // Star a variant as the chosen output
+  const handleChooseVariant = useCallback((variantId: string) => {
+    const chosen = variants.find(v => v.id === variantId);
+    if (!chosen) return;
+
+    setGeneratedImage({ image: chosen.image, mimeType: chosen.mimeType });
+    setActiveGenerationId(chosen.id);
+
+    // Persist the star in history (one starred variant per group)
+    Promise.all(variants.map(v => updateGeneration(v.id, { starred: v.id === variantId })))
+      .then(() => setHistoryRefreshKey(k => k + 1))
+      .catch(err => console.warn('Failed to update starred variant:', err));
+  }, [variants]);
+
+  // Edit one region of the current output; errors are shown inside the editor
+  const handleEditRegion = useCallback(async (region: EditRegion, instruction: string) => {
+    if (!generatedImage || !selectedDocument) return;
+
+    const startedAt = new Date().toISOString();
+    const result = await editImageRegion(generatedImage.image, region, instruction);
+
+    const record: GenerationRecord = {
+      id: createGenerationId(),
+      documentId: selectedDocument.id,
+      documentName: getDocumentDisplayName(selectedDocument),
+      imageBase64: result.imageBase64,
+      mimeType: result.mimeType,
+      prompt: `=== REGION EDIT ===\n${instruction}`,
+      focusArea,
+      selectedComponentIds: Array.from(selectedComponents[focusArea] || []),
+      referenceImages: [],
+      editedFromId: activeGenerationId || undefined,
+      startedAt,
+      createdAt: new Date().toISOString(),
+    };
+
+    setGeneratedImage({ image: result.imageBase64, mimeType: result.mimeType });
+    setVariants([]);
+    setActiveGenerationId(record.id);
+    setOverlayStatus('Region edited - logos and the rest of the image were kept');
+
+    try {
+      await saveGeneration(record);
+      setHistoryRefreshKey(k => k + 1);
+    } catch (historyErr) {
+      console.warn('Failed to save edited generation:', historyErr);
+    }
+  }, [generatedImage, selectedDocument, focusArea, selectedComponents, activeGenerationId]);
+
   // Handle reference image upload (to active category)
   const handleReferenceUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>, category: ReferenceCategory) => {
     const files = e.target.files;
@@ -533,17 +735,23 @@ ${refSummary}`;
       return;
     }
 
-    if (!isApiConfigured()) {
-      setError('API key not configured. Please set VITE_GEMINI_API_KEY in your .env file.');
+    if (apiStatus && !apiStatus.configured) {
+      setError(apiStatus.reachable
+        ? 'API key not configured. Please set GEMINI_API_KEY for the API server.'
+        : 'API server is not reachable. Start it with: npm run server');
       return;
     }
 
     setIsLoading(true);
     setError(null);
     setGeneratedImage(null);
+    setVariants([]);
+    setActiveGenerationId(null);
     setOverlayStatus(null);
     setExtractionProgress(null);
 
+    const startedAt = new Date().toISOString();
+
     try {
       const companyName = (selectedDocument.company_name || 'pharma') as string;
       const brandName = (selectedDocument.brand_name || selectedDocument.name || 'product') as string;
@@ -558,106 +766,237 @@ ${refSummary}`;
       const needsExtraction = components.some(c => c.image_base64 && !c.content);
 
       if (needsExtraction) {
+        const controller = new AbortController();
+        extractionAbortRef.current = controller;
+        setExtractionItems({});
+
         enrichedComponents = await extractAllContent(
           components,
           (done, total, current) => {
             setExtractionProgress(`Extracting ${current}... (${done}/${total})`);
+          },
+          {
+            batchSize: batchExtraction ? EXTRACTION_BATCH_SIZE : 1,
+            signal: controller.signal,
+            onEvent: event => setExtractionItems(prev => ({ ...prev, [event.componentKey]: event })),
           }
         );
+        extractionAbortRef.current = null;
 
         // Log extraction summary
         const summary = getExtractionSummary(enrichedComponents);
         console.log('Content extraction complete:', summary);
+
+        // Keep extracted text in state so the component list shows it
+        setComponents(enrichedComponents);
+      }
+
+      // Let the reviewer correct or reject extracted text before it reaches the prompt
+      if (reviewBeforeGenerate && enrichedComponents.some(needsTextExtraction)) {
+        setExtractionProgress('Waiting for review of extracted text...');
+        const reviewed = await requestReview(enrichedComponents);
+        if (!reviewed) {
+          setOverlayStatus('Generation cancelled during review');
+          return;
+        }
+        enrichedComponents = reviewed;
+        setComponents(reviewed);
       }
 
       setIsExtracting(false);
       setExtractionProgress('Step 2: Building prompt...');
 
-      // STEP 2: Use custom prompt + theme prompt + extracted content
-      const extractedContent = buildPromptFromComponents(enrichedComponents, focusArea);
-      const themePrompt = themePrompts[focusArea] || DEFAULT_THEME_PROMPTS[focusArea];
-      const finalPrompt = `${customPrompt}
+      // STEP 2: Plan variants - one extraction pass is shared by all of them
+      const variantPlan = planVariantFocusAreas(focusArea, variantCount, variantStrategy);
+      const variantGroupId = variantPlan.length > 1 ? createGenerationId() : undefined;
 
-=== FOCUS AREA: ${focusArea.toUpperCase()} ===
+      // Combine all user-uploaded reference images (brand, company, campaign, design)
+      const allUserReferences: string[] = [
+        ...referenceImages.brand,
+        ...referenceImages.company,
+        ...referenceImages.campaign,
+        ...referenceImages.design,
+      ].map(img => img.base64);
+
+      const totalRefImages = getTotalRefImages();
+      setExtractionProgress(
+        `Step 3: Generating ${variantPlan.length > 1 ? `${variantPlan.length} variants` : 'LBL'} with AI${totalRefImages > 0 ? ` + ${totalRefImages} reference images` : ''}...`
+      );
+
+      // Generate a single variant: custom prompt + theme prompt + extracted content, then logo overlay
+      // In text layer mode the model gets zones instead of copy, and the copy is typeset afterwards
+      const isTypeset = textLayerMode === 'typeset';
+      const runVariant = async (area: string, index: number): Promise<OutputVariant & { logoOverlaid: boolean }> => {
+        const themePrompt = themePrompts[area] || DEFAULT_THEME_PROMPTS[area];
+        const variantNote = variantPlan.length > 1
+          ? `\n\n=== VARIANT ${index + 1} OF ${variantPlan.length} ===\nExplore a distinct layout and visual composition from the other variants.`
+          : '';
+        const contentPrompt = isTypeset
+          ? buildTextLayerPrompt(enrichedComponents)
+          : `=== PRODUCT DATA (from components) ===\n${buildPromptFromComponents(enrichedComponents, area)}`;
+        const finalPrompt = `${customPrompt}
+
+=== FOCUS AREA: ${area.toUpperCase()} ===
 
 ${themePrompt}
 
-=== PRODUCT DATA (from components) ===
-${extractedContent}`;
+${contentPrompt}${variantNote}`;
 
-      // Build labeled content with properly separated logos and design references
-      const labeledContent = buildApiContent(finalPrompt, enrichedComponents);
+        // Build labeled content with properly separated logos and design references
+        const labeledContent = buildApiContent(finalPrompt, enrichedComponents);
 
-      // Collect all categorized reference images
-      const totalRefImages = getTotalRefImages();
-      setExtractionProgress(`Step 3: Generating LBL with AI${totalRefImages > 0 ? ` + ${totalRefImages} reference images` : ''}...`);
+        const result = await generateImage({
+          prompt: finalPrompt,
+          company: companyName.toLowerCase(),
+          brand: brandName.toLowerCase(),
+          labeledContent,
+          referenceImages: allUserReferences.length > 0 ? allUserReferences : undefined,
+          includeDesignReferences: allUserReferences.length === 0, // Only use local if no user uploads
+          aspectRatio: '16:9',
+          textFree: isTypeset,
+        });
 
-      // STEP 3: Combine all user-uploaded reference images with labels
-      const allUserReferences: string[] = [];
+        let finalImage = result.imageBase64;
+        let mimeType = result.mimeType;
+        if (isTypeset) {
+          finalImage = (await typesetTextLayer(finalImage, enrichedComponents)).imageBase64;
+          mimeType = 'image/png';
+        }
+
+        // Apply logo overlay (brand=left, company=right)
+        let logoOverlaid = true;
+        try {
+          finalImage = await overlayLogos(finalImage, components, {
+            companyLogoPosition: 'top-right',
+            brandLogoPosition: 'top-left',
+            logoMaxWidthPercent: 12,
+            logoMaxHeightPercent: 15,
+            padding: 25,
+          });
+        } catch (logoErr) {
+          console.warn('Logo overlay failed:', logoErr);
+          logoOverlaid = false;
+        }
+
+        return {
+          id: createGenerationId(),
+          image: finalImage,
+          mimeType,
+          focusArea: area,
+          prompt: finalPrompt,
+          logoOverlaid,
+        };
+      };
 
-      // Add brand references
-      if (referenceImages.brand.length > 0) {
-        referenceImages.brand.forEach(img => allUserReferences.push(img.base64));
-      }
-      // Add company references
-      if (referenceImages.company.length > 0) {
-        referenceImages.company.forEach(img => allUserReferences.push(img.base64));
-      }
-      // Add campaign references
-      if (referenceImages.campaign.length > 0) {
-        referenceImages.campaign.forEach(img => allUserReferences.push(img.base64));
-      }
-      // Add design references
-      if (referenceImages.design.length > 0) {
-        referenceImages.design.forEach(img => allUserReferences.push(img.base64));
+      const settled = await Promise.allSettled(variantPlan.map((area, i) => runVariant(area, i)));
+      const succeeded = settled
+        .filter((r): r is PromiseFulfilledResult<OutputVariant & { logoOverlaid: boolean }> => r.status === 'fulfilled')
+        .map(r => r.value);
+
+      if (succeeded.length === 0) {
+        throw (settled[0] as PromiseRejectedResult).reason;
       }
 
-      const result = await generateImage({
-        prompt: finalPrompt,
-        company: companyName.toLowerCase(),
-        brand: brandName.toLowerCase(),
-        labeledContent,
-        referenceImages: allUserReferences.length > 0 ? allUserReferences : undefined,
-        includeDesignReferences: allUserReferences.length === 0, // Only use local if no user uploads
-        aspectRatio: '16:9',
-      });
+      const failedCount = settled.length - succeeded.length;
+      const logoSkipped = succeeded.some(v => !v.logoOverlaid);
+      setOverlayStatus(
+        variantPlan.length > 1
+          ? `${succeeded.length}/${variantPlan.length} variants generated successfully${failedCount > 0 ? ` (${failedCount} failed)` : ''}${logoSkipped ? ' · logo overlay skipped on some' : ''} · star one to choose it`
+          : logoSkipped ? 'Generated (logo overlay skipped)' : 'LBL generated successfully!'
+      );
 
-      let finalImage = result.imageBase64;
+      const variantsOut: OutputVariant[] = succeeded.map(({ id, image, mimeType, focusArea, prompt }) => ({ id, image, mimeType, focusArea, prompt }));
+      setVariants(variantsOut.length > 1 ? variantsOut : []);
+      setGeneratedImage({
+        image: variantsOut[0].image,
+        mimeType: variantsOut[0].mimeType,
+      });
 
-      // Apply logo overlay (brand=left, company=right)
-      setOverlayStatus('Overlaying logos...');
+      // Record each run in generation history
+      const referenceSummary = (Object.entries(referenceImages) as [ReferenceCategory, { name: string }[]][])
+        .flatMap(([category, images]) => images.map(img => ({ category, name: img.name })));
       try {
-        finalImage = await overlayLogos(finalImage, components, {
-          companyLogoPosition: 'top-right',
-          brandLogoPosition: 'top-left',
-          logoMaxWidthPercent: 12,
-          logoMaxHeightPercent: 15,
-          padding: 25,
+        const revisionRefs = await getRevisionRefs(enrichedComponents).catch(revisionErr => {
+          console.warn('Failed to resolve component revisions:', revisionErr);
+          return [];
         });
-        setOverlayStatus('LBL generated successfully!');
-      } catch (logoErr) {
-        console.warn('Logo overlay failed:', logoErr);
-        setOverlayStatus('Generated (logo overlay skipped)');
+        for (const variant of variantsOut) {
+          const selectedIds = selectedComponents[variant.focusArea] || new Set<ComponentId>();
+          const record: GenerationRecord = {
+            id: variant.id,
+            documentId: selectedDocument.id,
+            documentName: getDocumentDisplayName(selectedDocument),
+            imageBase64: variant.image,
+            mimeType: variant.mimeType,
+            prompt: variant.prompt,
+            focusArea: variant.focusArea,
+            selectedComponentIds: Array.from(selectedIds),
+            referenceImages: referenceSummary,
+            variantGroupId,
+            componentRevisions: revisionRefs.filter(ref => selectedIds.has(ref.componentId)),
+            startedAt,
+            createdAt: new Date().toISOString(),
+          };
+          await saveGeneration(record);
+        }
+        setActiveGenerationId(variantsOut[0].id);
+        setHistoryRefreshKey(k => k + 1);
+      } catch (historyErr) {
+        console.warn('Failed to save generation history:', historyErr);
       }
-
-      setGeneratedImage({
-        image: finalImage,
-        mimeType: result.mimeType,
-      });
     } catch (err) {
-      console.error('Error generating image:', err);
-      setError(err instanceof Error ? err.message : 'Failed to generate image. Please try again.');
+      if (extractionAbortRef.current?.signal.aborted) {
+        setOverlayStatus('Generation cancelled during extraction');
+      } else {
+        console.error('Error generating image:', err);
+        setError(err instanceof Error ? err.message : 'Failed to generate image. Please try again.');
+      }
     } finally {
+      extractionAbortRef.current = null;
       setIsLoading(false);
       setIsExtracting(false);
       setExtractionProgress(null);
+      setExtractionItems({});
     }
-  }, [selectedDocument, components, focusArea, customPrompt, referenceImages, themePrompts]);
+  }, [selectedDocument, components, focusArea, customPrompt, referenceImages, themePrompts, apiStatus, selectedComponents, variantCount, variantStrategy, reviewBeforeGenerate, requestReview, batchExtraction, textLayerMode, getTotalRefImages]);
 
   const canGenerate = selectedDocument && components.length > 0 && !isLoading;
 
   return (
     <div className={`min-h-screen transition-colors duration-300 ${isDarkMode ? 'bg-slate-900' : 'bg-slate-50'}`}>
+      {showImport && (
+        <DocumentImport
+          onComplete={handleImportComplete}
+          isDarkMode={isDarkMode}
+        />
+      )}
+
+      {showManager && selectedDocument && (
+        <ComponentManager
+          document={selectedDocument}
+          components={components}
+          onClose={handleManagerClose}
+          isDarkMode={isDarkMode}
+        />
+      )}
+
+      {showReadiness && selectedDocument && (
+        <ReadinessReport
+          document={selectedDocument}
+          components={components}
+          onClose={() => setShowReadiness(false)}
+          isDarkMode={isDarkMode}
+        />
+      )}
+
+      {reviewComponents && (
+        <ExtractionReview
+          components={reviewComponents}
+          onComplete={handleReviewComplete}
+          isDarkMode={isDarkMode}
+        />
+      )}
+
       {/* Header */}
       <header className={`sticky top-0 z-10 border-b transition-colors duration-300 ${
         isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
@@ -704,7 +1043,7 @@ ${extractedContent}`;
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* API Warning */}
-        {!isApiConfigured() && (
+        {apiStatus && !apiStatus.configured && (
           <div className={`mb-6 p-4 rounded-lg border transition-colors duration-300 ${
             isDarkMode
               ? 'bg-amber-900/20 border-amber-800'
@@ -717,7 +1056,8 @@ ${extractedContent}`;
               <div>
                 <p className={`text-sm font-medium ${isDarkMode ? 'text-amber-300' : 'text-amber-800'}`}>Configuration Required</p>
                 <p className={`text-sm mt-1 ${isDarkMode ? 'text-amber-400' : 'text-amber-700'}`}>
-                  Add <code className={`px-1.5 py-0.5 rounded text-xs font-mono ${isDarkMode ? 'bg-amber-900/50' : 'bg-amber-100'}`}>VITE_GEMINI_API_KEY</code>,{' '}
+                  {!apiStatus.reachable && <>Start the API server with <code className={`px-1.5 py-0.5 rounded text-xs font-mono ${isDarkMode ? 'bg-amber-900/50' : 'bg-amber-100'}`}>npm run server</code>. </>}
+                  Add <code className={`px-1.5 py-0.5 rounded text-xs font-mono ${isDarkMode ? 'bg-amber-900/50' : 'bg-amber-100'}`}>GEMINI_API_KEY</code> (server),{' '}
                   <code className={`px-1.5 py-0.5 rounded text-xs font-mono ${isDarkMode ? 'bg-amber-900/50' : 'bg-amber-100'}`}>VITE_SUPABASE_URL</code>, and{' '}
                   <code className={`px-1.5 py-0.5 rounded text-xs font-mono ${isDarkMode ? 'bg-amber-900/50' : 'bg-amber-100'}`}>VITE_SUPABASE_ANON_KEY</code> to .env
                 </p>
@@ -733,18 +1073,55 @@ ${extractedContent}`;
             <div className={`rounded-xl border shadow-sm overflow-hidden transition-colors duration-300 ${
               isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
             }`}>
-              <div className={`px-6 py-4 border-b transition-colors duration-300 ${
+              <div className={`px-6 py-4 border-b flex items-center justify-between transition-colors duration-300 ${
                 isDarkMode ? 'border-slate-700 bg-slate-800/50' : 'border-slate-100 bg-slate-50'
               }`}>
-                <h2 className={`text-sm font-semibold ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>
-                  Select Product
-                </h2>
-                <p className={`text-xs mt-0.5 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
-                  Load components from repository
-                </p>
+                <div>
+                  <h2 className={`text-sm font-semibold ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>
+                    Select Product
+                  </h2>
+                  <p className={`text-xs mt-0.5 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                    Load components from repository
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {selectedDocument && (
+                    <button
+                      onClick={() => setShowReadiness(true)}
+                      disabled={isLoading}
+                      className={`px-3 py-1.5 text-xs font-medium rounded-lg transition-colors disabled:opacity-50 ${
+                        isDarkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-100'
+                      }`}
+                    >
+                      Readiness
+                    </button>
+                  )}
+                  {selectedDocument && (
+                    <button
+                      onClick={() => setShowManager(true)}
+                      disabled={isLoading}
+                      className={`px-3 py-1.5 text-xs font-medium rounded-lg transition-colors disabled:opacity-50 ${
+                        isDarkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-100'
+                      }`}
+                    >
+                      Manage
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setShowImport(true)}
+                    disabled={isLoading}
+                    className={`px-3 py-1.5 text-xs font-medium rounded-lg transition-colors disabled:opacity-50 ${
+                      isDarkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-100'
+                    }`}
+                  >
+                    Import PDF
+                  </button>
+                </div>
               </div>
               <div className="p-6">
                 <ProductSelect
+                  key={importedDocumentId || 'repository'}
+                  initialDocumentId={importedDocumentId || undefined}
                   onProductSelect={handleDocumentSelect}
                   isDarkMode={isDarkMode}
                 />
@@ -809,6 +1186,81 @@ ${extractedContent}`;
                     No document selected. Please select a product above.
                   </p>
                 )}
+
+                {/* Review step */}
+                <label className={`mt-4 flex items-center gap-2 text-xs font-medium ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                  <input
+                    type="checkbox"
+                    checked={reviewBeforeGenerate}
+                    onChange={() => setReviewBeforeGenerate(!reviewBeforeGenerate)}
+                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Review extracted text before generating
+                </label>
+                <label className={`mt-2 flex items-center gap-2 text-xs font-medium ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                  <input
+                    type="checkbox"
+                    checked={batchExtraction}
+                    onChange={() => setBatchExtraction(!batchExtraction)}
+                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Batch extraction ({EXTRACTION_BATCH_SIZE} components per call)
+                </label>
+                <label className={`mt-2 flex items-center gap-2 text-xs font-medium ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                  <input
+                    type="checkbox"
+                    checked={textLayerMode === 'typeset'}
+                    onChange={() => setTextLayerMode(textLayerMode === 'typeset' ? 'model' : 'typeset')}
+                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Typeset all text (AI draws visuals only)
+                </label>
+
+                {/* Variants */}
+                <div className="mt-4">
+                  <label className={`block text-xs font-medium mb-2 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                    Variants per run
+                  </label>
+                  <div className="flex gap-2">
+                    {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+                      <button
+                        key={count}
+                        onClick={() => setVariantCount(count)}
+                        className={`w-9 h-9 text-sm font-medium rounded-lg transition-colors ${
+                          variantCount === count
+                            ? 'bg-indigo-600 text-white'
+                            : isDarkMode
+                              ? 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                              : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                        }`}
+                      >
+                        {count}
+                      </button>
+                    ))}
+                  </div>
+                  {variantCount > 1 && (
+                    <div className="flex gap-2 mt-2">
+                      {([
+                        ['same', `Same focus (${focusArea})`],
+                        ['focusAreas', 'Across focus areas'],
+                      ] as const).map(([strategy, label]) => (
+                        <button
+                          key={strategy}
+                          onClick={() => setVariantStrategy(strategy)}
+                          className={`px-3 py-1.5 text-xs font-medium rounded-lg transition-colors ${
+                            variantStrategy === strategy
+                              ? isDarkMode ? 'bg-indigo-900/50 text-indigo-300' : 'bg-indigo-100 text-indigo-700'
+                              : isDarkMode
+                                ? 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+                                : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
               </div>
             </div>
 
@@ -1103,6 +1555,21 @@ ${extractedContent}`;
                                               {meta.criticality}
                                             </span>
                                           </div>
+                                          {compData?.image_base64 && meta.type !== 'Image' && (
+                                            <button
+                                              onClick={(e) => {
+                                                e.preventDefault();
+                                                handleRefreshExtraction(compId);
+                                              }}
+                                              disabled={!!refreshingComponentId || isLoading}
+                                              className={`float-right ml-2 text-xs transition-colors disabled:opacity-50 ${
+                                                isDarkMode ? 'text-slate-400 hover:text-indigo-300' : 'text-slate-400 hover:text-indigo-600'
+                                              }`}
+                                              title="Re-extract text from the image (ignores cached result)"
+                                            >
+                                              {refreshingComponentId === compId ? 'Extracting...' : '↻ Re-extract'}
+                                            </button>
+                                          )}
                                           {extractedValue ? (
                                             <p className={`text-xs mt-0.5 truncate ${
                                               isDarkMode ? 'text-indigo-300' : 'text-indigo-600'
@@ -1438,7 +1905,42 @@ ${extractedContent}`;
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
                       </svg>
                       {extractionProgress}
+                      {isExtracting && (
+                        <button
+                          onClick={() => extractionAbortRef.current?.abort()}
+                          className={`ml-auto px-2 py-0.5 text-xs font-medium rounded transition-colors ${
+                            isDarkMode ? 'bg-blue-800/60 hover:bg-blue-800' : 'bg-blue-100 hover:bg-blue-200'
+                          }`}
+                        >
+                          Cancel
+                        </button>
+                      )}
                     </div>
+                    {Object.keys(extractionItems).length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {Object.entries(extractionItems).map(([key, item]) => (
+                          <span
+                            key={key}
+                            title={item.status === 'retrying'
+                              ? `Retrying in ${Math.round((item.delayMs || 0) / 1000)}s: ${item.error}`
+                              : item.error || item.status}
+                            className={`px-1.5 py-0.5 text-[10px] font-mono rounded ${
+                              item.status === 'done' || item.status === 'cached'
+                                ? isDarkMode ? 'bg-green-900/50 text-green-300' : 'bg-green-100 text-green-700'
+                                : item.status === 'running'
+                                  ? isDarkMode ? 'bg-blue-800 text-blue-200' : 'bg-blue-200 text-blue-800'
+                                  : item.status === 'retrying'
+                                    ? isDarkMode ? 'bg-amber-900/50 text-amber-300' : 'bg-amber-100 text-amber-700'
+                                    : item.status === 'failed'
+                                      ? isDarkMode ? 'bg-red-900/50 text-red-300' : 'bg-red-100 text-red-700'
+                                      : isDarkMode ? 'bg-slate-700 text-slate-400' : 'bg-white text-slate-500'
+                            }`}
+                          >
+                            {item.componentId}{item.status === 'retrying' ? ` ↻${item.attempt}` : ''}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 )}
 
@@ -1459,6 +1961,49 @@ ${extractedContent}`;
                   isLoading={isLoading}
                   error={error}
                   isDarkMode={isDarkMode}
+                  variants={variants}
+                  chosenVariantId={activeGenerationId}
+                  onChooseVariant={handleChooseVariant}
+                  onEditRegion={selectedDocument ? handleEditRegion : undefined}
+                />
+
+                {generatedImage && selectedDocument && !isLoading && (
+                  <div className="mt-4">
+                    <CompliancePanel
+                      key={activeGenerationId || generatedImage.image.slice(-32)}
+                      imageData={generatedImage.image}
+                      mimeType={generatedImage.mimeType}
+                      components={components}
+                      sourceNames={[selectedDocument.name, selectedDocument.brand_name, selectedDocument.company_name]
+                        .filter((name): name is string => typeof name === 'string')}
+                      isDarkMode={isDarkMode}
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Generation History */}
+            <div className={`rounded-xl border shadow-sm overflow-hidden transition-colors duration-300 ${
+              isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
+            }`}>
+              <div className={`px-6 py-4 border-b transition-colors duration-300 ${
+                isDarkMode ? 'border-slate-700 bg-slate-800/50' : 'border-slate-100 bg-slate-50'
+              }`}>
+                <h2 className={`text-sm font-semibold ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>
+                  Generation History
+                </h2>
+                <p className={`text-xs mt-0.5 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                  Past LBL runs for this document · click to reopen
+                </p>
+              </div>
+              <div className="p-6">
+                <GenerationHistory
+                  documentId={selectedDocument?.id || null}
+                  refreshKey={historyRefreshKey}
+                  activeId={activeGenerationId}
+                  onOpen={handleOpenGeneration}
+                  isDarkMode={isDarkMode}
                 />
               </div>
             </div>
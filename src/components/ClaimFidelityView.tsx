@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { BBOX_SCALE } from '../services/segmentationService';
+import type { BBox } from '../services/segmentationService';
+import type { ClaimFidelityReport, ClaimStatus } from '../services/claimFidelityService';
+
+interface ClaimFidelityViewProps {
+  report: ClaimFidelityReport;
+  imageData: string;
+  mimeType: string;
+  isDarkMode?: boolean;
+}
+
+const STATUS_LABELS: Record<ClaimStatus, string> = {
+  matched: 'Matched',
+  altered: 'Altered',
+  dropped: 'Dropped',
+  hallucinated: 'Not in sources',
+};
+
+const BOX_CLASSES: Record<ClaimStatus, string> = {
+  matched: 'border-green-500 bg-green-500/10',
+  altered: 'border-amber-400 bg-amber-400/20',
+  dropped: '',
+  hallucinated: 'border-red-500 bg-red-500/20',
+};
+
+function boxStyle([ymin, xmin, ymax, xmax]: BBox) {
+  return {
+    top: `${(ymin / BBOX_SCALE) * 100}%`,
+    left: `${(xmin / BBOX_SCALE) * 100}%`,
+    height: `${((ymax - ymin) / BBOX_SCALE) * 100}%`,
+    width: `${((xmax - xmin) / BBOX_SCALE) * 100}%`,
+  };
+}
+
+export function ClaimFidelityView({ report, imageData, mimeType, isDarkMode = false }: ClaimFidelityViewProps) {
+  const [showMatched, setShowMatched] = useState(false);
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+
+  const visible = report.findings
+    .map((finding, index) => ({ finding, index }))
+    .filter(({ finding }) => showMatched || finding.status !== 'matched');
+
+  const statusClassName = (status: ClaimStatus) => {
+    if (status === 'matched') return isDarkMode ? 'text-green-300' : 'text-green-600';
+    if (status === 'altered') return isDarkMode ? 'text-amber-300' : 'text-amber-600';
+    return isDarkMode ? 'text-red-300' : 'text-red-600';
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className={`flex items-center gap-3 text-xs ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+        {(Object.keys(STATUS_LABELS) as ClaimStatus[]).map(status => (
+          <span key={status} className={statusClassName(status)}>
+            {report.counts[status]} {STATUS_LABELS[status].toLowerCase()}
+          </span>
+        ))}
+        <label className="ml-auto flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={showMatched} onChange={(e) => setShowMatched(e.target.checked)} />
+          Show matched
+        </label>
+      </div>
+
+      <div className={`relative rounded-lg overflow-hidden border ${isDarkMode ? 'border-slate-600' : 'border-slate-200'}`}>
+        <img src={`data:${mimeType};base64,${imageData}`} alt="Claim check" className="w-full h-auto" />
+        {visible.map(({ finding, index }) => finding.bbox && (
+          <div
+            key={index}
+            className={`absolute border-2 ${BOX_CLASSES[finding.status]} ${hoveredIndex === index ? 'ring-2 ring-white' : ''}`}
+            style={boxStyle(finding.bbox)}
+            title={finding.output?.text}
+          />
+        ))}
+      </div>
+
+      {visible.length === 0 ? (
+        <p className={`text-xs ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+          {report.findings.length === 0 ? 'No numbers found in the claim components' : 'All claim numbers match the sources'}
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {visible.map(({ finding, index }) => (
+            <div
+              key={index}
+              onMouseEnter={() => setHoveredIndex(index)}
+              onMouseLeave={() => setHoveredIndex(null)}
+              className={`flex items-center gap-2 px-2 py-1 rounded text-xs ${isDarkMode ? 'hover:bg-slate-700' : 'hover:bg-white'}`}
+            >
+              <span className={`w-24 font-medium ${statusClassName(finding.status)}`}>{STATUS_LABELS[finding.status]}</span>
+              <span className={`w-16 font-mono ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>{finding.componentId || '—'}</span>
+              <span className={`font-mono ${isDarkMode ? 'text-slate-200' : 'text-slate-800'}`}>
+                {finding.source?.text || '—'} → {finding.output?.text || '—'}
+              </span>
+              <span className={`flex-1 truncate ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+                {(finding.output || finding.source)?.context}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import type { ComponentData } from '../services/componentService';
+import { runComplianceCheck } from '../services/complianceService';
+import type { ComplianceReport } from '../services/complianceService';
+import { checkClaimFidelity } from '../services/claimFidelityService';
+import { BBOX_SCALE } from '../services/segmentationService';
+import type { BBox } from '../services/segmentationService';
+import type { ClaimFidelityReport } from '../services/claimFidelityService';
+import { ClaimFidelityView } from './ClaimFidelityView';
+
+interface CompliancePanelProps {
+  imageData: string;
+  mimeType: string;
+  components: ComponentData[];
+  sourceNames: string[];       // Document, brand and company names allowed on the LBL
+  isDarkMode?: boolean;
+}
+
+function boxStyle([ymin, xmin, ymax, xmax]: BBox) {
+  return {
+    top: `${(ymin / BBOX_SCALE) * 100}%`,
+    left: `${(xmin / BBOX_SCALE) * 100}%`,
+    height: `${((ymax - ymin) / BBOX_SCALE) * 100}%`,
+    width: `${((xmax - xmin) / BBOX_SCALE) * 100}%`,
+  };
+}
+
+export function CompliancePanel({ imageData, mimeType, components, sourceNames, isDarkMode = false }: CompliancePanelProps) {
+  const [report, setReport] = useState<ComplianceReport | null>(null);
+  const [claims, setClaims] = useState<ClaimFidelityReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hoveredCheckId, setHoveredCheckId] = useState<string | null>(null);
+
+  const flaggedChecks = report?.checks.filter(check => !check.passed && check.blocks.length > 0) ?? [];
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    setError(null);
+    try {
+      // One OCR pass feeds both the regulatory checks and the claim diff
+      const result = await runComplianceCheck(imageData, mimeType, components, sourceNames);
+      setReport(result);
+      setClaims(checkClaimFidelity(components, result.ocr));
+    } catch (err) {
+      console.error('Compliance check failed:', err);
+      setError(err instanceof Error ? err.message : 'Compliance check failed');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className={`p-4 rounded-lg border ${isDarkMode ? 'bg-slate-700/50 border-slate-600' : 'bg-slate-50 border-slate-200'}`}>
+      <div className="flex items-center gap-3">
+        <h4 className={`flex-1 text-sm font-semibold ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>
+          Compliance & Claim Check
+        </h4>
+        {report && claims && (
+          <span className={`px-2 py-0.5 rounded text-xs font-semibold ${
+            report.passed && claims.passed
+              ? isDarkMode ? 'bg-green-900/50 text-green-300' : 'bg-green-100 text-green-700'
+              : isDarkMode ? 'bg-red-900/50 text-red-300' : 'bg-red-100 text-red-700'
+          }`}>
+            {report.passed && claims.passed ? 'PASS' : 'FAIL'}
+          </span>
+        )}
+        <button
+          onClick={handleCheck}
+          disabled={isChecking}
+          className={`px-3 py-1.5 text-xs font-medium rounded-lg transition-colors disabled:opacity-50 ${
+            isDarkMode ? 'bg-indigo-900/50 text-indigo-300 hover:bg-indigo-900' : 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100'
+          }`}
+        >
+          {isChecking ? 'Reading output...' : report ? 'Check Again' : 'Check Compliance'}
+        </button>
+      </div>
+
+      {error && (
+        <p className={`mt-2 text-xs ${isDarkMode ? 'text-red-300' : 'text-red-600'}`}>{error}</p>
+      )}
+
+      {report && (
+        <div className="mt-3 space-y-2">
+          {flaggedChecks.length > 0 && (
+            <div className={`relative rounded-lg overflow-hidden border ${isDarkMode ? 'border-slate-600' : 'border-slate-200'}`}>
+              <img src={`data:${mimeType};base64,${imageData}`} alt="Compliance check" className="w-full h-auto" />
+              {flaggedChecks.flatMap(check => check.blocks.map((block, i) => (
+                <div
+                  key={`${check.id}-${i}`}
+                  className={`absolute border-2 border-red-500 bg-red-500/20 ${hoveredCheckId === check.id ? 'ring-2 ring-white' : ''}`}
+                  style={boxStyle(block.bbox)}
+                  title={`${check.label}: ${block.text}`}
+                />
+              )))}
+            </div>
+          )}
+          {report.checks.map(check => (
+            <div
+              key={check.id}
+              onMouseEnter={() => setHoveredCheckId(check.id)}
+              onMouseLeave={() => setHoveredCheckId(null)}
+              className="text-xs"
+            >
+              <div className="flex items-center gap-2">
+                <span className={check.passed
+                  ? isDarkMode ? 'text-green-300' : 'text-green-600'
+                  : isDarkMode ? 'text-red-300' : 'text-red-600'
+                }>
+                  {check.passed ? '✓' : '✕'}
+                </span>
+                <span className={isDarkMode ? 'text-slate-200' : 'text-slate-800'}>{check.label}</span>
+              </div>
+              {check.issues.length > 0 && (
+                <ul className={`mt-1 ml-5 space-y-0.5 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                  {check.issues.slice(0, 8).map((issue, i) => <li key={i}>{issue}</li>)}
+                  {check.issues.length > 8 && <li>…and {check.issues.length - 8} more</li>}
+                </ul>
+              )}
+            </div>
+          ))}
+          {claims && (
+            <div className="pt-2 space-y-2">
+              <div className="flex items-center gap-2 text-xs">
+                <span className={claims.passed
+                  ? isDarkMode ? 'text-green-300' : 'text-green-600'
+                  : isDarkMode ? 'text-red-300' : 'text-red-600'
+                }>
+                  {claims.passed ? '✓' : '✕'}
+                </span>
+                <span className={isDarkMode ? 'text-slate-200' : 'text-slate-800'}>
+                  Claim numbers match SOL_01, EVID_01 and SAFE_01
+                </span>
+              </div>
+              <ClaimFidelityView report={claims} imageData={imageData} mimeType={mimeType} isDarkMode={isDarkMode} />
+            </div>
+          )}
+          <details className={`text-xs ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+            <summary className="cursor-pointer">OCR text ({report.ocr.blocks.length} blocks)</summary>
+            <pre className="mt-1 whitespace-pre-wrap font-sans">{report.ocr.text || 'No text found'}</pre>
+          </details>
+        </div>
+      )}
+    </div>
+  );
+}
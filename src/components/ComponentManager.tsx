@@ -0,0 +1,407 @@
+import { useState, useEffect } from 'react';
+import type { ComponentChanges, ComponentData, ComponentId, ComponentSection, Document } from '../services/componentService';
+import {
+  COMPONENT_IDS,
+  COMPONENT_METADATA,
+  addComponent,
+  updateComponent,
+  deleteComponent,
+  rollbackComponent,
+} from '../services/componentService';
+import type { ComponentRevision } from '../services/revisionService';
+import { RevisionHistory } from './RevisionHistory';
+import { imageFileToPngBase64 } from '../utils/pdfUtils';
+
+interface ComponentManagerProps {
+  document: Document;
+  components: ComponentData[];
+  onClose: (components: ComponentData[]) => void;
+  isDarkMode?: boolean;
+}
+
+type SlotFilter = 'all' | 'missing' | 'filled';
+
+const SECTION_ORDER: ComponentSection[] = ['INIT', 'INS', 'SOL', 'EVID', 'SAFE', 'SERV', 'COMM', 'REG'];
+
+// Derived from the storage path, not editable
+const FILE_METADATA_KEYS = ['page', 'filename', 'rowId'];
+
+function getEditableMetadata(component: ComponentData): string {
+  const metadata = Object.fromEntries(
+    Object.entries(component.metadata || {}).filter(([key]) => !FILE_METADATA_KEYS.includes(key))
+  );
+  return Object.keys(metadata).length > 0 ? JSON.stringify(metadata, null, 2) : '';
+}
+
+function getImageSrc(component: ComponentData): string | null {
+  if (component.image_base64) return `data:image/png;base64,${component.image_base64}`;
+  return component.image_path;
+}
+
+/**
+ * Pick a single image file (resolves null when the dialog is dismissed)
+ */
+function pickImageFile(): Promise<File | null> {
+  return new Promise(resolve => {
+    const input = window.document.createElement('input');
+    input.type = 'file';
+    input.accept = '.png,.jpg,.jpeg,.webp';
+    input.onchange = () => resolve(input.files?.[0] || null);
+    input.click();
+  });
+}
+
+interface ComponentEditorProps {
+  component: ComponentData;
+  isBusy: boolean;
+  canChange: boolean;          // Author is set
+  onSave: (changes: ComponentChanges, reason: string) => void;
+  onReplaceImage: (reason: string) => void;
+  onRemoveImage: (reason: string) => void;
+  onDelete: (reason: string) => void;
+  onRollback: (revision: ComponentRevision) => void;
+  isDarkMode: boolean;
+}
+
+function ComponentEditor({
+  component,
+  isBusy,
+  canChange,
+  onSave,
+  onReplaceImage,
+  onRemoveImage,
+  onDelete,
+  onRollback,
+  isDarkMode,
+}: ComponentEditorProps) {
+  const [content, setContent] = useState(component.content || '');
+  const [metadataText, setMetadataText] = useState(() => getEditableMetadata(component));
+  const [metadataError, setMetadataError] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Every change is recorded as a revision with author and reason
+  const isLocked = isBusy || !canChange || !reason.trim();
+
+  const isDirty = content !== (component.content || '') || metadataText !== getEditableMetadata(component);
+  const imageSrc = getImageSrc(component);
+
+  const handleSave = () => {
+    let metadata: Record<string, unknown> = {};
+    if (metadataText.trim()) {
+      try {
+        const parsed = JSON.parse(metadataText);
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error();
+        metadata = parsed;
+      } catch {
+        setMetadataError('Metadata must be a JSON object');
+        return;
+      }
+    }
+    setMetadataError(null);
+    onSave({ content: content.trim() || null, metadata }, reason.trim());
+  };
+
+  const buttonClassName = `px-2.5 py-1 text-xs font-medium rounded-lg transition-colors disabled:opacity-50 ${
+    isDarkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+  }`;
+  const fieldClassName = `w-full p-2 rounded-lg border text-xs resize-y ${
+    isDarkMode
+      ? 'bg-slate-900 border-slate-600 text-slate-200 placeholder-slate-500'
+      : 'bg-white border-slate-300 text-slate-800 placeholder-slate-400'
+  } focus:outline-none focus:ring-2 focus:ring-indigo-500/20`;
+
+  return (
+    <div className={`flex gap-3 p-2 rounded-lg border ${isDarkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+      <div className={`w-32 h-24 flex-shrink-0 flex items-center justify-center rounded border ${
+        isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'
+      }`}>
+        {imageSrc ? (
+          <img src={imageSrc} alt={component.component_id} className="max-w-full max-h-full object-contain" />
+        ) : (
+          <span className={`text-xs ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>No image</span>
+        )}
+      </div>
+      <div className="flex-1 min-w-0 space-y-2">
+        <textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          rows={2}
+          placeholder="Text content"
+          disabled={isBusy}
+          className={fieldClassName}
+        />
+        <textarea
+          value={metadataText}
+          onChange={(e) => setMetadataText(e.target.value)}
+          rows={2}
+          placeholder='Metadata JSON, e.g. { "source": "brand deck p.3" }'
+          disabled={isBusy}
+          className={`font-mono ${fieldClassName}`}
+        />
+        {metadataError && (
+          <p className={`text-xs ${isDarkMode ? 'text-red-300' : 'text-red-600'}`}>{metadataError}</p>
+        )}
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason for change (required)"
+          disabled={isBusy}
+          className={fieldClassName}
+        />
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleSave}
+            disabled={isLocked || !isDirty}
+            className="px-2.5 py-1 text-xs font-medium rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:opacity-50"
+          >
+            Save
+          </button>
+          <button onClick={() => onReplaceImage(reason.trim())} disabled={isLocked} className={buttonClassName}>
+            {imageSrc ? 'Replace Image' : 'Upload Image'}
+          </button>
+          {imageSrc && (
+            <button onClick={() => onRemoveImage(reason.trim())} disabled={isLocked} className={buttonClassName}>
+              Remove Image
+            </button>
+          )}
+          <button onClick={() => setShowHistory(!showHistory)} className={buttonClassName}>
+            {showHistory ? 'Hide History' : 'History'}
+          </button>
+          <button
+            onClick={() => onDelete(reason.trim())}
+            disabled={isLocked}
+            className={`ml-auto px-2.5 py-1 text-xs font-medium rounded-lg transition-colors disabled:opacity-50 ${
+              isDarkMode ? 'text-red-300 hover:bg-red-900/30' : 'text-red-600 hover:bg-red-50'
+            }`}
+          >
+            Delete
+          </button>
+          {typeof component.metadata?.filename === 'string' && (
+            <span className={`text-xs font-mono ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+              {String(component.metadata.page)}/{component.metadata.filename}
+            </span>
+          )}
+        </div>
+        {showHistory && (
+          <RevisionHistory
+            component={component}
+            isBusy={isBusy || !canChange}
+            onRollback={onRollback}
+            isDarkMode={isDarkMode}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function ComponentManager({ document, components: initialComponents, onClose, isDarkMode = false }: ComponentManagerProps) {
+  const [components, setComponents] = useState(initialComponents);
+  const [filter, setFilter] = useState<SlotFilter>('all');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [author, setAuthor] = useState(() => localStorage.getItem('lblAuthorName') || '');
+
+  useEffect(() => {
+    localStorage.setItem('lblAuthorName', author);
+  }, [author]);
+
+  const byId = (id: ComponentId) => components.filter(c => c.component_id === id);
+  const isFilled = (id: ComponentId) => byId(id).some(c => c.content || c.image_path || c.image_base64);
+  const filledCount = COMPONENT_IDS.filter(isFilled).length;
+
+  const visibleIds = COMPONENT_IDS.filter(id =>
+    filter === 'all' || (filter === 'filled' ? isFilled(id) : !isFilled(id))
+  );
+
+  // Run a repository write, keeping the editor usable if it fails
+  const run = async (busyKey: string, action: () => Promise<void>) => {
+    setBusyId(busyKey);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Component update failed:', err);
+      setError(err instanceof Error ? err.message : 'Component update failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const replaceComponent = (previous: ComponentData, next: ComponentData) => {
+    setComponents(prev => prev.map(c => c.id === previous.id ? next : c));
+  };
+
+  const handleSave = (component: ComponentData, changes: ComponentChanges, reason: string) => run(component.id, async () => {
+    replaceComponent(component, await updateComponent(component, changes, { author, reason }));
+  });
+
+  const handleReplaceImage = (component: ComponentData, reason: string) => run(component.id, async () => {
+    const file = await pickImageFile();
+    if (!file) return;
+    const imageBase64 = await imageFileToPngBase64(file);
+    replaceComponent(component, await updateComponent(component, { imageBase64 }, { author, reason }));
+  });
+
+  const handleRemoveImage = (component: ComponentData, reason: string) => run(component.id, async () => {
+    await deleteComponent(component, { author, reason }, true);
+    replaceComponent(component, { ...component, image_path: null, image_base64: null });
+  });
+
+  const handleDelete = (component: ComponentData, reason: string) => run(component.id, async () => {
+    if (!window.confirm(`Delete ${component.component_id} (${COMPONENT_METADATA[component.component_id].name})?`)) return;
+    await deleteComponent(component, { author, reason });
+    setComponents(prev => prev.filter(c => c.id !== component.id));
+  });
+
+  const handleRollback = (component: ComponentData, revision: ComponentRevision) => run(component.id, async () => {
+    if (!window.confirm(`Restore ${component.component_id} to r${revision.revision}?`)) return;
+    replaceComponent(component, await rollbackComponent(component, revision, author));
+  });
+
+  const handleAdd = (componentId: ComponentId, withImage: boolean) => run(componentId, async () => {
+    let changes: ComponentChanges = { content: null };
+    if (withImage) {
+      const file = await pickImageFile();
+      if (!file) return;
+      changes = { imageBase64: await imageFileToPngBase64(file) };
+    }
+    const added = await addComponent(document.id, componentId, changes, { author, reason: 'Added in component manager' });
+    setComponents(prev => [...prev, added]);
+  });
+
+  const canChange = author.trim().length > 0;
+
+  const addButtonClassName = `px-2.5 py-1 text-xs font-medium rounded-lg transition-colors disabled:opacity-50 ${
+    isDarkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-900/60 p-6">
+      <div className={`w-full max-w-5xl max-h-full flex flex-col rounded-xl border shadow-xl ${
+        isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
+      }`}>
+        <div className={`px-6 py-4 border-b flex items-center justify-between ${
+          isDarkMode ? 'border-slate-700' : 'border-slate-100'
+        }`}>
+          <div>
+            <h2 className={`text-sm font-semibold ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>
+              Manage Components
+            </h2>
+            <p className={`text-xs mt-0.5 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+              {String(document.name || document.id)} · {filledCount}/{COMPONENT_IDS.length} slots filled
+            </p>
+          </div>
+          <div className="flex items-center gap-1">
+            <input
+              type="text"
+              value={author}
+              onChange={(e) => setAuthor(e.target.value)}
+              placeholder="Your name (required)"
+              className={`w-44 mr-2 px-2 py-1 rounded-lg border text-xs ${
+                isDarkMode ? 'bg-slate-900 border-slate-600 text-slate-200' : 'bg-white border-slate-300 text-slate-800'
+              } focus:outline-none focus:ring-2 focus:ring-indigo-500/20`}
+            />
+            {(['all', 'missing', 'filled'] as SlotFilter[]).map(f => (
+              <button
+                key={f}
+                onClick={() => setFilter(f)}
+                className={`px-3 py-1 text-xs font-medium rounded-lg capitalize transition-colors ${
+                  filter === f
+                    ? 'bg-indigo-600 text-white'
+                    : isDarkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                }`}
+              >
+                {f}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          {SECTION_ORDER.map(section => {
+            const sectionIds = visibleIds.filter(id => COMPONENT_METADATA[id].section === section);
+            if (sectionIds.length === 0) return null;
+
+            return (
+              <div key={section} className="space-y-2">
+                <h3 className={`text-xs font-semibold uppercase tracking-wide ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                  {section}
+                </h3>
+                {sectionIds.map(id => {
+                  const meta = COMPONENT_METADATA[id];
+                  const instances = byId(id);
+                  const filled = isFilled(id);
+
+                  return (
+                    <div key={id} className={`p-3 rounded-lg border space-y-2 ${
+                      filled
+                        ? isDarkMode ? 'border-slate-700' : 'border-slate-200'
+                        : isDarkMode ? 'border-dashed border-slate-600' : 'border-dashed border-slate-300'
+                    }`}>
+                      <div className="flex items-center gap-2">
+                        <span className={`w-2 h-2 rounded-full ${filled ? 'bg-green-500' : isDarkMode ? 'bg-slate-600' : 'bg-slate-300'}`} />
+                        <span className={`text-xs font-mono ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>{id}</span>
+                        <span className={`text-sm font-medium ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>{meta.name}</span>
+                        <span className={`text-xs px-1.5 py-0.5 rounded ${
+                          meta.criticality === 'MANDATORY'
+                            ? isDarkMode ? 'bg-red-900/50 text-red-300' : 'bg-red-100 text-red-700'
+                            : isDarkMode ? 'bg-slate-700 text-slate-400' : 'bg-slate-100 text-slate-500'
+                        }`}>
+                          {meta.criticality}
+                        </span>
+                        <span className={`text-xs ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>{meta.type}</span>
+                        <div className="ml-auto flex gap-2">
+                          <button onClick={() => handleAdd(id, true)} disabled={busyId !== null || !canChange} className={addButtonClassName}>
+                            + Image
+                          </button>
+                          <button onClick={() => handleAdd(id, false)} disabled={busyId !== null || !canChange} className={addButtonClassName}>
+                            + Text
+                          </button>
+                        </div>
+                      </div>
+                      {instances.map(component => (
+                        <ComponentEditor
+                          key={`${component.id}-${component.updated_at}`}
+                          component={component}
+                          isBusy={busyId !== null}
+                          canChange={canChange}
+                          onSave={(changes, reason) => handleSave(component, changes, reason)}
+                          onReplaceImage={(reason) => handleReplaceImage(component, reason)}
+                          onRemoveImage={(reason) => handleRemoveImage(component, reason)}
+                          onDelete={(reason) => handleDelete(component, reason)}
+                          onRollback={(revision) => handleRollback(component, revision)}
+                          isDarkMode={isDarkMode}
+                        />
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className={`px-6 py-4 border-t flex items-center gap-3 ${
+          isDarkMode ? 'border-slate-700' : 'border-slate-100'
+        }`}>
+          {busyId && (
+            <span className={`text-xs ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>Saving...</span>
+          )}
+          {error && (
+            <span className={`text-xs ${isDarkMode ? 'text-red-300' : 'text-red-600'}`}>{error}</span>
+          )}
+          <button
+            onClick={() => onClose(components)}
+            disabled={busyId !== null}
+            className="ml-auto px-4 py-2 text-sm font-medium rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:opacity-50"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
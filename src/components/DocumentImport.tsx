@@ -0,0 +1,289 @@
+import { useState, useRef } from 'react';
+import { FileUpload } from './FileUpload';
+import { SegmentationEditor } from './SegmentationEditor';
+import { COMPONENT_IDS, COMPONENT_METADATA } from '../services/componentService';
+import type { ComponentId, Document } from '../services/componentService';
+import { segmentPages, saveSegmentedDocument } from '../services/segmentationService';
+import type { BBox, DetectedRegion, SegmentationPage } from '../services/segmentationService';
+import { processFile, getMimeType } from '../utils/pdfUtils';
+
+interface DocumentImportProps {
+  onComplete: (document: Document | null) => void; // null = cancelled
+  isDarkMode?: boolean;
+}
+
+export function DocumentImport({ onComplete, isDarkMode = false }: DocumentImportProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [pages, setPages] = useState<SegmentationPage[]>([]);
+  const [name, setName] = useState('');
+  const [regions, setRegions] = useState<DetectedRegion[]>([]);
+  const [activePage, setActivePage] = useState(1);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newLabel, setNewLabel] = useState<ComponentId>('SOL_01');
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const nextIdRef = useRef(1);
+
+  const isBusy = status !== null;
+  const pageRegions = regions.filter(r => r.page === activePage);
+  const currentPage = pages.find(p => p.page === activePage);
+
+  const handleFileSelect = async (selected: File) => {
+    setFile(selected);
+    setPages([]);
+    setRegions([]);
+    setSelectedId(null);
+    setError(null);
+    setStatus('Rendering pages...');
+
+    try {
+      const { images, brandName } = await processFile(selected);
+      const isPdf = getMimeType(selected) === 'application/pdf';
+      setPages(images.map((imageBase64, index) => ({
+        page: index + 1,
+        imageBase64,
+        mimeType: isPdf ? 'image/jpeg' : getMimeType(selected),
+      })));
+      setActivePage(1);
+      setName(brandName || selected.name.replace(/\.[^.]+$/, ''));
+    } catch (err) {
+      console.error('Failed to read file:', err);
+      setError('Failed to read file');
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  const handleDetect = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setSelectedId(null);
+    setStatus(`Detecting components... 0/${pages.length} pages`);
+
+    try {
+      const result = await segmentPages(pages, {
+        signal: controller.signal,
+        onEvent: event => setStatus(`Detecting components... ${event.completed}/${event.total} pages`),
+      });
+      if (controller.signal.aborted) return;
+
+      setRegions(result.regions);
+      if (result.failedPages.length > 0) {
+        setError(`Detection failed on page ${result.failedPages.join(', ')} - draw boxes by hand`);
+      }
+    } finally {
+      abortRef.current = null;
+      setStatus(null);
+    }
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    setStatus('Cropping components...');
+
+    try {
+      const document = await saveSegmentedDocument(
+        { name: name.trim() || 'Imported document', brand_name: name.trim() || undefined },
+        pages,
+        regions,
+        (cropped, total) => setStatus(`Cropping components... ${cropped}/${total}`)
+      );
+      onComplete(document);
+    } catch (err) {
+      console.error('Failed to save document:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save document');
+      setStatus(null);
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    onComplete(null);
+  };
+
+  const updateRegion = (id: string, patch: Partial<DetectedRegion>) => {
+    setRegions(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const addRegion = (bbox: BBox) => {
+    const id = `manual-${nextIdRef.current++}`;
+    setRegions(prev => [...prev, { id, page: activePage, componentId: newLabel, bbox }]);
+    setSelectedId(id);
+  };
+
+  const removeRegion = (id: string) => {
+    setRegions(prev => prev.filter(r => r.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const selectClassName = `px-2 py-1 rounded border text-xs ${
+    isDarkMode ? 'bg-slate-900 border-slate-600 text-slate-200' : 'bg-white border-slate-300 text-slate-800'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-900/60 p-6">
+      <div className={`w-full max-w-6xl max-h-full flex flex-col rounded-xl border shadow-xl ${
+        isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
+      }`}>
+        <div className={`px-6 py-4 border-b flex items-center gap-4 ${
+          isDarkMode ? 'border-slate-700' : 'border-slate-100'
+        }`}>
+          <div className="flex-1">
+            <h2 className={`text-sm font-semibold ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>
+              Import Document
+            </h2>
+            <p className={`text-xs mt-0.5 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+              Detect components in a brand deck, adjust boxes and labels, then save to the repository
+            </p>
+          </div>
+          {pages.length > 0 && (
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Document name"
+              className={`w-64 px-3 py-1.5 rounded-lg border text-sm ${
+                isDarkMode ? 'bg-slate-900 border-slate-600 text-slate-200' : 'bg-white border-slate-300 text-slate-800'
+              } focus:outline-none focus:ring-2 focus:ring-indigo-500/20`}
+            />
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {pages.length === 0 ? (
+            <FileUpload
+              onFileSelect={handleFileSelect}
+              file={file}
+              previewUrls={[]}
+              isDarkMode={isDarkMode}
+            />
+          ) : (
+            <div className="flex gap-4">
+              <div className="flex-1 min-w-0 space-y-3">
+                <div className="flex items-center gap-2 flex-wrap">
+                  {pages.map(p => (
+                    <button
+                      key={p.page}
+                      onClick={() => { setActivePage(p.page); setSelectedId(null); }}
+                      className={`px-3 py-1 text-xs font-medium rounded-lg transition-colors ${
+                        p.page === activePage
+                          ? 'bg-indigo-600 text-white'
+                          : isDarkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                      }`}
+                    >
+                      Page {p.page} ({regions.filter(r => r.page === p.page).length})
+                    </button>
+                  ))}
+                </div>
+                {currentPage && (
+                  <SegmentationEditor
+                    page={currentPage}
+                    regions={pageRegions}
+                    selectedId={selectedId}
+                    onSelect={setSelectedId}
+                    onChange={(id, bbox) => updateRegion(id, { bbox })}
+                    onAdd={addRegion}
+                    isDarkMode={isDarkMode}
+                  />
+                )}
+                <p className={`text-xs ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                  Drag on the page to add a box. Drag a box to move it, or its corner handle to resize.
+                </p>
+              </div>
+
+              <div className="w-72 flex-shrink-0 space-y-3">
+                <label className={`flex items-center justify-between gap-2 text-xs ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                  New boxes
+                  <select
+                    value={newLabel}
+                    onChange={(e) => setNewLabel(e.target.value as ComponentId)}
+                    className={selectClassName}
+                  >
+                    {COMPONENT_IDS.map(id => (
+                      <option key={id} value={id}>{id} - {COMPONENT_METADATA[id].name}</option>
+                    ))}
+                  </select>
+                </label>
+
+                <div className="space-y-1.5">
+                  {pageRegions.length === 0 && (
+                    <p className={`text-xs py-4 text-center ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+                      No components on this page
+                    </p>
+                  )}
+                  {pageRegions.map(region => (
+                    <div
+                      key={region.id}
+                      onClick={() => setSelectedId(region.id)}
+                      className={`flex items-center gap-2 p-1.5 rounded-lg border cursor-pointer ${
+                        region.id === selectedId
+                          ? isDarkMode ? 'border-amber-500 bg-amber-900/20' : 'border-amber-400 bg-amber-50'
+                          : isDarkMode ? 'border-slate-700' : 'border-slate-200'
+                      }`}
+                    >
+                      <select
+                        value={region.componentId}
+                        onChange={(e) => updateRegion(region.id, { componentId: e.target.value as ComponentId })}
+                        className={`flex-1 min-w-0 ${selectClassName}`}
+                      >
+                        {COMPONENT_IDS.map(id => (
+                          <option key={id} value={id}>{id} - {COMPONENT_METADATA[id].name}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); removeRegion(region.id); }}
+                        title="Remove box"
+                        className={`px-2 py-1 text-xs rounded ${
+                          isDarkMode ? 'text-red-300 hover:bg-red-900/30' : 'text-red-600 hover:bg-red-50'
+                        }`}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className={`px-6 py-4 border-t flex items-center gap-3 ${
+          isDarkMode ? 'border-slate-700' : 'border-slate-100'
+        }`}>
+          {status && (
+            <span className={`text-xs ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>{status}</span>
+          )}
+          {error && (
+            <span className={`text-xs ${isDarkMode ? 'text-red-300' : 'text-red-600'}`}>{error}</span>
+          )}
+          <button
+            onClick={handleCancel}
+            className={`ml-auto px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+              isDarkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+            }`}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleDetect}
+            disabled={isBusy || pages.length === 0}
+            className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 ${
+              isDarkMode ? 'bg-indigo-900/50 text-indigo-300 hover:bg-indigo-900' : 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100'
+            }`}
+          >
+            {regions.length > 0 ? 'Detect Again' : 'Detect Components'}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isBusy || regions.length === 0}
+            className="px-4 py-2 text-sm font-medium rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:opacity-50"
+          >
+            Save Document ({regions.length})
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
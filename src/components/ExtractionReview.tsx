@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import type { ComponentData } from '../services/componentService';
+import { COMPONENT_METADATA } from '../services/componentService';
+import { needsTextExtraction } from '../services/contentExtractorService';
+import { saveReview, deleteReview } from '../services/extractionReviewService';
+import type { ReviewStatus } from '../services/extractionReviewService';
+
+interface ExtractionReviewProps {
+  components: ComponentData[];
+  onComplete: (reviewed: ComponentData[] | null) => void; // null = cancelled
+  isDarkMode?: boolean;
+}
+
+type ItemStatus = 'pending' | ReviewStatus;
+
+interface ReviewItem {
+  text: string;
+  status: ItemStatus;
+}
+
+function getConfidence(component: ComponentData): 'high' | 'medium' | 'low' {
+  const confidence = component.metadata?.extractionConfidence;
+  if (confidence === 'high' || confidence === 'medium' || confidence === 'low') return confidence;
+  return component.content ? 'medium' : 'low';
+}
+
+export function ExtractionReview({ components, onComplete, isDarkMode = false }: ExtractionReviewProps) {
+  const reviewable = components.filter(needsTextExtraction);
+
+  const [items, setItems] = useState<Record<string, ReviewItem>>(() =>
+    Object.fromEntries(reviewable.map(c => [c.id, {
+      text: c.content || '',
+      status: (c.metadata?.reviewStatus as ReviewStatus | undefined) || 'pending',
+    }]))
+  );
+  const [lowOnly, setLowOnly] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lowCount = reviewable.filter(c => getConfidence(c) !== 'high').length;
+  const visible = lowOnly ? reviewable.filter(c => getConfidence(c) !== 'high') : reviewable;
+
+  const updateItem = (id: string, patch: Partial<ReviewItem>) => {
+    setItems(prev => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+  };
+
+  const handleContinue = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const reviewed = await Promise.all(components.map(async comp => {
+        const item = items[comp.id];
+        if (!item) return comp;
+
+        const text = item.text.trim();
+        let status: ItemStatus = item.status;
+        if (status !== 'rejected' && text !== (comp.content || '')) {
+          status = 'edited';
+        }
+        if (status === 'pending') {
+          // A previous decision was undone - fall back to extracted text
+          if (!comp.metadata?.reviewStatus) return comp;
+          await deleteReview(comp);
+          const metadata = { ...comp.metadata };
+          delete metadata.reviewStatus;
+          return { ...comp, content: text || null, metadata };
+        }
+
+        // Persist so the next extraction does not overwrite the decision
+        await saveReview(comp, status, text || null);
+        // Structured data no longer matches edited or rejected text
+        const metadata: Record<string, unknown> = { ...comp.metadata, reviewStatus: status };
+        if (status !== 'approved') delete metadata.structured;
+
+        return { ...comp, content: status === 'rejected' ? null : text || null, metadata };
+      }));
+
+      onComplete(reviewed);
+    } catch (err) {
+      console.error('Failed to save reviews:', err);
+      setError('Failed to save review decisions');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-900/60 p-6">
+      <div className={`w-full max-w-4xl max-h-full flex flex-col rounded-xl border shadow-xl ${
+        isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
+      }`}>
+        <div className={`px-6 py-4 border-b flex items-center justify-between ${
+          isDarkMode ? 'border-slate-700' : 'border-slate-100'
+        }`}>
+          <div>
+            <h2 className={`text-sm font-semibold ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>
+              Review Extracted Text
+            </h2>
+            <p className={`text-xs mt-0.5 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+              {reviewable.length} components · {lowCount} need attention · edits are saved for next time
+            </p>
+          </div>
+          <label className={`flex items-center gap-2 text-xs ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+            <input
+              type="checkbox"
+              checked={lowOnly}
+              onChange={() => setLowOnly(!lowOnly)}
+              className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Low confidence only
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {visible.length === 0 && (
+            <p className={`text-sm text-center py-8 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+              Nothing to review.
+            </p>
+          )}
+          {visible.map(comp => {
+            const meta = COMPONENT_METADATA[comp.component_id];
+            const item = items[comp.id];
+            const confidence = getConfidence(comp);
+            const isRejected = item.status === 'rejected';
+
+            return (
+              <div
+                key={comp.id}
+                className={`flex gap-4 p-3 rounded-lg border ${
+                  confidence === 'low'
+                    ? isDarkMode ? 'border-red-800 bg-red-900/20' : 'border-red-200 bg-red-50'
+                    : confidence === 'medium'
+                      ? isDarkMode ? 'border-amber-800 bg-amber-900/20' : 'border-amber-200 bg-amber-50'
+                      : isDarkMode ? 'border-slate-700' : 'border-slate-200'
+                }`}
+              >
+                <img
+                  src={`data:image/png;base64,${comp.image_base64}`}
+                  alt={meta.name}
+                  className={`w-48 max-h-32 object-contain rounded border flex-shrink-0 ${
+                    isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'
+                  }`}
+                />
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className={`text-sm font-medium ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>
+                      {meta.name}
+                    </span>
+                    <span className={`text-xs ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+                      {comp.component_id}
+                    </span>
+                    <span className={`text-xs px-1.5 py-0.5 rounded ${
+                      confidence === 'low'
+                        ? isDarkMode ? 'bg-red-900/50 text-red-300' : 'bg-red-100 text-red-700'
+                        : confidence === 'medium'
+                          ? isDarkMode ? 'bg-amber-900/50 text-amber-300' : 'bg-amber-100 text-amber-700'
+                          : isDarkMode ? 'bg-green-900/50 text-green-300' : 'bg-green-100 text-green-700'
+                    }`}>
+                      {confidence} confidence
+                    </span>
+                    {item.status !== 'pending' && (
+                      <span className={`ml-auto text-xs ${isDarkMode ? 'text-indigo-300' : 'text-indigo-600'}`}>
+                        {item.status}
+                      </span>
+                    )}
+                  </div>
+                  <textarea
+                    value={item.text}
+                    onChange={(e) => updateItem(comp.id, { text: e.target.value })}
+                    disabled={isRejected}
+                    rows={3}
+                    placeholder="No text extracted"
+                    className={`w-full p-2 rounded-lg border text-sm resize-y disabled:opacity-50 disabled:line-through ${
+                      isDarkMode
+                        ? 'bg-slate-900 border-slate-600 text-slate-200 placeholder-slate-500'
+                        : 'bg-white border-slate-300 text-slate-800 placeholder-slate-400'
+                    } focus:outline-none focus:ring-2 focus:ring-indigo-500/20`}
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => updateItem(comp.id, { status: 'approved' })}
+                      disabled={isRejected}
+                      className={`px-3 py-1 text-xs font-medium rounded-lg transition-colors disabled:opacity-50 ${
+                        item.status === 'approved'
+                          ? 'bg-green-600 text-white'
+                          : isDarkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                      }`}
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => updateItem(comp.id, { status: isRejected ? 'pending' : 'rejected' })}
+                      className={`px-3 py-1 text-xs font-medium rounded-lg transition-colors ${
+                        isRejected
+                          ? 'bg-red-600 text-white'
+                          : isDarkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                      }`}
+                    >
+                      {isRejected ? 'Rejected (undo)' : 'Reject'}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className={`px-6 py-4 border-t flex items-center gap-3 ${
+          isDarkMode ? 'border-slate-700' : 'border-slate-100'
+        }`}>
+          {error && (
+            <span className={`text-xs ${isDarkMode ? 'text-red-300' : 'text-red-600'}`}>{error}</span>
+          )}
+          <button
+            onClick={() => onComplete(null)}
+            disabled={saving}
+            className={`ml-auto px-4 py-2 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 ${
+              isDarkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+            }`}
+          >
+            Cancel Generation
+          </button>
+          <button
+            onClick={handleContinue}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Continue to Generate'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import type { GenerationRecord } from '../services/historyService';
+import { getGenerations, deleteGeneration } from '../services/historyService';
+import { downloadBase64Image } from '../utils/downloadUtils';
+
+interface GenerationHistoryProps {
+  documentId: string | null;
+  refreshKey: number; // Bump to reload after a new generation is saved
+  activeId?: string | null;
+  onOpen: (record: GenerationRecord) => void;
+  isDarkMode?: boolean;
+}
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function GenerationHistory({ documentId, refreshKey, activeId, onOpen, isDarkMode = false }: GenerationHistoryProps) {
+  const [records, setRecords] = useState<GenerationRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load history whenever the document changes or a new run is saved
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadHistory() {
+      if (!documentId) {
+        setRecords([]);
+        return;
+      }
+
+      setLoading(true);
+      try {
+        const data = await getGenerations(documentId);
+        if (!cancelled) {
+          setRecords(data);
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Failed to load generation history:', err);
+        if (!cancelled) setError('Failed to load history');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadHistory();
+    return () => { cancelled = true; };
+  }, [documentId, refreshKey]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteGeneration(id);
+      setRecords(prev => prev.filter(r => r.id !== id));
+    } catch (err) {
+      console.error('Failed to delete generation:', err);
+      setError('Failed to delete generation');
+    }
+  };
+
+  if (!documentId) {
+    return (
+      <p className={`text-sm ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+        Select a document to see its generation history.
+      </p>
+    );
+  }
+
+  if (loading && records.length === 0) {
+    return (
+      <div className={`p-4 text-center text-sm ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+        <div className="animate-spin inline-block w-4 h-4 border-2 border-current border-t-transparent rounded-full mr-2"></div>
+        Loading history...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className={`p-3 rounded-lg text-sm ${
+          isDarkMode ? 'bg-red-900/30 text-red-300' : 'bg-red-50 text-red-700'
+        }`}>
+          {error}
+        </div>
+      )}
+
+      {records.length === 0 ? (
+        <p className={`text-sm ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+          No generations yet for this document.
+        </p>
+      ) : (
+        <div className="grid grid-cols-3 gap-3">
+          {records.map(record => (
+            <div
+              key={record.id}
+              className={`relative group rounded-lg border overflow-hidden ${
+                record.id === activeId
+                  ? 'border-indigo-500 ring-2 ring-indigo-500/30'
+                  : isDarkMode ? 'border-slate-600' : 'border-slate-200'
+              }`}
+            >
+              <button
+                onClick={() => onOpen(record)}
+                className="block w-full"
+                title="Open this generation"
+              >
+                <img
+                  src={`data:${record.mimeType};base64,${record.imageBase64}`}
+                  alt={`Generation ${formatTimestamp(record.createdAt)}`}
+                  className="w-full h-20 object-cover"
+                />
+              </button>
+              <div className={`px-2 py-1.5 text-xs ${isDarkMode ? 'bg-slate-800' : 'bg-white'}`}>
+                <div className="flex items-center justify-between gap-1">
+                  <span className={`truncate ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                    {record.starred && <span className="text-amber-400 mr-1" title="Chosen variant">★</span>}
+                    {formatTimestamp(record.createdAt)}
+                  </span>
+                  <span className={`px-1.5 py-0.5 rounded ${
+                    isDarkMode ? 'bg-indigo-900/50 text-indigo-300' : 'bg-indigo-100 text-indigo-700'
+                  }`}>
+                    {record.focusArea}
+                  </span>
+                </div>
+                <p
+                  className={`mt-0.5 truncate ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}
+                  title={record.componentRevisions?.map(ref => `${ref.componentId} r${ref.revision}`).join(', ')}
+                >
+                  {record.editedFromId
+                    ? 'Region edit'
+                    : `${record.selectedComponentIds.length} components · ${record.referenceImages.length} refs`}
+                </p>
+              </div>
+              <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => downloadBase64Image(record.imageBase64, record.mimeType, `LBL-${record.id}.${record.mimeType.split('/')[1] || 'png'}`)}
+                  className="w-6 h-6 bg-slate-900/80 text-white rounded flex items-center justify-center"
+                  title="Download"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => handleDelete(record.id)}
+                  className="w-6 h-6 bg-red-500 text-white rounded flex items-center justify-center text-xs"
+                  title="Delete"
+                >
+                  ×
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,62 @@
+import { useState } from 'react';
+import { downloadBase64Image } from '../utils/downloadUtils';
+import { RegionEditor } from './RegionEditor';
+import { LayoutEditor } from './LayoutEditor';
+import type { EditRegion } from '../services/nanoBananaService';
+
+export interface OutputVariant {
+  id: string;
+  image: string;
+  mimeType: string;
+  focusArea: string;
+  prompt: string;
+}
+
 interface ImageOutputProps {
   imageData: string | null;
   mimeType: string;
   isLoading: boolean;
   error: string | null;
   isDarkMode?: boolean;
+  variants?: OutputVariant[];        // Shown as a comparison grid when there is more than one
+  chosenVariantId?: string | null;
+  onChooseVariant?: (variantId: string) => void;
+  onEditRegion?: (region: EditRegion, instruction: string) => Promise<void>; // Enables edit mode
 }
 
-export function ImageOutput({ imageData, mimeType, isLoading, error, isDarkMode = false }: ImageOutputProps) {
+export function ImageOutput({
+  imageData,
+  mimeType,
+  isLoading,
+  error,
+  isDarkMode = false,
+  variants = [],
+  chosenVariantId = null,
+  onChooseVariant,
+  onEditRegion,
+}: ImageOutputProps) {
+  const [isEditMode, setIsEditMode] = useState(false);
+  const [isApplyingEdit, setIsApplyingEdit] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [isLayoutEditorOpen, setIsLayoutEditorOpen] = useState(false);
+
   const handleDownload = () => {
     if (!imageData) return;
+    downloadBase64Image(imageData, mimeType);
+  };
 
-    const link = document.createElement('a');
-    link.href = `data:${mimeType};base64,${imageData}`;
-    link.download = `LBL-${Date.now()}.${mimeType.split('/')[1] || 'png'}`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleApplyEdit = async (region: EditRegion, instruction: string) => {
+    if (!onEditRegion) return;
+    setIsApplyingEdit(true);
+    setEditError(null);
+    try {
+      await onEditRegion(region, instruction);
+      setIsEditMode(false);
+    } catch (err) {
+      setEditError(err instanceof Error ? err.message : 'Failed to edit region');
+    } finally {
+      setIsApplyingEdit(false);
+    }
   };
 
   if (isLoading) {
@@ -63,17 +104,92 @@ export function ImageOutput({ imageData, mimeType, isLoading, error, isDarkMode
     );
   }
 
+  // Edit mode always works on the chosen image
+  if (isEditMode) {
+    return (
+      <div className="space-y-3">
+        {editError && (
+          <div className={`p-3 rounded-lg text-sm ${
+            isDarkMode ? 'bg-red-900/30 text-red-300' : 'bg-red-50 text-red-700'
+          }`}>
+            {editError}
+          </div>
+        )}
+        <RegionEditor
+          imageData={imageData}
+          mimeType={mimeType}
+          isApplying={isApplyingEdit}
+          onApply={handleApplyEdit}
+          onCancel={() => {
+            setIsEditMode(false);
+            setEditError(null);
+          }}
+          isDarkMode={isDarkMode}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-4">
-      <div className={`relative rounded-lg overflow-hidden border ${
-        isDarkMode ? 'bg-slate-700 border-slate-600' : 'bg-slate-50 border-slate-200'
-      }`}>
-        <img
-          src={`data:${mimeType};base64,${imageData}`}
-          alt="Generated LBL"
-          className="w-full h-auto"
+      {isLayoutEditorOpen && (
+        <LayoutEditor
+          imageData={imageData}
+          mimeType={mimeType}
+          onClose={() => setIsLayoutEditorOpen(false)}
+          isDarkMode={isDarkMode}
         />
-      </div>
+      )}
+
+      {variants.length > 1 ? (
+        <div className="grid grid-cols-2 gap-3">
+          {variants.map((variant, index) => {
+            const isChosen = variant.id === chosenVariantId;
+            return (
+              <div
+                key={variant.id}
+                className={`relative rounded-lg overflow-hidden border-2 ${
+                  isChosen
+                    ? 'border-amber-400 ring-2 ring-amber-400/30'
+                    : isDarkMode ? 'bg-slate-700 border-slate-600' : 'bg-slate-50 border-slate-200'
+                }`}
+              >
+                <img
+                  src={`data:${variant.mimeType};base64,${variant.image}`}
+                  alt={`Variant ${index + 1}`}
+                  className="w-full h-auto"
+                />
+                <div className={`flex items-center justify-between px-2 py-1.5 text-xs ${
+                  isDarkMode ? 'bg-slate-800 text-slate-300' : 'bg-white text-slate-600'
+                }`}>
+                  <span>
+                    Variant {index + 1} · <span className="font-medium">{variant.focusArea}</span>
+                  </span>
+                  <button
+                    onClick={() => onChooseVariant?.(variant.id)}
+                    className={`text-base leading-none transition-colors ${
+                      isChosen ? 'text-amber-400' : isDarkMode ? 'text-slate-500 hover:text-amber-300' : 'text-slate-300 hover:text-amber-400'
+                    }`}
+                    title={isChosen ? 'Chosen output' : 'Star as chosen output'}
+                  >
+                    {isChosen ? '★' : '☆'}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className={`relative rounded-lg overflow-hidden border ${
+          isDarkMode ? 'bg-slate-700 border-slate-600' : 'bg-slate-50 border-slate-200'
+        }`}>
+          <img
+            src={`data:${mimeType};base64,${imageData}`}
+            alt="Generated LBL"
+            className="w-full h-auto"
+          />
+        </div>
+      )}
 
       <div className="flex gap-3">
         <button
@@ -88,7 +204,39 @@ export function ImageOutput({ imageData, mimeType, isLoading, error, isDarkMode
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
           </svg>
-          Download
+          {variants.length > 1 ? 'Download Chosen' : 'Download'}
+        </button>
+        {onEditRegion && (
+          <button
+            onClick={() => setIsEditMode(true)}
+            className={`flex items-center justify-center gap-2 px-4 py-2.5
+                     text-sm font-medium rounded-lg transition-colors duration-150
+                     ${isDarkMode
+                       ? 'bg-slate-700 hover:bg-slate-600 text-slate-200'
+                       : 'bg-slate-100 hover:bg-slate-200 text-slate-700'
+                     }`}
+            title={variants.length > 1 ? 'Edit a region of the chosen variant' : 'Edit a region of this image'}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+            </svg>
+            Edit Region
+          </button>
+        )}
+        <button
+          onClick={() => setIsLayoutEditorOpen(true)}
+          className={`flex items-center justify-center gap-2 px-4 py-2.5
+                   text-sm font-medium rounded-lg transition-colors duration-150
+                   ${isDarkMode
+                     ? 'bg-slate-700 hover:bg-slate-600 text-slate-200'
+                     : 'bg-slate-100 hover:bg-slate-200 text-slate-700'
+                   }`}
+          title="Edit text overlay regions on this image"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5h16M4 5v4m16-4v4M9 19h6m-3-14v14" />
+          </svg>
+          Text Layout
         </button>
       </div>
     </div>
@@ -0,0 +1,694 @@
+import { useState, useEffect, useRef } from 'react';
+import type { BilingualArrangement, TextRegion } from '../services/textLayerService';
+import {
+  listLayouts,
+  getLayout,
+  saveLayout,
+  deleteLayout,
+  listOverlayLanguages,
+  previewOverlay,
+} from '../services/layoutService';
+import type { LayoutSummary, OverlayLanguage } from '../services/layoutService';
+import { downloadTextFile } from '../utils/downloadUtils';
+
+interface LayoutEditorProps {
+  imageData: string;
+  mimeType: string;
+  onClose: () => void;
+  isDarkMode?: boolean;
+}
+
+type Handle = 'nw' | 'ne' | 'sw' | 'se';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Positions are % of the image, like TextRegion
+type DragState =
+  | { mode: 'draw'; start: Point; current: Point }
+  | { mode: 'move'; index: number; start: Point; original: TextRegion }
+  | { mode: 'resize'; index: number; start: Point; original: TextRegion; handle: Handle };
+
+const MIN_REGION_SIZE = 2;
+const PREVIEW_DELAY_MS = 600;
+const HANDLES: Handle[] = ['nw', 'ne', 'sw', 'se'];
+
+const HANDLE_CLASSES: Record<Handle, string> = {
+  nw: '-left-1.5 -top-1.5 cursor-nwse-resize',
+  ne: '-right-1.5 -top-1.5 cursor-nesw-resize',
+  sw: '-left-1.5 -bottom-1.5 cursor-nesw-resize',
+  se: '-right-1.5 -bottom-1.5 cursor-nwse-resize',
+};
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function moveRegion(original: TextRegion, dx: number, dy: number): Partial<TextRegion> {
+  return {
+    x: round(clamp(original.x + dx, 0, 100 - original.width)),
+    y: round(clamp(original.y + dy, 0, 100 - original.height)),
+  };
+}
+
+function resizeRegion(original: TextRegion, handle: Handle, dx: number, dy: number): Partial<TextRegion> {
+  let left = original.x;
+  let top = original.y;
+  let right = original.x + original.width;
+  let bottom = original.y + original.height;
+
+  if (handle.includes('w')) left = clamp(left + dx, 0, right - MIN_REGION_SIZE);
+  if (handle.includes('e')) right = clamp(right + dx, left + MIN_REGION_SIZE, 100);
+  if (handle.includes('n')) top = clamp(top + dy, 0, bottom - MIN_REGION_SIZE);
+  if (handle.includes('s')) bottom = clamp(bottom + dy, top + MIN_REGION_SIZE, 100);
+
+  return { x: round(left), y: round(top), width: round(right - left), height: round(bottom - top) };
+}
+
+function drawnRect(start: Point, current: Point) {
+  return {
+    x: round(Math.min(start.x, current.x)),
+    y: round(Math.min(start.y, current.y)),
+    width: round(Math.abs(current.x - start.x)),
+    height: round(Math.abs(current.y - start.y)),
+  };
+}
+
+function nextRegionId(regions: TextRegion[]): string {
+  let n = regions.length + 1;
+  while (regions.some(region => region.id === `text-${n}`)) n++;
+  return `text-${n}`;
+}
+
+// <input type="color"> only accepts #rrggbb
+function toColorInputValue(color: string | undefined, fallback: string): string {
+  return color && /^#[0-9a-f]{6}$/i.test(color) ? color : fallback;
+}
+
+function parseOptionalNumber(value: string): number | undefined {
+  return value === '' ? undefined : Number(value);
+}
+
+export function LayoutEditor({ imageData, mimeType, onClose, isDarkMode = false }: LayoutEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [layouts, setLayouts] = useState<LayoutSummary[]>([]);
+  const [languages, setLanguages] = useState<OverlayLanguage[]>([]);
+  const [layoutId, setLayoutId] = useState('');
+  const [layoutName, setLayoutName] = useState('');
+  const [regions, setRegions] = useState<TextRegion[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const [language, setLanguage] = useState('English');
+  const [secondaryLanguage, setSecondaryLanguage] = useState('');
+  const [arrangement, setArrangement] = useState<BilingualArrangement>('stacked');
+  const [isPreviewOn, setIsPreviewOn] = useState(true);
+  const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([listLayouts(), listOverlayLanguages()])
+      .then(([layoutList, languageList]) => {
+        if (cancelled) return;
+        setLayouts(layoutList);
+        setLanguages(languageList);
+      })
+      .catch(err => {
+        console.error('Failed to load layouts:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load layouts');
+      });
+
+    return () => { cancelled = true; };
+  }, []);
+
+  // Live preview through the server renderer, once the regions stop changing
+  const isDragging = drag !== null;
+  useEffect(() => {
+    if (!isPreviewOn || isDragging || regions.length === 0) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setIsPreviewing(true);
+      previewOverlay(
+        imageData,
+        regions,
+        { language, secondaryLanguage: secondaryLanguage || undefined, arrangement },
+        controller.signal
+      )
+        .then(image => {
+          setPreviewImage(image);
+          setPreviewError(null);
+        })
+        .catch(err => {
+          if (controller.signal.aborted) return;
+          console.error('Overlay preview failed:', err);
+          setPreviewError(err instanceof Error ? err.message : 'Overlay preview failed');
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setIsPreviewing(false);
+        });
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [isPreviewOn, isDragging, regions, imageData, language, secondaryLanguage, arrangement]);
+
+  const selected = selectedIndex !== null ? regions[selectedIndex] : null;
+  const savedLayout = layouts.find(layout => layout.id === layoutId && layout.source === 'saved');
+  const showPreview = isPreviewOn && previewImage && regions.length > 0;
+
+  const updateRegion = (index: number, changes: Partial<TextRegion>) => {
+    setRegions(current => current.map((region, i) => (i === index ? { ...region, ...changes } : region)));
+  };
+
+  const handleLoadLayout = async (id: string) => {
+    if (!id) return;
+    setError(null);
+    setNotice(null);
+    try {
+      setRegions(await getLayout(id));
+      setLayoutId(id);
+      setLayoutName(layouts.find(layout => layout.id === id)?.name || id);
+      setSelectedIndex(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load layout');
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await saveLayout(layoutId, layoutName, regions);
+      setLayouts(await listLayouts());
+      setNotice(`Saved layout "${layoutId}"`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save layout');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!savedLayout) return;
+    setError(null);
+    setNotice(null);
+    try {
+      await deleteLayout(savedLayout.id);
+      setLayouts(await listLayouts());
+      setNotice(savedLayout.overridesBuiltIn ? `Restored the built-in "${savedLayout.id}" layout` : `Deleted layout "${savedLayout.id}"`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete layout');
+    }
+  };
+
+  const handleExport = () => {
+    downloadTextFile(JSON.stringify(regions, null, 2), 'application/json', `${layoutId || 'layout'}.json`);
+  };
+
+  const handleDeleteRegion = () => {
+    if (selectedIndex === null) return;
+    setRegions(current => current.filter((_, i) => i !== selectedIndex));
+    setSelectedIndex(null);
+  };
+
+  // Pointer position in % of the displayed image
+  const toPercent = (e: React.PointerEvent): Point => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * 100, 0, 100),
+      y: clamp(((e.clientY - rect.top) / rect.height) * 100, 0, 100),
+    };
+  };
+
+  const startDrag = (e: React.PointerEvent, state: DragState) => {
+    e.stopPropagation();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    setDrag(state);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const point = toPercent(e);
+    const dx = point.x - drag.start.x;
+    const dy = point.y - drag.start.y;
+
+    if (drag.mode === 'draw') setDrag({ ...drag, current: point });
+    if (drag.mode === 'move') updateRegion(drag.index, moveRegion(drag.original, dx, dy));
+    if (drag.mode === 'resize') updateRegion(drag.index, resizeRegion(drag.original, drag.handle, dx, dy));
+  };
+
+  const handlePointerUp = () => {
+    if (drag?.mode === 'draw') {
+      const rect = drawnRect(drag.start, drag.current);
+      if (rect.width >= MIN_REGION_SIZE && rect.height >= MIN_REGION_SIZE) {
+        const region: TextRegion = {
+          id: nextRegionId(regions),
+          englishText: 'New text',
+          ...rect,
+          fontSize: 16,
+          fontWeight: 'normal',
+          textAlign: 'left',
+          color: '#1a365d',
+        };
+        setRegions([...regions, region]);
+        setSelectedIndex(regions.length);
+      }
+    }
+    setDrag(null);
+  };
+
+  const draft = drag?.mode === 'draw' ? drawnRect(drag.start, drag.current) : null;
+
+  const labelClassName = `block text-xs font-medium mb-1 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`;
+  const inputClassName = `w-full px-2 py-1.5 rounded-md border text-sm ${
+    isDarkMode
+      ? 'bg-slate-900 border-slate-600 text-slate-200 focus:border-indigo-500'
+      : 'bg-white border-slate-300 text-slate-800 focus:border-indigo-500'
+  } focus:outline-none`;
+  const headingClassName = `text-xs font-semibold uppercase tracking-wide mb-2 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`;
+  const buttonClassName = `px-3 py-1.5 text-xs font-medium rounded-lg transition-colors disabled:opacity-50 ${
+    isDarkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-900/60 p-6">
+      <div className={`w-full max-w-6xl max-h-full flex flex-col rounded-xl border shadow-xl ${
+        isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
+      }`}>
+        <div className={`px-6 py-4 border-b flex items-center justify-between ${
+          isDarkMode ? 'border-slate-700' : 'border-slate-100'
+        }`}>
+          <div>
+            <h2 className={`text-sm font-semibold ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>
+              Text Layout Editor
+            </h2>
+            <p className={`text-xs mt-0.5 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+              Drag on the image to add a region · drag a region to move it · drag its corners to resize
+            </p>
+          </div>
+          <select
+            value=""
+            onChange={(e) => handleLoadLayout(e.target.value)}
+            className={`${inputClassName} w-56`}
+          >
+            <option value="">Load layout...</option>
+            {layouts.map(layout => (
+              <option key={layout.id} value={layout.id}>
+                {layout.name} ({layout.source === 'saved' ? 'saved' : 'built-in'})
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="flex-1 overflow-y-auto p-4 space-y-2">
+            <div
+              ref={containerRef}
+              className={`relative rounded-lg overflow-hidden border select-none touch-none cursor-crosshair ${
+                isDarkMode ? 'bg-slate-700 border-slate-600' : 'bg-slate-50 border-slate-200'
+              }`}
+              onPointerDown={(e) => {
+                const point = toPercent(e);
+                setSelectedIndex(null);
+                startDrag(e, { mode: 'draw', start: point, current: point });
+              }}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <img
+                src={showPreview ? `data:image/png;base64,${previewImage}` : `data:${mimeType};base64,${imageData}`}
+                alt="Layout background"
+                className="w-full h-auto pointer-events-none"
+                draggable={false}
+              />
+              {regions.map((region, index) => {
+                const isSelected = index === selectedIndex;
+                return (
+                  <div
+                    key={index}
+                    className={`absolute border cursor-move ${
+                      isSelected ? 'border-2 border-indigo-500 bg-indigo-500/10' : 'border-dashed border-amber-400 hover:bg-amber-400/10'
+                    } ${showPreview ? '' : 'bg-amber-400/10'}`}
+                    style={{
+                      left: `${region.x}%`,
+                      top: `${region.y}%`,
+                      width: `${region.width}%`,
+                      height: `${region.height}%`,
+                    }}
+                    onPointerDown={(e) => {
+                      setSelectedIndex(index);
+                      startDrag(e, { mode: 'move', index, start: toPercent(e), original: region });
+                    }}
+                  >
+                    <span className={`absolute left-0 -top-4 px-1 text-[10px] leading-4 rounded-sm whitespace-nowrap ${
+                      isSelected ? 'bg-indigo-500 text-white' : 'bg-amber-400 text-slate-900'
+                    }`}>
+                      {region.id}
+                    </span>
+                    {isSelected && HANDLES.map(handle => (
+                      <div
+                        key={handle}
+                        className={`absolute w-3 h-3 rounded-sm border border-white bg-indigo-500 ${HANDLE_CLASSES[handle]}`}
+                        onPointerDown={(e) => startDrag(e, { mode: 'resize', index, start: toPercent(e), original: region, handle })}
+                      />
+                    ))}
+                  </div>
+                );
+              })}
+              {draft && (
+                <div
+                  className="absolute border-2 border-dashed border-indigo-400 bg-indigo-400/15"
+                  style={{ left: `${draft.x}%`, top: `${draft.y}%`, width: `${draft.width}%`, height: `${draft.height}%` }}
+                />
+              )}
+              {isPreviewOn && isPreviewing && (
+                <div className="absolute right-2 top-2 w-5 h-5 border-2 border-indigo-500 rounded-full animate-spin border-t-transparent"></div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <label className={`flex items-center gap-1.5 text-xs ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                <input
+                  type="checkbox"
+                  checked={isPreviewOn}
+                  onChange={() => {
+                    setIsPreviewOn(!isPreviewOn);
+                    setPreviewImage(null);
+                  }}
+                />
+                Live preview
+              </label>
+              <select value={language} onChange={(e) => setLanguage(e.target.value)} className={`${inputClassName} w-36`}>
+                {languages.map(item => <option key={item.name} value={item.name}>{item.name}</option>)}
+              </select>
+              <select value={secondaryLanguage} onChange={(e) => setSecondaryLanguage(e.target.value)} className={`${inputClassName} w-44`}>
+                <option value="">No second language</option>
+                {languages.filter(item => item.name !== language).map(item => (
+                  <option key={item.name} value={item.name}>+ {item.name}</option>
+                ))}
+              </select>
+              {secondaryLanguage && (
+                <select
+                  value={arrangement}
+                  onChange={(e) => setArrangement(e.target.value as BilingualArrangement)}
+                  className={`${inputClassName} w-36`}
+                >
+                  <option value="stacked">Stacked</option>
+                  <option value="side-by-side">Side by side</option>
+                </select>
+              )}
+              {isPreviewOn && previewError && (
+                <span className={`text-xs ${isDarkMode ? 'text-red-300' : 'text-red-600'}`}>Preview: {previewError}</span>
+              )}
+            </div>
+          </div>
+
+          <div className={`w-80 shrink-0 overflow-y-auto p-4 space-y-4 border-l ${
+            isDarkMode ? 'border-slate-700' : 'border-slate-100'
+          }`}>
+            <div>
+              <h3 className={headingClassName}>Regions ({regions.length})</h3>
+              {regions.length === 0 ? (
+                <p className={`text-xs ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+                  Load a layout or draw a region on the image
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {regions.map((region, index) => (
+                    <button
+                      key={index}
+                      onClick={() => setSelectedIndex(index)}
+                      className={`px-2 py-0.5 rounded text-xs font-mono ${
+                        index === selectedIndex
+                          ? 'bg-indigo-600 text-white'
+                          : isDarkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                      }`}
+                    >
+                      {region.id}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {selected && selectedIndex !== null && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className={`${headingClassName} mb-0`}>Region</h3>
+                  <button onClick={handleDeleteRegion} className={`text-xs ${isDarkMode ? 'text-red-300 hover:text-red-200' : 'text-red-600 hover:text-red-700'}`}>
+                    Delete region
+                  </button>
+                </div>
+
+                <div>
+                  <label className={labelClassName}>ID</label>
+                  <input
+                    value={selected.id}
+                    onChange={(e) => updateRegion(selectedIndex, { id: e.target.value })}
+                    className={`${inputClassName} font-mono`}
+                  />
+                </div>
+
+                <div>
+                  <label className={labelClassName}>English text</label>
+                  <textarea
+                    value={selected.englishText}
+                    onChange={(e) => updateRegion(selectedIndex, { englishText: e.target.value })}
+                    rows={3}
+                    className={`${inputClassName} resize-y`}
+                  />
+                </div>
+
+                <div className="grid grid-cols-4 gap-2">
+                  {(['x', 'y', 'width', 'height'] as const).map(key => (
+                    <div key={key}>
+                      <label className={labelClassName}>{key === 'width' ? 'W' : key === 'height' ? 'H' : key.toUpperCase()} %</label>
+                      <input
+                        type="number"
+                        step={0.5}
+                        min={0}
+                        max={100}
+                        value={selected[key]}
+                        onChange={(e) => updateRegion(selectedIndex, { [key]: clamp(Number(e.target.value), 0, 100) })}
+                        className={inputClassName}
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className={labelClassName}>Font size (px at 1920)</label>
+                    <input
+                      type="number"
+                      min={4}
+                      value={selected.fontSize}
+                      onChange={(e) => updateRegion(selectedIndex, { fontSize: Math.max(1, Number(e.target.value)) })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClassName}>Weight</label>
+                    <select
+                      value={selected.fontWeight}
+                      onChange={(e) => updateRegion(selectedIndex, { fontWeight: e.target.value as TextRegion['fontWeight'] })}
+                      className={inputClassName}
+                    >
+                      <option value="normal">Normal</option>
+                      <option value="bold">Bold</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClassName}>Align</label>
+                    <select
+                      value={selected.textAlign}
+                      onChange={(e) => updateRegion(selectedIndex, { textAlign: e.target.value as TextRegion['textAlign'] })}
+                      className={inputClassName}
+                    >
+                      <option value="left">Left</option>
+                      <option value="center">Center</option>
+                      <option value="right">Right</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClassName}>Vertical</label>
+                    <select
+                      value={selected.verticalAlign || 'top'}
+                      onChange={(e) => updateRegion(selectedIndex, { verticalAlign: e.target.value as TextRegion['verticalAlign'] })}
+                      className={inputClassName}
+                    >
+                      <option value="top">Top</option>
+                      <option value="middle">Middle</option>
+                      <option value="bottom">Bottom</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClassName}>Line height</label>
+                    <input
+                      type="number"
+                      step={0.1}
+                      min={0.8}
+                      placeholder="Language default"
+                      value={selected.lineHeight ?? ''}
+                      onChange={(e) => updateRegion(selectedIndex, { lineHeight: parseOptionalNumber(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClassName}>Max lines</label>
+                    <input
+                      type="number"
+                      min={1}
+                      placeholder="No limit"
+                      value={selected.maxLines ?? ''}
+                      onChange={(e) => updateRegion(selectedIndex, { maxLines: parseOptionalNumber(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className={labelClassName}>Text color</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="color"
+                      value={toColorInputValue(selected.color, '#000000')}
+                      onChange={(e) => updateRegion(selectedIndex, { color: e.target.value })}
+                      className="h-8 w-10 shrink-0 rounded border-0 bg-transparent"
+                    />
+                    <input
+                      value={selected.color}
+                      onChange={(e) => updateRegion(selectedIndex, { color: e.target.value })}
+                      className={`${inputClassName} font-mono`}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className={`flex items-center gap-1.5 ${labelClassName}`}>
+                    <input
+                      type="checkbox"
+                      checked={!!selected.backgroundColor}
+                      onChange={(e) => updateRegion(selectedIndex, e.target.checked
+                        ? { backgroundColor: '#ffffff', backgroundPadding: selected.backgroundPadding ?? 8 }
+                        : { backgroundColor: undefined, backgroundPadding: undefined })}
+                    />
+                    Background
+                  </label>
+                  {selected.backgroundColor && (
+                    <div className="flex gap-2">
+                      <input
+                        type="color"
+                        value={toColorInputValue(selected.backgroundColor, '#ffffff')}
+                        onChange={(e) => updateRegion(selectedIndex, { backgroundColor: e.target.value })}
+                        className="h-8 w-10 shrink-0 rounded border-0 bg-transparent"
+                      />
+                      <input
+                        value={selected.backgroundColor}
+                        onChange={(e) => updateRegion(selectedIndex, { backgroundColor: e.target.value })}
+                        className={`${inputClassName} font-mono`}
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        title="Padding (px)"
+                        value={selected.backgroundPadding ?? ''}
+                        onChange={(e) => updateRegion(selectedIndex, { backgroundPadding: parseOptionalNumber(e.target.value) })}
+                        className={`${inputClassName} w-16 shrink-0`}
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {secondaryLanguage && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className={labelClassName}>{secondaryLanguage} size</label>
+                      <input
+                        type="number"
+                        min={4}
+                        placeholder={String(Math.round(selected.fontSize * 0.75))}
+                        value={selected.secondaryFontSize ?? ''}
+                        onChange={(e) => updateRegion(selectedIndex, { secondaryFontSize: parseOptionalNumber(e.target.value) })}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClassName}>{secondaryLanguage} color</label>
+                      <input
+                        type="color"
+                        value={toColorInputValue(selected.secondaryColor || selected.color, '#000000')}
+                        onChange={(e) => updateRegion(selectedIndex, { secondaryColor: e.target.value })}
+                        className="h-8 w-full rounded border-0 bg-transparent"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {(error || notice) && (
+          <p className={`px-6 pb-2 text-xs ${
+            error ? (isDarkMode ? 'text-red-300' : 'text-red-600') : (isDarkMode ? 'text-green-300' : 'text-green-600')
+          }`}>
+            {error || notice}
+          </p>
+        )}
+
+        <div className={`px-6 py-4 border-t flex items-center gap-3 ${
+          isDarkMode ? 'border-slate-700' : 'border-slate-100'
+        }`}>
+          <input
+            value={layoutId}
+            onChange={(e) => setLayoutId(e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, '-'))}
+            placeholder="layout-id"
+            className={`${inputClassName} w-48 font-mono`}
+          />
+          <input
+            value={layoutName}
+            onChange={(e) => setLayoutName(e.target.value)}
+            placeholder="Layout name"
+            className={`${inputClassName} w-48`}
+          />
+          <button
+            onClick={handleSave}
+            disabled={!layoutId || regions.length === 0 || isSaving}
+            className="px-4 py-2 text-sm font-medium rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Layout'}
+          </button>
+          {savedLayout && (
+            <button onClick={handleDelete} className={buttonClassName}>
+              {savedLayout.overridesBuiltIn ? 'Restore Preset' : 'Delete Saved'}
+            </button>
+          )}
+          <button onClick={handleExport} disabled={regions.length === 0} className={buttonClassName}>
+            Export JSON
+          </button>
+          <button onClick={onClose} className={`ml-auto ${buttonClassName}`}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
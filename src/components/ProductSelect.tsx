@@ -1,11 +1,12 @@
 import { useState, useEffect } from 'react';
 import { isSupabaseConfigured } from '../services/supabaseClient';
 import type { ComponentData, Document } from '../services/componentService';
-import { getProducts, getComponentsForProduct, loadComponentImages, COMPONENT_METADATA, getMissingMandatoryComponents } from '../services/componentService';
+import { getProducts, getComponentsForProduct, loadComponentImages, getRepositoryBackend, COMPONENT_METADATA, getMissingMandatoryComponents } from '../services/componentService';
 import { getComponentSummary } from '../utils/promptBuilder';
 
 interface ProductSelectProps {
   onProductSelect: (product: Document, components: ComponentData[]) => void;
+  initialDocumentId?: string;    // Pre-selected (already loaded by the parent), e.g. after an import
   isDarkMode?: boolean;
 }
 
@@ -14,9 +15,9 @@ function getDocumentDisplayName(doc: Document): string {
   return doc.name || doc.title || doc.brand_name || `Document ${doc.id.substring(0, 8)}`;
 }
 
-export function ProductSelect({ onProductSelect, isDarkMode = false }: ProductSelectProps) {
+export function ProductSelect({ onProductSelect, initialDocumentId, isDarkMode = false }: ProductSelectProps) {
   const [documents, setDocuments] = useState<Document[]>([]);
-  const [selectedDocId, setSelectedDocId] = useState<string>('');
+  const [selectedDocId, setSelectedDocId] = useState<string>(initialDocumentId || '');
   const [loading, setLoading] = useState(false);
   const [loadingDocs, setLoadingDocs] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -28,7 +29,7 @@ export function ProductSelect({ onProductSelect, isDarkMode = false }: ProductSe
   // Fetch documents on mount
   useEffect(() => {
     async function fetchDocuments() {
-      if (!isSupabaseConfigured()) {
+      if (getRepositoryBackend() === 'supabase' && !isSupabaseConfigured()) {
         setError('Supabase not configured. Add VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY to .env');
         setLoadingDocs(false);
         return;
@@ -39,7 +40,9 @@ export function ProductSelect({ onProductSelect, isDarkMode = false }: ProductSe
         setDocuments(data);
         console.log('Documents loaded:', data);
       } catch (err) {
-        setError('Failed to load documents');
+        setError(getRepositoryBackend() === 'local'
+          ? 'Failed to load documents from the local repository. Start the API server with: npm run server'
+          : 'Failed to load documents');
         console.error(err);
       } finally {
         setLoadingDocs(false);
@@ -100,6 +103,11 @@ export function ProductSelect({ onProductSelect, isDarkMode = false }: ProductSe
       <div>
         <label className={`block text-xs font-medium mb-1.5 ${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>
           Select Document
+          {getRepositoryBackend() === 'local' && (
+            <span className={`ml-1 font-normal ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+              (local repository)
+            </span>
+          )}
         </label>
         <select
           value={selectedDocId}
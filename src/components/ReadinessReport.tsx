@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react';
+import type { ComponentData, Document } from '../services/componentService';
+import { COMPONENT_METADATA } from '../services/componentService';
+import { buildReadinessReport, reportToCsv, reportToJson } from '../services/readinessService';
+import type { ReadinessReport as Report, ComponentStatus } from '../services/readinessService';
+import { downloadTextFile } from '../utils/downloadUtils';
+
+interface ReadinessReportProps {
+  document: Document;
+  components: ComponentData[];
+  onClose: () => void;
+  isDarkMode?: boolean;
+}
+
+function scoreClassName(score: number, isDarkMode: boolean): string {
+  if (score >= 80) return isDarkMode ? 'text-green-300' : 'text-green-600';
+  if (score >= 50) return isDarkMode ? 'text-amber-300' : 'text-amber-600';
+  return isDarkMode ? 'text-red-300' : 'text-red-600';
+}
+
+function statusClassName(status: ComponentStatus, isDarkMode: boolean): string {
+  if (status === 'filled') return isDarkMode ? 'bg-green-900/50 text-green-300' : 'bg-green-100 text-green-700';
+  if (status === 'empty') return isDarkMode ? 'bg-amber-900/50 text-amber-300' : 'bg-amber-100 text-amber-700';
+  return isDarkMode ? 'bg-red-900/50 text-red-300' : 'bg-red-100 text-red-700';
+}
+
+export function ReadinessReport({ document, components, onClose, isDarkMode = false }: ReadinessReportProps) {
+  const [report, setReport] = useState<Report | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    buildReadinessReport(document, components)
+      .then(result => { if (!cancelled) setReport(result); })
+      .catch(err => {
+        console.error('Failed to build readiness report:', err);
+        if (!cancelled) setError('Failed to build readiness report');
+      });
+
+    return () => { cancelled = true; };
+  }, [document, components]);
+
+  const handleExport = (format: 'csv' | 'json') => {
+    if (!report) return;
+    const filename = `readiness-${report.documentId}.${format}`;
+    if (format === 'csv') {
+      downloadTextFile(reportToCsv(report), 'text/csv', filename);
+    } else {
+      downloadTextFile(reportToJson(report), 'application/json', filename);
+    }
+  };
+
+  const cardClassName = `p-3 rounded-lg border ${isDarkMode ? 'bg-slate-700/50 border-slate-600' : 'bg-slate-50 border-slate-200'}`;
+  const headingClassName = `text-xs font-semibold uppercase tracking-wide mb-2 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`;
+  const buttonClassName = `px-4 py-2 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 ${
+    isDarkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+  }`;
+  const nameOf = (id: keyof typeof COMPONENT_METADATA) => `${id} ${COMPONENT_METADATA[id].name}`;
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-900/60 p-6">
+      <div className={`w-full max-w-4xl max-h-full flex flex-col rounded-xl border shadow-xl ${
+        isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
+      }`}>
+        <div className={`px-6 py-4 border-b flex items-center justify-between ${
+          isDarkMode ? 'border-slate-700' : 'border-slate-100'
+        }`}>
+          <div>
+            <h2 className={`text-sm font-semibold ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>
+              Readiness Report
+            </h2>
+            <p className={`text-xs mt-0.5 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+              {report ? report.documentName : String(document.name || document.id)} · SOMA 53 component spec
+            </p>
+          </div>
+          {report && (
+            <div className={`text-2xl font-bold ${scoreClassName(report.score, isDarkMode)}`}>
+              {report.score}%
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {error && (
+            <p className={`text-sm ${isDarkMode ? 'text-red-300' : 'text-red-600'}`}>{error}</p>
+          )}
+          {!report && !error && (
+            <p className={`text-sm ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>Building report...</p>
+          )}
+
+          {report && (
+            <>
+              <div>
+                <h3 className={headingClassName}>Sections</h3>
+                <div className="grid grid-cols-4 gap-2">
+                  {report.sections.map(section => (
+                    <div key={section.section} className={cardClassName}>
+                      <div className="flex items-center justify-between">
+                        <span className={`text-xs font-medium ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                          {section.section}
+                        </span>
+                        <span className={`text-sm font-bold ${scoreClassName(section.score, isDarkMode)}`}>
+                          {section.score}%
+                        </span>
+                      </div>
+                      <p className={`text-xs mt-1 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                        {section.filled}/{section.total} filled
+                      </p>
+                      {section.missingMandatory.length > 0 && (
+                        <p className={`text-xs mt-1 ${isDarkMode ? 'text-red-300' : 'text-red-600'}`}>
+                          Missing: {section.missingMandatory.join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <h3 className={headingClassName}>Focus Areas</h3>
+                <div className="grid grid-cols-3 gap-2">
+                  {report.focusAreas.map(area => (
+                    <div key={area.focusArea} className={cardClassName}>
+                      <div className="flex items-center justify-between">
+                        <span className={`text-xs font-medium ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                          {area.focusArea}
+                        </span>
+                        <span className={`px-1.5 py-0.5 rounded text-xs ${statusClassName(area.ready ? 'filled' : 'missing', isDarkMode)}`}>
+                          {area.ready ? 'Ready' : `${area.missing.length} missing`}
+                        </span>
+                      </div>
+                      {area.missing.map(id => (
+                        <p key={id} className={`text-xs mt-1 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                          {nameOf(id)} <span className="opacity-70">({COMPONENT_METADATA[id].criticality})</span>
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <h3 className={headingClassName}>Duplicates Across Pages ({report.duplicates.length})</h3>
+                {report.duplicates.length === 0 ? (
+                  <p className={`text-xs ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>No duplicates found</p>
+                ) : (
+                  <div className="space-y-1">
+                    {report.duplicates.map((duplicate, i) => (
+                      <div key={i} className={`flex items-center gap-2 text-xs ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                        <span className={`px-1.5 py-0.5 rounded ${statusClassName('empty', isDarkMode)}`}>{duplicate.kind}</span>
+                        <span className="font-mono">{duplicate.componentIds.join(', ')}</span>
+                        <span className={isDarkMode ? 'text-slate-500' : 'text-slate-400'}>{duplicate.pages.join(', ')}</span>
+                        <span className="flex-1 truncate">{duplicate.preview}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h3 className={headingClassName}>Components</h3>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                  {report.components.map(item => (
+                    <div key={item.componentId} className="flex items-center gap-2 text-xs">
+                      <span className={`px-1.5 py-0.5 rounded ${statusClassName(item.status, isDarkMode)}`}>{item.status}</span>
+                      <span className={`font-mono ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>{item.componentId}</span>
+                      <span className={`flex-1 truncate ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>{item.name}</span>
+                      <span className={isDarkMode ? 'text-slate-500' : 'text-slate-400'}>{item.criticality}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className={`px-6 py-4 border-t flex items-center gap-3 ${
+          isDarkMode ? 'border-slate-700' : 'border-slate-100'
+        }`}>
+          <button onClick={() => handleExport('csv')} disabled={!report} className={buttonClassName}>
+            Export CSV
+          </button>
+          <button onClick={() => handleExport('json')} disabled={!report} className={buttonClassName}>
+            Export JSON
+          </button>
+          <button
+            onClick={onClose}
+            className="ml-auto px-4 py-2 text-sm font-medium rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
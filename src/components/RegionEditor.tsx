@@ -0,0 +1,138 @@
+import { useState, useRef } from 'react';
+import type { EditRegion } from '../services/nanoBananaService';
+
+interface RegionEditorProps {
+  imageData: string;
+  mimeType: string;
+  isApplying: boolean;
+  onApply: (region: EditRegion, instruction: string) => void;
+  onCancel: () => void;
+  isDarkMode?: boolean;
+}
+
+const MIN_REGION_FRACTION = 0.01;
+
+function clampFraction(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+export function RegionEditor({ imageData, mimeType, isApplying, onApply, onCancel, isDarkMode = false }: RegionEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [region, setRegion] = useState<EditRegion | null>(null);
+  const [instruction, setInstruction] = useState('');
+
+  // Pointer position as fractions of the displayed image
+  const toFraction = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: clampFraction((e.clientX - rect.left) / rect.width),
+      y: clampFraction((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (isApplying) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toFraction(e);
+    setDragStart(point);
+    setRegion({ x: point.x, y: point.y, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart) return;
+    const point = toFraction(e);
+    setRegion({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    setDragStart(null);
+    if (region && (region.width < MIN_REGION_FRACTION || region.height < MIN_REGION_FRACTION)) {
+      setRegion(null);
+    }
+  };
+
+  const canApply = !!region && !dragStart && instruction.trim().length > 0 && !isApplying;
+
+  return (
+    <div className="space-y-3">
+      <div
+        ref={containerRef}
+        className={`relative rounded-lg overflow-hidden border select-none touch-none cursor-crosshair ${
+          isDarkMode ? 'bg-slate-700 border-slate-600' : 'bg-slate-50 border-slate-200'
+        }`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        <img
+          src={`data:${mimeType};base64,${imageData}`}
+          alt="LBL being edited"
+          className="w-full h-auto pointer-events-none"
+          draggable={false}
+        />
+        {region && (
+          <div
+            className="absolute border-2 border-dashed border-amber-400 bg-amber-400/15 shadow-[0_0_0_9999px_rgba(15,23,42,0.35)]"
+            style={{
+              left: `${region.x * 100}%`,
+              top: `${region.y * 100}%`,
+              width: `${region.width * 100}%`,
+              height: `${region.height * 100}%`,
+            }}
+          />
+        )}
+        {isApplying && (
+          <div className="absolute inset-0 flex items-center justify-center bg-slate-900/40">
+            <div className="w-10 h-10 border-[3px] border-white rounded-full animate-spin border-t-transparent"></div>
+          </div>
+        )}
+      </div>
+
+      <p className={`text-xs ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+        {region
+          ? `Region: ${Math.round(region.width * 100)}% × ${Math.round(region.height * 100)}% at (${Math.round(region.x * 100)}%, ${Math.round(region.y * 100)}%). Only this area will change.`
+          : 'Drag on the image to select the area to change.'}
+      </p>
+
+      <textarea
+        value={instruction}
+        onChange={(e) => setInstruction(e.target.value)}
+        rows={3}
+        disabled={isApplying}
+        placeholder="e.g. Make the headline larger and bolder"
+        className={`w-full p-3 rounded-lg border text-sm resize-y transition-colors duration-300 ${
+          isDarkMode
+            ? 'bg-slate-900 border-slate-600 text-slate-200 placeholder-slate-500 focus:border-indigo-500'
+            : 'bg-white border-slate-300 text-slate-800 placeholder-slate-400 focus:border-indigo-500'
+        } focus:outline-none focus:ring-2 focus:ring-indigo-500/20`}
+      />
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => region && onApply(region, instruction.trim())}
+          disabled={!canApply}
+          className="flex-1 px-4 py-2.5 text-sm font-medium rounded-lg transition-colors duration-150 bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isApplying ? 'Applying Edit...' : 'Apply Edit'}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={isApplying}
+          className={`px-4 py-2.5 text-sm font-medium rounded-lg transition-colors duration-150 disabled:opacity-50 ${
+            isDarkMode
+              ? 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+              : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+          }`}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import type { ComponentData } from '../services/componentService';
+import { getRevisions, diffRevisions } from '../services/revisionService';
+import type { ComponentRevision } from '../services/revisionService';
+
+interface RevisionHistoryProps {
+  component: ComponentData;     // Reloads whenever the component object changes
+  isBusy: boolean;
+  onRollback: (revision: ComponentRevision) => void;
+  isDarkMode?: boolean;
+}
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '—' : JSON.stringify(value);
+}
+
+export function RevisionHistory({ component, isBusy, onRollback, isDarkMode = false }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<ComponentRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getRevisions(component)
+      .then(data => {
+        if (cancelled) return;
+        setRevisions(data);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Failed to load revisions:', err);
+        if (!cancelled) setError('Failed to load revisions');
+      });
+
+    return () => { cancelled = true; };
+  }, [component]);
+
+  const selectedIndex = revisions.findIndex(r => r.id === selectedId);
+  const selected = revisions[selectedIndex];
+  const previous = selectedIndex > 0 ? revisions[selectedIndex - 1] : null;
+  const diff = selected && previous ? diffRevisions(previous, selected) : null;
+  const latestId = revisions[revisions.length - 1]?.id;
+
+  if (error) {
+    return <p className={`text-xs ${isDarkMode ? 'text-red-300' : 'text-red-600'}`}>{error}</p>;
+  }
+  if (revisions.length === 0) {
+    return (
+      <p className={`text-xs ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+        No revisions yet - the first change records the current version.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1">
+        {[...revisions].reverse().map(revision => (
+          <div
+            key={revision.id}
+            onClick={() => setSelectedId(revision.id === selectedId ? null : revision.id)}
+            className={`flex items-center gap-2 px-2 py-1 rounded text-xs cursor-pointer ${
+              revision.id === selectedId
+                ? isDarkMode ? 'bg-indigo-900/40' : 'bg-indigo-50'
+                : isDarkMode ? 'hover:bg-slate-700/50' : 'hover:bg-slate-50'
+            }`}
+          >
+            <span className={`font-mono ${isDarkMode ? 'text-indigo-300' : 'text-indigo-600'}`}>r{revision.revision}</span>
+            <span className={isDarkMode ? 'text-slate-400' : 'text-slate-500'}>{revision.action}</span>
+            <span className={`flex-1 truncate ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+              {revision.reason}
+            </span>
+            <span className={isDarkMode ? 'text-slate-500' : 'text-slate-400'}>
+              {revision.author} · {formatTimestamp(revision.createdAt)}
+            </span>
+            {revision.id !== latestId && revision.action !== 'delete' && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onRollback(revision); }}
+                disabled={isBusy}
+                className={`px-2 py-0.5 rounded font-medium disabled:opacity-50 ${
+                  isDarkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                }`}
+              >
+                Restore
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {selected && (
+        <div className={`p-2 rounded border text-xs space-y-2 ${isDarkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+          <p className={isDarkMode ? 'text-slate-400' : 'text-slate-500'}>
+            {previous ? `Changes from r${previous.revision} to r${selected.revision}` : `r${selected.revision} (first version)`}
+          </p>
+          <p className={`whitespace-pre-wrap ${isDarkMode ? 'text-slate-200' : 'text-slate-800'}`}>
+            {diff
+              ? diff.content.map((segment, i) => (
+                  <span
+                    key={i}
+                    className={
+                      segment.type === 'added'
+                        ? isDarkMode ? 'bg-green-900/50 text-green-200' : 'bg-green-100 text-green-800'
+                        : segment.type === 'removed'
+                          ? isDarkMode ? 'bg-red-900/50 text-red-200 line-through' : 'bg-red-100 text-red-800 line-through'
+                          : undefined
+                    }
+                  >
+                    {segment.text}
+                  </span>
+                ))
+              : selected.content || <em>No text</em>}
+          </p>
+          {diff && diff.metadata.map(change => (
+            <p key={change.key} className={`font-mono ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+              {change.key}: {formatValue(change.before)} → {formatValue(change.after)}
+            </p>
+          ))}
+          {(diff ? diff.imageChanged : !!selected.imageBase64) && (
+            <div className="flex items-center gap-2">
+              {previous?.imageBase64 && (
+                <img src={`data:image/png;base64,${previous.imageBase64}`} alt={`r${previous.revision}`} className="h-16 rounded border opacity-60" />
+              )}
+              {previous && <span className={isDarkMode ? 'text-slate-500' : 'text-slate-400'}>→</span>}
+              {selected.imageBase64 ? (
+                <img src={`data:image/png;base64,${selected.imageBase64}`} alt={`r${selected.revision}`} className="h-16 rounded border" />
+              ) : (
+                <span className={isDarkMode ? 'text-slate-500' : 'text-slate-400'}>Image removed</span>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState, useRef } from 'react';
+import { BBOX_SCALE } from '../services/segmentationService';
+import type { BBox, DetectedRegion, SegmentationPage } from '../services/segmentationService';
+
+interface SegmentationEditorProps {
+  page: SegmentationPage;
+  regions: DetectedRegion[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (id: string, bbox: BBox) => void;
+  onAdd: (bbox: BBox) => void;
+  isDarkMode?: boolean;
+}
+
+type DragMode = 'draw' | 'move' | 'resize';
+
+interface DragState {
+  mode: DragMode;
+  regionId: string | null;
+  start: { x: number; y: number };
+  original: BBox;
+}
+
+const MIN_BOX_SIZE = 10; // In BBOX_SCALE units
+
+function clamp(value: number): number {
+  return Math.min(Math.max(Math.round(value), 0), BBOX_SCALE);
+}
+
+function normalize(a: { x: number; y: number }, b: { x: number; y: number }): BBox {
+  return [Math.min(a.y, b.y), Math.min(a.x, b.x), Math.max(a.y, b.y), Math.max(a.x, b.x)];
+}
+
+export function SegmentationEditor({
+  page,
+  regions,
+  selectedId,
+  onSelect,
+  onChange,
+  onAdd,
+  isDarkMode = false,
+}: SegmentationEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [draft, setDraft] = useState<BBox | null>(null);
+
+  // Pointer position in bbox units
+  const toPoint = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * BBOX_SCALE),
+      y: clamp(((e.clientY - rect.top) / rect.height) * BBOX_SCALE),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const target = e.target as HTMLElement;
+    const regionId = target.closest<HTMLElement>('[data-region-id]')?.dataset.regionId || null;
+    const region = regions.find(r => r.id === regionId);
+    const point = toPoint(e);
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    if (region) {
+      onSelect(region.id);
+      const mode: DragMode = target.dataset.handle === 'resize' ? 'resize' : 'move';
+      setDrag({ mode, regionId: region.id, start: point, original: region.bbox });
+    } else {
+      onSelect(null);
+      setDrag({ mode: 'draw', regionId: null, start: point, original: [point.y, point.x, point.y, point.x] });
+      setDraft([point.y, point.x, point.y, point.x]);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const point = toPoint(e);
+    const [ymin, xmin, ymax, xmax] = drag.original;
+
+    if (drag.mode === 'draw') {
+      setDraft(normalize(drag.start, point));
+    } else if (drag.mode === 'resize' && drag.regionId) {
+      onChange(drag.regionId, normalize({ x: xmin, y: ymin }, point));
+    } else if (drag.regionId) {
+      // Move without letting the box leave the page
+      const dx = Math.min(Math.max(point.x - drag.start.x, -xmin), BBOX_SCALE - xmax);
+      const dy = Math.min(Math.max(point.y - drag.start.y, -ymin), BBOX_SCALE - ymax);
+      onChange(drag.regionId, [ymin + dy, xmin + dx, ymax + dy, xmax + dx]);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (drag?.mode === 'draw' && draft) {
+      const [ymin, xmin, ymax, xmax] = draft;
+      if (ymax - ymin >= MIN_BOX_SIZE && xmax - xmin >= MIN_BOX_SIZE) {
+        onAdd(draft);
+      }
+    }
+    setDrag(null);
+    setDraft(null);
+  };
+
+  const boxStyle = ([ymin, xmin, ymax, xmax]: BBox) => ({
+    top: `${(ymin / BBOX_SCALE) * 100}%`,
+    left: `${(xmin / BBOX_SCALE) * 100}%`,
+    height: `${((ymax - ymin) / BBOX_SCALE) * 100}%`,
+    width: `${((xmax - xmin) / BBOX_SCALE) * 100}%`,
+  });
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative rounded-lg overflow-hidden border select-none touch-none cursor-crosshair ${
+        isDarkMode ? 'bg-slate-700 border-slate-600' : 'bg-slate-50 border-slate-200'
+      }`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      <img
+        src={`data:${page.mimeType};base64,${page.imageBase64}`}
+        alt={`Page ${page.page}`}
+        className="w-full h-auto pointer-events-none"
+        draggable={false}
+      />
+      {regions.map(region => {
+        const isSelected = region.id === selectedId;
+        return (
+          <div
+            key={region.id}
+            data-region-id={region.id}
+            className={`absolute border-2 cursor-move ${
+              isSelected ? 'border-amber-400 bg-amber-400/20 z-10' : 'border-indigo-500 bg-indigo-500/10'
+            }`}
+            style={boxStyle(region.bbox)}
+          >
+            <span className={`absolute left-0 top-0 px-1 text-[10px] font-mono text-white ${
+              isSelected ? 'bg-amber-500' : 'bg-indigo-600'
+            }`}>
+              {region.componentId}
+            </span>
+            {isSelected && (
+              <span
+                data-handle="resize"
+                className="absolute -right-1.5 -bottom-1.5 w-3 h-3 rounded-sm bg-amber-400 border border-white cursor-se-resize"
+              />
+            )}
+          </div>
+        );
+      })}
+      {draft && (
+        <div
+          className="absolute border-2 border-dashed border-amber-400 bg-amber-400/15"
+          style={boxStyle(draft)}
+        />
+      )}
+    </div>
+  );
+}
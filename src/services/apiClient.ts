@@ -0,0 +1,128 @@
+/**
+ * API Client
+ *
+ * Thin wrapper around the Express API server (server/api.ts)
+ * All Gemini calls go through the server so the API key is never bundled into the frontend
+ */
+
+// Empty base URL uses the Vite dev proxy (/api -> localhost:3001)
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+
+export class ApiError extends Error {
+  status: number;
+  retryAfterMs: number | null; // From the Retry-After header (rate-limited responses)
+
+  constructor(message: string, status: number, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Send JSON to the API server and return the parsed response
+ * Throws ApiError with the server's error details on non-2xx responses
+ */
+async function sendJson<T>(
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE',
+  path: string,
+  body: unknown,
+  options: { signal?: AbortSignal } = {}
+): Promise<T> {
+  let response: Response;
+
+  try {
+    response = await fetch(`${API_BASE_URL}${path}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: options.signal,
+    });
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    throw new ApiError('API server is not reachable. Start it with: npm run server', 0);
+  }
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const message = data.details || data.error || `Request failed with status ${response.status}`;
+    throw new ApiError(message, response.status, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+
+  return data as T;
+}
+
+/**
+ * POST JSON to the API server and return the parsed response
+ */
+export function postJson<T>(path: string, body: unknown, options: { signal?: AbortSignal } = {}): Promise<T> {
+  return sendJson<T>('POST', path, body, options);
+}
+
+/**
+ * PUT JSON to the API server and return the parsed response
+ */
+export function putJson<T>(path: string, body: unknown): Promise<T> {
+  return sendJson<T>('PUT', path, body);
+}
+
+/**
+ * PATCH JSON to the API server and return the parsed response
+ */
+export function patchJson<T>(path: string, body: unknown): Promise<T> {
+  return sendJson<T>('PATCH', path, body);
+}
+
+/**
+ * DELETE on the API server
+ */
+export function deleteJson<T>(path: string): Promise<T> {
+  return sendJson<T>('DELETE', path, undefined);
+}
+
+/**
+ * GET JSON from the API server
+ */
+export async function getJson<T>(path: string): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}${path}`);
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new ApiError(data.error || `Request failed with status ${response.status}`, response.status);
+  }
+
+  return data as T;
+}
+
+export interface ApiStatus {
+  reachable: boolean;
+  configured: boolean;
+  provider: string | null;
+}
+
+/**
+ * Check whether the API server is running and its image provider is configured
+ */
+export async function checkApiStatus(): Promise<ApiStatus> {
+  try {
+    const status = await getJson<{ provider: string; configured: boolean }>('/api/status');
+    return { reachable: true, configured: status.configured, provider: status.provider };
+  } catch {
+    return { reachable: false, configured: false, provider: null };
+  }
+}
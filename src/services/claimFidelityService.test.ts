@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { checkClaimFidelity, extractNumericExpressions } from './claimFidelityService';
+import type { ComponentData, ComponentId } from './componentService';
+import type { OcrResult } from './ocrService';
+
+function component(componentId: ComponentId, content: string): ComponentData {
+  return {
+    id: `doc-${componentId}`,
+    product_id: 'doc',
+    component_id: componentId,
+    content,
+    image_path: null,
+    image_base64: null,
+    bbox: null,
+    metadata: null,
+    created_at: '',
+    updated_at: '',
+  };
+}
+
+function ocr(...lines: string[]): OcrResult {
+  return {
+    blocks: lines.map((text, i) => ({ text, bbox: [i * 100, 0, i * 100 + 80, 1000] })),
+    text: lines.join('\n'),
+  };
+}
+
+describe('extractNumericExpressions', () => {
+  it('canonicalizes ranges, units and p-values', () => {
+    const keys = extractNumericExpressions('Reduces exacerbations by 12%-15% (p<0.001)\nRelief within 5 minutes, 1,200 mg')
+      .map(expression => expression.key);
+    expect(keys).toEqual(['p<0.001', '12-15%', '5min', '1200mg']);
+  });
+
+  it('keeps the line as context', () => {
+    const [expression] = extractNumericExpressions('First line\n  Improves lung function by 120 ml  ');
+    expect(expression.context).toBe('Improves lung function by 120 ml');
+    expect(expression.kind).toBe('quantity');
+  });
+});
+
+describe('checkClaimFidelity', () => {
+  const components = [
+    component('SOL_01', 'Quick onset of action within 5 mins'),
+    component('EVID_01', 'Reduces exacerbations by 12%-15%\nImproves lung function by 120 ml'),
+  ];
+
+  it('passes when every claim number is printed as written', () => {
+    const report = checkClaimFidelity(components, ocr(
+      'Quick onset of action within 5 min',
+      'Reduces exacerbations by 12-15%',
+      'Improves lung function by 120 ml',
+    ));
+    expect(report.passed).toBe(true);
+    expect(report.counts).toEqual({ matched: 3, altered: 0, dropped: 0, hallucinated: 0 });
+  });
+
+  it('reports altered, dropped and hallucinated numbers', () => {
+    const report = checkClaimFidelity(components, ocr(
+      'Reduces exacerbations by 15%',
+      'Relief for 24 hrs',
+    ));
+    expect(report.passed).toBe(false);
+    expect(report.counts).toEqual({ matched: 0, altered: 1, dropped: 2, hallucinated: 1 });
+
+    const altered = report.findings.find(finding => finding.status === 'altered');
+    expect(altered?.source?.key).toBe('12-15%');
+    expect(altered?.output?.key).toBe('15%');
+    expect(altered?.bbox).toEqual([0, 0, 80, 1000]);
+
+    const hallucinated = report.findings.find(finding => finding.status === 'hallucinated');
+    expect(hallucinated?.output?.key).toBe('24h');
+    expect(hallucinated?.componentId).toBeNull();
+  });
+
+  it('ignores numbers that appear in non-claim components', () => {
+    const report = checkClaimFidelity(
+      [...components, component('REG_02', '1. Smith et al. Lancet 2021')],
+      ocr('Quick onset of action within 5 mins', 'Reduces exacerbations by 12%-15%', 'Improves lung function by 120 ml', 'Lancet 2021'),
+    );
+    expect(report.counts.hallucinated).toBe(0);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Claim Fidelity Service
+ *
+ * Compares the numbers in the source claims (SOL_01, EVID_01, SAFE_01) with the numbers OCR'd
+ * from the generated artwork: image models paraphrase "12%-15%" into "15%" or invent "120 ml"
+ * Every expression ends up matched, altered (same unit and context, different value),
+ * dropped (missing from the artwork) or hallucinated (in the artwork but in no component)
+ */
+
+import type { ComponentData, ComponentId } from './componentService';
+import { getStructuredContent } from './structuredExtraction';
+import type { OcrResult } from './ocrService';
+import type { BBox } from './segmentationService';
+
+export const CLAIM_COMPONENTS: ComponentId[] = ['SOL_01', 'EVID_01', 'SAFE_01'];
+
+export type ExpressionKind = 'percent' | 'time' | 'quantity' | 'count' | 'p-value' | 'number';
+
+export interface NumericExpression {
+  text: string;                // As written
+  key: string;                 // Canonical form, e.g. "12-15%", "120ml", "p<0.001"
+  values: number[];            // One value, or two for a range
+  unit: string;                // Canonical unit ('' for plain numbers)
+  kind: ExpressionKind;
+  context: string;             // Line the expression appears in
+}
+
+export type ClaimStatus = 'matched' | 'altered' | 'dropped' | 'hallucinated';
+
+export interface ClaimFinding {
+  status: ClaimStatus;
+  componentId: ComponentId | null;   // Source component (null when hallucinated)
+  source: NumericExpression | null;
+  output: NumericExpression | null;
+  bbox: BBox | null;                 // OCR block in the artwork (null when dropped)
+}
+
+export interface ClaimFidelityReport {
+  passed: boolean;
+  findings: ClaimFinding[];
+  counts: Record<ClaimStatus, number>;
+}
+
+// Canonical unit per spelling (lowercase)
+const UNIT_ALIASES: Record<string, string> = {
+  '%': '%',
+  mg: 'mg', mcg: 'mcg', 'µg': 'mcg', g: 'g', ml: 'ml', l: 'l',
+  min: 'min', mins: 'min', minute: 'min', minutes: 'min',
+  h: 'h', hr: 'h', hrs: 'h', hour: 'h', hours: 'h',
+  day: 'day', days: 'day',
+  wk: 'week', wks: 'week', week: 'week', weeks: 'week',
+  month: 'month', months: 'month',
+  yr: 'year', yrs: 'year', year: 'year', years: 'year',
+  x: 'x', times: 'x', fold: 'x',
+  tab: 'tablet', tabs: 'tablet', tablet: 'tablet', tablets: 'tablet',
+  capsule: 'capsule', capsules: 'capsule',
+  puff: 'puff', puffs: 'puff',
+};
+
+const UNIT_KINDS: Record<string, ExpressionKind> = {
+  '%': 'percent',
+  mg: 'quantity', mcg: 'quantity', g: 'quantity', ml: 'quantity', l: 'quantity',
+  min: 'time', h: 'time', day: 'time', week: 'time', month: 'time', year: 'time',
+  x: 'count', tablet: 'count', capsule: 'count', puff: 'count',
+};
+
+const NUMBER = String.raw`\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?`;
+// Longest first so "minutes" wins over "min"
+const UNITS = Object.keys(UNIT_ALIASES).sort((a, b) => b.length - a.length).join('|');
+const EXPRESSION_PATTERN = new RegExp(
+  String.raw`(?<![\p{L}\p{N}.,/-])(${NUMBER})\s*(%)?(?:\s*(?:-|–|—|to)\s*(${NUMBER}))?(?:\s*(${UNITS}))?(?![\p{L}\p{N}])`,
+  'giu'
+);
+const P_VALUE_PATTERN = /\bp\s*([<>=≤≥])\s*(0?\.\d+)/gi;
+
+// Context words must overlap this much for a different value to count as an alteration
+const MIN_CONTEXT_OVERLAP = 0.2;
+
+function parseNumber(text: string): number {
+  return Number(text.replace(/,/g, ''));
+}
+
+function contextWords(text: string): Set<string> {
+  return new Set((text.toLowerCase().match(/\p{L}{3,}/gu) || []));
+}
+
+function contextOverlap(a: string, b: string): number {
+  const wordsA = contextWords(a);
+  const wordsB = contextWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / Math.min(wordsA.size, wordsB.size);
+}
+
+/**
+ * All numeric, percentage, time and p-value expressions in a text, one context per line
+ */
+export function extractNumericExpressions(text: string): NumericExpression[] {
+  const expressions: NumericExpression[] = [];
+
+  for (const line of text.split('\n')) {
+    const context = line.trim();
+
+    for (const match of context.matchAll(P_VALUE_PATTERN)) {
+      const operator = match[1] === '≤' ? '<=' : match[1] === '≥' ? '>=' : match[1];
+      const value = Number(match[2]);
+      expressions.push({ text: match[0], key: `p${operator}${value}`, values: [value], unit: 'p', kind: 'p-value', context });
+    }
+
+    const withoutPValues = context.replace(P_VALUE_PATTERN, ' ');
+    for (const match of withoutPValues.matchAll(EXPRESSION_PATTERN)) {
+      const [, first, percent, second, unitText] = match;
+      const unit = UNIT_ALIASES[(unitText || percent || '').toLowerCase()] || '';
+      const values = second ? [parseNumber(first), parseNumber(second)] : [parseNumber(first)];
+      expressions.push({
+        text: match[0].trim(),
+        key: `${values.join('-')}${unit}`,
+        values,
+        unit,
+        kind: UNIT_KINDS[unit] || 'number',
+        context,
+      });
+    }
+  }
+
+  return expressions;
+}
+
+/**
+ * Claim text of a source component, including structured fields the readable text may omit
+ */
+function getClaimText(component: ComponentData): string {
+  const lines = [component.content || ''];
+
+  const claims = getStructuredContent(component, 'EVID_01');
+  claims?.forEach(claim => lines.push([claim.claim, claim.value, claim.pValue].filter(Boolean).join(' ')));
+
+  const dosage = getStructuredContent(component, 'SAFE_01');
+  dosage?.forEach(item => lines.push([item.dose, item.frequency, item.duration].filter(Boolean).join(' ')));
+
+  return lines.join('\n');
+}
+
+/**
+ * Align source claim numbers with the numbers found in the artwork
+ */
+export function checkClaimFidelity(components: ComponentData[], ocr: OcrResult): ClaimFidelityReport {
+  const sources = components
+    .filter(c => CLAIM_COMPONENTS.includes(c.component_id))
+    .flatMap(component => extractNumericExpressions(getClaimText(component))
+      .map(expression => ({ componentId: component.component_id, expression })));
+
+  // Unique per component + key: a number repeated in one component is one claim
+  const uniqueSources = sources.filter((source, index) =>
+    sources.findIndex(s => s.componentId === source.componentId && s.expression.key === source.expression.key) === index
+  );
+
+  const outputs = ocr.blocks.flatMap(block =>
+    extractNumericExpressions(block.text).map(expression => ({ expression, bbox: block.bbox }))
+  );
+
+  // Any number printed in any component (e.g. reference years) is not a hallucination
+  const known = components.flatMap(c => extractNumericExpressions(getClaimText(c)));
+  const knownKeys = new Set(known.map(e => e.key));
+  const knownValues = new Set(known.flatMap(e => e.values));
+
+  const findings: ClaimFinding[] = [];
+  const usedOutputs = new Set<number>();
+
+  // Exact matches first, so an alteration never steals a correctly printed number
+  const unmatchedSources = uniqueSources.filter(({ componentId, expression }) => {
+    const index = outputs.findIndex(o => o.expression.key === expression.key);
+    if (index === -1) return true;
+    outputs.forEach((o, i) => { if (o.expression.key === expression.key) usedOutputs.add(i); });
+    findings.push({ status: 'matched', componentId, source: expression, output: outputs[index].expression, bbox: outputs[index].bbox });
+    return false;
+  });
+
+  for (const { componentId, expression } of unmatchedSources) {
+    let bestIndex = -1;
+    let bestOverlap = MIN_CONTEXT_OVERLAP;
+    outputs.forEach((output, index) => {
+      if (usedOutputs.has(index) || output.expression.unit !== expression.unit) return;
+      const overlap = contextOverlap(expression.context, output.expression.context);
+      if (overlap >= bestOverlap) {
+        bestIndex = index;
+        bestOverlap = overlap;
+      }
+    });
+
+    if (bestIndex === -1) {
+      findings.push({ status: 'dropped', componentId, source: expression, output: null, bbox: null });
+    } else {
+      usedOutputs.add(bestIndex);
+      findings.push({ status: 'altered', componentId, source: expression, output: outputs[bestIndex].expression, bbox: outputs[bestIndex].bbox });
+    }
+  }
+
+  outputs.forEach((output, index) => {
+    if (usedOutputs.has(index) || knownKeys.has(output.expression.key)) return;
+    // Plain numbers are too ambiguous to flag unless the value appears nowhere in the sources
+    if (output.expression.kind === 'number' && knownValues.has(output.expression.values[0])) return;
+    findings.push({ status: 'hallucinated', componentId: null, source: null, output: output.expression, bbox: output.bbox });
+  });
+
+  const counts: Record<ClaimStatus, number> = { matched: 0, altered: 0, dropped: 0, hallucinated: 0 };
+  findings.forEach(finding => counts[finding.status]++);
+
+  return { passed: counts.altered + counts.dropped + counts.hallucinated === 0, findings, counts };
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { findCitationMarkers } from './complianceService';
+
+describe('findCitationMarkers', () => {
+  it('reads single and multi-digit superscripts', () => {
+    expect(findCitationMarkers('Efficacy¹ and safety¹²')).toEqual([1, 12]);
+  });
+
+  it('expands superscript ranges and lists', () => {
+    expect(findCitationMarkers('Proven¹⁻³ and tolerated⁵,⁶')).toEqual([1, 2, 3, 5, 6]);
+  });
+
+  it('reads bracketed markers with lists and ranges', () => {
+    expect(findCitationMarkers('Reduces exacerbations [2] in COPD [4, 7-9]')).toEqual([2, 4, 7, 8, 9]);
+  });
+
+  it('returns each number once, sorted', () => {
+    expect(findCitationMarkers('A³ B[1] C¹ D[3]')).toEqual([1, 3]);
+  });
+
+  it('ignores plain numbers', () => {
+    expect(findCitationMarkers('Relief within 5 mins, 12%-15% fewer exacerbations')).toEqual([]);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Regulatory Compliance Service
+ *
+ * Post-generation validator: OCRs the generated LBL and checks it against the source components
+ * - Mandatory regulatory text (REG_05, REG_01, REG_02) appears verbatim
+ * - Every citation marker (REG_03 convention: superscripts on claims) has a printed reference
+ * - No text appears that is not in the source components
+ */
+
+import { COMPONENT_METADATA } from './componentService';
+import type { ComponentData, ComponentId } from './componentService';
+import { getStructuredContent } from './structuredExtraction';
+import type { Reference } from './structuredExtraction';
+import { ocrImage } from './ocrService';
+import type { OcrBlock, OcrResult } from './ocrService';
+
+// Regulatory text that must be reproduced word for word
+const VERBATIM_COMPONENTS: ComponentId[] = ['REG_05', 'REG_01', 'REG_02'];
+
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+export interface ComplianceCheck {
+  id: string;
+  label: string;
+  passed: boolean;
+  issues: string[];
+  blocks: OcrBlock[];          // Offending OCR blocks, for highlighting
+}
+
+export interface ComplianceReport {
+  passed: boolean;
+  checks: ComplianceCheck[];
+  ocr: OcrResult;
+  checkedAt: string;
+}
+
+/**
+ * Normalize for verbatim comparison: OCR line wraps, hyphenation, quote and dash variants, case
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/-\s*\n\s*/g, '')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+// Citation markers are checked separately, so they never break a text match
+function stripMarkers(text: string): string {
+  return text
+    .replace(new RegExp(`[${SUPERSCRIPT_DIGITS}⁻]+`, 'g'), '')
+    .replace(/\[\d+(?:\s*[-,]\s*\d+)*\]/g, '');
+}
+
+function tokenize(text: string): string[] {
+  return stripMarkers(text).toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+function truncate(text: string, maxChars = 80): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+}
+
+function fromSuperscript(text: string): number {
+  return Number([...text].map(c => SUPERSCRIPT_DIGITS.indexOf(c)).join(''));
+}
+
+/**
+ * Citation numbers referenced in a text: superscripts (¹, ¹², ¹⁻³, ¹,²) and bracketed ([1], [1,2], [1-3])
+ */
+export function findCitationMarkers(text: string): number[] {
+  const numbers = new Set<number>();
+  const addRange = (from: number, to: number) => {
+    for (let n = from; n <= Math.min(to, from + 50); n++) numbers.add(n);
+  };
+
+  const superscript = new RegExp(`([${SUPERSCRIPT_DIGITS}]+)(?:⁻([${SUPERSCRIPT_DIGITS}]+))?`, 'g');
+  for (const match of text.matchAll(superscript)) {
+    const from = fromSuperscript(match[1]);
+    addRange(from, match[2] ? fromSuperscript(match[2]) : from);
+  }
+
+  for (const match of text.matchAll(/\[(\d+(?:\s*[-,]\s*\d+)*)\]/g)) {
+    for (const part of match[1].split(',')) {
+      const [from, to] = part.split('-').map(n => Number(n.trim()));
+      addRange(from, to ?? from);
+    }
+  }
+
+  return [...numbers].sort((a, b) => a - b);
+}
+
+/**
+ * References from REG_02: structured data when reviewed, otherwise numbered lines of its text
+ */
+function getReferences(component: ComponentData | undefined): Reference[] {
+  const structured = getStructuredContent(component, 'REG_02');
+  if (structured) return structured;
+
+  return (component?.content || '')
+    .split('\n')
+    .map(line => line.match(/^\s*(\d+)[.)]?\s+(.+)$/))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(match => ({ number: Number(match[1]), text: match[2].trim() }));
+}
+
+function getSourceText(component: ComponentData): string {
+  return component.content?.trim() || '';
+}
+
+/**
+ * Lines of a source text missing from the OCR output (line breaks inside a line may differ)
+ */
+function findMissingLines(source: string, ocrText: string): string[] {
+  return source
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => tokenize(line).length > 0)
+    .filter(line => !ocrText.includes(normalizeText(stripMarkers(line))));
+}
+
+function checkVerbatim(componentId: ComponentId, components: ComponentData[], ocrText: string): ComplianceCheck {
+  const label = `${componentId} ${COMPONENT_METADATA[componentId].name} printed verbatim`;
+  const sources = components.filter(c => c.component_id === componentId && getSourceText(c));
+
+  if (sources.length === 0) {
+    return { id: componentId, label, passed: false, issues: [`${componentId} has no text in the repository`], blocks: [] };
+  }
+
+  const issues = sources.flatMap(source =>
+    findMissingLines(getSourceText(source), ocrText).map(line => `Missing: "${truncate(line)}"`)
+  );
+  return { id: componentId, label, passed: issues.length === 0, issues, blocks: [] };
+}
+
+function checkCitations(components: ComponentData[], ocr: OcrResult, ocrText: string): ComplianceCheck {
+  const references = getReferences(components.find(c => c.component_id === 'REG_02'));
+  const issues: string[] = [];
+  const blocks: OcrBlock[] = [];
+
+  for (const block of ocr.blocks) {
+    const blockIssues: string[] = [];
+    for (const number of findCitationMarkers(block.text)) {
+      const reference = references.find(r => r.number === number);
+      if (!reference) {
+        blockIssues.push(`Marker ${number} in "${truncate(block.text, 50)}" has no reference in REG_02`);
+      } else if (!ocrText.includes(normalizeText(reference.text))) {
+        blockIssues.push(`Reference ${number} is cited in "${truncate(block.text, 50)}" but not printed`);
+      }
+    }
+    if (blockIssues.length > 0) {
+      issues.push(...blockIssues);
+      blocks.push(block);
+    }
+  }
+
+  return { id: 'REG_03', label: 'Every citation marker has a matching reference', passed: issues.length === 0, issues, blocks };
+}
+
+function checkForeignText(components: ComponentData[], sourceNames: string[], ocr: OcrResult): ComplianceCheck {
+  const vocabulary = new Set<string>();
+  const addText = (text: string | null | undefined) => tokenize(text || '').forEach(token => vocabulary.add(token));
+
+  sourceNames.forEach(addText);
+  for (const component of components) {
+    addText(component.content);
+    const structured = component.metadata?.structured;
+    if (structured) addText(JSON.stringify(structured));
+  }
+
+  const issues: string[] = [];
+  const blocks: OcrBlock[] = [];
+  for (const block of ocr.blocks) {
+    const unknown = [...new Set(tokenize(block.text).filter(token => token.length > 1 && !vocabulary.has(token)))];
+    if (unknown.length > 0) {
+      issues.push(`"${truncate(block.text, 50)}" - not in sources: ${unknown.slice(0, 6).join(', ')}`);
+      blocks.push(block);
+    }
+  }
+
+  return { id: 'SOURCE', label: 'All text comes from the source components', passed: issues.length === 0, issues, blocks };
+}
+
+/**
+ * Check OCR output against the source components
+ */
+export function checkCompliance(ocr: OcrResult, components: ComponentData[], sourceNames: string[] = []): ComplianceReport {
+  const ocrText = normalizeText(stripMarkers(ocr.text));
+
+  const checks = [
+    ...VERBATIM_COMPONENTS.map(id => checkVerbatim(id, components, ocrText)),
+    checkCitations(components, ocr, ocrText),
+    checkForeignText(components, sourceNames, ocr),
+  ];
+
+  return {
+    passed: checks.every(check => check.passed),
+    checks,
+    ocr,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * OCR a generated LBL and validate it
+ * sourceNames are extra allowed strings (document, brand and company names)
+ */
+export async function runComplianceCheck(
+  imageBase64: string,
+  mimeType: string,
+  components: ComponentData[],
+  sourceNames: string[] = [],
+  signal?: AbortSignal
+): Promise<ComplianceReport> {
+  const ocr = await ocrImage(imageBase64, mimeType, signal);
+  const report = checkCompliance(ocr, components, sourceNames);
+  console.log(`[Compliance] ${report.passed ? 'PASS' : 'FAIL'} - ${report.checks.filter(c => !c.passed).length} failed checks`);
+  return report;
+}
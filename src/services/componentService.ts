@@ -1,4 +1,14 @@
 import { supabase, isSupabaseConfigured } from './supabaseClient';
+import {
+  getLocalDocuments,
+  getLocalComponents,
+  createLocalDocument,
+  addLocalComponent,
+  updateLocalComponent,
+  deleteLocalComponent,
+} from './localRepositoryService';
+import { recordRevision, ensureBaseline } from './revisionService';
+import type { ComponentRevision, RevisionInfo } from './revisionService';
 
 // Component sections based on SOMA 53 component spec
 export type ComponentSection =
@@ -103,7 +113,14 @@ export const COMPONENT_METADATA: Record<ComponentId, { name: string; criticality
   REG_09: { name: 'Abbreviations', criticality: 'SUPPORTING', type: 'Data', section: 'REG' },
 };
 
-// Component data from Supabase repository table
+// Default selected components per focus area
+export const DEFAULT_SELECTED_COMPONENTS: Record<string, ComponentId[]> = {
+  'Efficacy': ['INIT_01a', 'INIT_01b', 'INIT_03', 'SOL_01', 'SOL_02', 'EVID_01', 'EVID_03', 'INS_04', 'REG_05'],
+  'Safety': ['INIT_01a', 'INIT_01b', 'SOL_02', 'SAFE_01', 'SAFE_02', 'SAFE_03', 'SAFE_04', 'SAFE_05', 'INS_04', 'REG_05'],
+  'Evidence': ['INIT_01a', 'INIT_01b', 'SOL_02', 'EVID_01', 'EVID_03', 'EVID_05', 'REG_02', 'INS_04', 'REG_05'],
+};
+
+// Component data from Supabase repository table (or the local repository)
 export interface ComponentData {
   id: string;
   product_id: string;
@@ -201,8 +218,24 @@ export async function getDocumentsFromStorage(): Promise<Document[]> {
 // Legacy alias for compatibility
 export type Product = Document;
 
-// Smart getProducts - try database first, then storage
+export type RepositoryBackend = 'supabase' | 'local';
+
+/**
+ * Where documents and components are read from
+ * VITE_COMPONENT_REPOSITORY picks explicitly; otherwise Supabase when configured, else the local repository
+ */
+export function getRepositoryBackend(): RepositoryBackend {
+  const configured = import.meta.env.VITE_COMPONENT_REPOSITORY;
+  if (configured === 'supabase' || configured === 'local') return configured;
+  return isSupabaseConfigured() ? 'supabase' : 'local';
+}
+
+// Smart getProducts - local repository, or Supabase database first, then storage
 export async function getProducts(): Promise<Document[]> {
+  if (getRepositoryBackend() === 'local') {
+    return getLocalDocuments();
+  }
+
   // Try database first
   const dbDocs = await getDocuments();
   if (dbDocs.length > 0) {
@@ -215,10 +248,14 @@ export async function getProducts(): Promise<Document[]> {
 }
 
 /**
- * Fetch all components for a specific document from Storage
+ * Fetch all components for a specific document from Storage (or the local repository)
  * Components are stored in: component-images/documents/{docId}/page-{n}/{COMPONENT_ID}-{index}.jpg
  */
 export async function getComponentsForProduct(documentId: string): Promise<ComponentData[]> {
+  if (getRepositoryBackend() === 'local') {
+    return getLocalComponents(documentId);
+  }
+
   if (!isSupabaseConfigured() || !supabase) {
     console.warn('Supabase not configured');
     return [];
@@ -287,17 +324,391 @@ export async function getComponentsForProduct(documentId: string): Promise<Compo
     }
 
     console.log('Components found:', components.length);
-    return components;
+    return await mergeRepositoryRows(documentId, components);
   } catch (err) {
     console.error('Error fetching components:', err);
     throw err;
   }
 }
 
+// Text-only components are listed as "<documentId>-row-<repositories.id>"
+const ROW_ID_MARKER = '-row-';
+
+/**
+ * Storage file (page folder + filename) a component or repositories row belongs to
+ */
+function getFileKey(component: Pick<ComponentData, 'metadata'>): { page: string; filename: string } | null {
+  const { page, filename } = component.metadata || {};
+  return typeof page === 'string' && typeof filename === 'string' ? { page, filename } : null;
+}
+
+/**
+ * Identifies the repositories row of one component: the listed row for text-only components,
+ * the row merged onto its file when listed (metadata.rowId), otherwise the row keyed by its file
+ * (a document can have several files with the same ComponentId)
+ */
+function getRowKey(component: ComponentData): { rowId: string } | { page: string; filename: string } | null {
+  const rowPrefix = `${component.product_id}${ROW_ID_MARKER}`;
+  if (component.id.startsWith(rowPrefix)) return { rowId: component.id.slice(rowPrefix.length) };
+  const rowId = component.metadata?.rowId;
+  if (typeof rowId === 'string' || typeof rowId === 'number') return { rowId: String(rowId) };
+  return getFileKey(component);
+}
+
+// rowId only tells the app which row to write, it is not stored in the row
+function withoutRowId(metadata: Record<string, unknown> | null): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(metadata || {}).filter(([key]) => key !== 'rowId'));
+}
+
+/**
+ * Merge content edited in the app (repositories table) into components listed from Storage
+ * Rows are matched to their file by page + filename; older rows without them fill the first file
+ * of their ComponentId, and rows without a file become text-only components
+ * Merged components keep the row's id (metadata.rowId), so edits update that row
+ */
+async function mergeRepositoryRows(documentId: string, components: ComponentData[]): Promise<ComponentData[]> {
+  if (!supabase) return components;
+
+  const { data: rows, error } = await supabase
+    .from('repositories')
+    .select('*')
+    .eq('product_id', documentId);
+
+  if (error) {
+    console.warn('Could not load repository rows:', error);
+    return components;
+  }
+
+  // File rows first, so older unkeyed rows cannot take their files
+  const sorted = ([...(rows || [])] as ComponentData[]).sort((a, b) => Number(!!getFileKey(b)) - Number(!!getFileKey(a)));
+
+  const merged = [...components];
+  for (const row of sorted) {
+    const file = getFileKey(row);
+    const index = file
+      ? merged.findIndex(c => c.component_id === row.component_id && c.metadata?.page === file.page && c.metadata?.filename === file.filename)
+      : merged.findIndex(c => c.component_id === row.component_id && c.content === null);
+    if (index === -1) {
+      merged.push({ ...row, id: `${documentId}${ROW_ID_MARKER}${row.id}` });
+      continue;
+    }
+    merged[index] = {
+      ...merged[index],
+      content: row.content,
+      metadata: { ...row.metadata, ...merged[index].metadata, rowId: row.id },
+      updated_at: row.updated_at || merged[index].updated_at,
+    };
+  }
+  return merged;
+}
+
+// One component image to write into a new document
+export interface NewComponent {
+  componentId: ComponentId;
+  page: number;                  // 1-based page number
+  imageBase64: string;           // PNG data
+  bbox: number[] | null;         // [ymin, xmin, ymax, xmax] on the page, 0-1000
+}
+
+function base64ToBlob(base64: string, type: string): Blob {
+  const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  return new Blob([bytes], { type });
+}
+
+/**
+ * Create a new document from component images
+ * Uses the same documents/{docId}/page-{n}/{COMPONENT_ID}-{index}.png layout in both backends
+ */
+export async function createDocument(
+  details: Omit<Document, 'id'>,
+  components: NewComponent[]
+): Promise<Document> {
+  if (getRepositoryBackend() === 'local') {
+    return createLocalDocument(details, components);
+  }
+
+  if (!isSupabaseConfigured() || !supabase) {
+    throw new Error('Supabase not configured');
+  }
+
+  const documentId = crypto.randomUUID();
+  const counters = new Map<string, number>();
+
+  for (const component of components) {
+    const key = `${component.page}/${component.componentId}`;
+    const n = (counters.get(key) || 0) + 1;
+    counters.set(key, n);
+
+    const filePath = `documents/${documentId}/page-${component.page}/${component.componentId}-${n}.png`;
+    const { error } = await supabase.storage
+      .from('component-images')
+      .upload(filePath, base64ToBlob(component.imageBase64, 'image/png'), { contentType: 'image/png' });
+
+    if (error) {
+      console.error(`Error uploading ${filePath}:`, error);
+      throw error;
+    }
+  }
+
+  const document: Document = { ...details, id: documentId, created_at: new Date().toISOString() };
+
+  // Storage listing is the fallback, so a failed insert still leaves a usable document
+  const { error } = await supabase.from('documents').insert(document);
+  if (error) {
+    console.warn('Could not add document row, it will be listed from storage:', error);
+  }
+
+  return document;
+}
+
+// Fields that can be changed on a component (undefined = unchanged)
+export interface ComponentChanges {
+  imageBase64?: string;                 // PNG data; replaces the image
+  content?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Write content/metadata to the component's row in the repositories table (created if missing)
+ * File rows always store the page + filename that identify them, which also keys older rows
+ * that were matched by ComponentId
+ */
+async function saveRepositoryRow(component: ComponentData, changes: ComponentChanges): Promise<string | null> {
+  if (!supabase || (changes.content === undefined && changes.metadata === undefined)) return null;
+
+  const key = getRowKey(component);
+  const file = getFileKey(component);
+  const row = {
+    ...(changes.content !== undefined ? { content: changes.content } : {}),
+    ...(changes.metadata !== undefined || file
+      ? { metadata: { ...withoutRowId(changes.metadata ?? component.metadata), ...file } }
+      : {}),
+    updated_at: new Date().toISOString(),
+  };
+
+  if (key) {
+    const query = supabase.from('repositories').update(row).eq('product_id', component.product_id);
+    const { data, error } = await ('rowId' in key
+      ? query.eq('id', key.rowId)
+      : query.eq('component_id', component.component_id).eq('metadata->>page', key.page).eq('metadata->>filename', key.filename)
+    ).select('id');
+
+    if (error) throw error;
+    if (data && data.length > 0) return String(data[0].id);
+  }
+
+  const { data: inserted, error: insertError } = await supabase
+    .from('repositories')
+    .insert({ product_id: component.product_id, component_id: component.component_id, ...row })
+    .select('id')
+    .single();
+  if (insertError) throw insertError;
+  return String(inserted.id);
+}
+
+async function uploadComponentImage(filePath: string, imageBase64: string): Promise<string> {
+  const { error } = await supabase!.storage
+    .from('component-images')
+    .upload(filePath, base64ToBlob(imageBase64, 'image/png'), { contentType: 'image/png', upsert: true });
+
+  if (error) {
+    console.error(`Error uploading ${filePath}:`, error);
+    throw error;
+  }
+  // Cache-bust so a replaced image is fetched again
+  return `${supabase!.storage.from('component-images').getPublicUrl(filePath).data.publicUrl}?v=${Date.now()}`;
+}
+
+async function addRepositoryComponent(
+  documentId: string,
+  componentId: ComponentId,
+  changes: ComponentChanges
+): Promise<ComponentData> {
+  if (getRepositoryBackend() === 'local') {
+    const added = await addLocalComponent(documentId, componentId, changes);
+    return { ...added, image_base64: changes.imageBase64 ?? null };
+  }
+
+  if (!isSupabaseConfigured() || !supabase) {
+    throw new Error('Supabase not configured');
+  }
+
+  const now = new Date().toISOString();
+  const component: ComponentData = {
+    id: `${documentId}-${componentId}-${Date.now()}`,
+    product_id: documentId,
+    component_id: componentId,
+    content: changes.content ?? null,
+    image_path: null,
+    image_base64: changes.imageBase64 ?? null,
+    bbox: null,
+    metadata: changes.metadata ?? null,
+    created_at: now,
+    updated_at: now,
+  };
+
+  if (changes.imageBase64) {
+    const { data: files } = await supabase.storage.from('component-images').list(`documents/${documentId}/page-1`);
+    const taken = new Set((files || []).map(f => f.name.replace(/\.(png|jpe?g)$/i, '')));
+    let n = 1;
+    while (taken.has(`${componentId}-${n}`)) n++;
+
+    const filename = `${componentId}-${n}.png`;
+    component.id = `${documentId}-page-1-${filename}`;
+    component.image_path = await uploadComponentImage(`documents/${documentId}/page-1/${filename}`, changes.imageBase64);
+    component.metadata = { ...changes.metadata, page: 'page-1', filename };
+  }
+
+  const rowId = await saveRepositoryRow(component, changes);
+  if (!changes.imageBase64 && rowId) {
+    // Same id the component gets when listed again (see mergeRepositoryRows)
+    component.id = `${documentId}${ROW_ID_MARKER}${rowId}`;
+  }
+  return component;
+}
+
+async function updateRepositoryComponent(component: ComponentData, changes: ComponentChanges): Promise<ComponentData> {
+  if (getRepositoryBackend() === 'local') {
+    const updated = await updateLocalComponent(component, changes);
+    return { ...updated, image_base64: changes.imageBase64 ?? (updated.image_path ? component.image_base64 : null) };
+  }
+
+  if (!isSupabaseConfigured() || !supabase) {
+    throw new Error('Supabase not configured');
+  }
+
+  const updated: ComponentData = {
+    ...component,
+    ...(changes.content !== undefined ? { content: changes.content } : {}),
+    metadata: changes.metadata !== undefined
+      ? { ...changes.metadata, page: component.metadata?.page, filename: component.metadata?.filename, rowId: component.metadata?.rowId }
+      : component.metadata,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (changes.imageBase64) {
+    const page = typeof component.metadata?.page === 'string' ? component.metadata.page : 'page-1';
+    const filename = typeof component.metadata?.filename === 'string'
+      ? component.metadata.filename
+      : `${component.component_id}-${Date.now()}.png`;
+    updated.image_path = await uploadComponentImage(`documents/${component.product_id}/${page}/${filename}`, changes.imageBase64);
+    updated.image_base64 = changes.imageBase64;
+    updated.metadata = { ...updated.metadata, page, filename };
+  }
+
+  await saveRepositoryRow(updated, changes);
+  return updated;
+}
+
+async function deleteRepositoryComponent(component: ComponentData, imageOnly: boolean): Promise<void> {
+  if (getRepositoryBackend() === 'local') {
+    return deleteLocalComponent(component, imageOnly);
+  }
+
+  if (!isSupabaseConfigured() || !supabase) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { page, filename } = component.metadata || {};
+  if (component.image_path && typeof page === 'string' && typeof filename === 'string') {
+    const { error } = await supabase.storage
+      .from('component-images')
+      .remove([`documents/${component.product_id}/${page}/${filename}`]);
+    if (error) throw error;
+  }
+
+  const key = getRowKey(component);
+  if (!imageOnly && key) {
+    const query = supabase.from('repositories').delete().eq('product_id', component.product_id);
+    const { error } = await ('rowId' in key
+      ? query.eq('id', key.rowId)
+      : query.eq('component_id', component.component_id).eq('metadata->>page', key.page).eq('metadata->>filename', key.filename));
+    if (error) throw error;
+  }
+}
+
+/**
+ * Add a component (image and/or text) to a document, recording its first revision
+ */
+export async function addComponent(
+  documentId: string,
+  componentId: ComponentId,
+  changes: ComponentChanges,
+  info: RevisionInfo
+): Promise<ComponentData> {
+  const added = await addRepositoryComponent(documentId, componentId, changes);
+  await recordRevision(added, info, 'create');
+  return added;
+}
+
+/**
+ * Replace the image, content or metadata of a component, recording a new revision
+ */
+export async function updateComponent(
+  component: ComponentData,
+  changes: ComponentChanges,
+  info: RevisionInfo
+): Promise<ComponentData> {
+  await ensureBaseline(component);
+  const updated = await updateRepositoryComponent(component, changes);
+  await recordRevision(updated, info, 'edit');
+  return updated;
+}
+
+/**
+ * Delete a component, or only its image when `imageOnly` is set (content is kept)
+ * The deletion is recorded as a revision so earlier versions stay traceable
+ */
+export async function deleteComponent(
+  component: ComponentData,
+  info: RevisionInfo,
+  imageOnly: boolean = false
+): Promise<void> {
+  await ensureBaseline(component);
+  await deleteRepositoryComponent(component, imageOnly);
+
+  if (imageOnly) {
+    await recordRevision({ ...component, image_path: null, image_base64: null }, info, 'edit');
+  } else {
+    await recordRevision(component, info, 'delete');
+  }
+}
+
+/**
+ * Restore a component to an earlier revision (recorded as a new 'rollback' revision)
+ * Images are restored from the revision snapshot; a revision without an image keeps the current one
+ */
+export async function rollbackComponent(
+  component: ComponentData,
+  target: ComponentRevision,
+  author: string
+): Promise<ComponentData> {
+  if (target.action === 'delete') {
+    throw new Error('Cannot roll back to a deleted revision');
+  }
+
+  const restoreImage = !!target.imageBase64 && target.imageBase64 !== component.image_base64;
+  const changes: ComponentChanges = {
+    content: target.content,
+    metadata: target.metadata || {},
+    ...(restoreImage ? { imageBase64: target.imageBase64! } : {}),
+  };
+
+  await ensureBaseline(component);
+  const updated = await updateRepositoryComponent(component, changes);
+  await recordRevision(updated, { author, reason: `Rollback to r${target.revision}` }, 'rollback');
+  return updated;
+}
+
 /**
  * Fetch specific component by ID for a product
  */
 export async function getComponent(productId: string, componentId: ComponentId): Promise<ComponentData | null> {
+  if (getRepositoryBackend() === 'local') {
+    const components = await getLocalComponents(productId);
+    return components.find(c => c.component_id === componentId) || null;
+  }
+
   if (!isSupabaseConfigured() || !supabase) {
     return null;
   }
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ComponentData, ComponentId } from './componentService';
+import { ApiError, postJson } from './apiClient';
+import { extractAllContent } from './contentExtractorService';
+
+vi.mock('./apiClient', async importOriginal => ({
+  ...await importOriginal<typeof import('./apiClient')>(),
+  postJson: vi.fn(),
+}));
+
+// No cached results and no saved reviews, so every component goes to the API
+vi.mock('./extractionCacheService', () => ({
+  getCachedExtraction: vi.fn(async () => null),
+  saveCachedExtraction: vi.fn(async () => {}),
+}));
+
+vi.mock('./extractionReviewService', () => ({
+  applyReviews: vi.fn(async (components: ComponentData[]) => components),
+}));
+
+const post = vi.mocked(postJson);
+
+function component(componentId: ComponentId, file = 1): ComponentData {
+  return {
+    id: `doc-1-page-1-${componentId}-${file}.png`,
+    product_id: 'doc-1',
+    component_id: componentId,
+    content: null,
+    image_path: null,
+    image_base64: `${componentId}-${file}`,
+    bbox: null,
+    metadata: { page: 'page-1', filename: `${componentId}-${file}.png` },
+    created_at: '',
+    updated_at: '',
+  };
+}
+
+// Single extractions answer with text derived from the image
+function answerSingle(body: unknown) {
+  return { text: `Single ${(body as { imageBase64: string }).imageBase64}` };
+}
+
+type BatchBody = { task: string; contents: ({ text: string } | { inlineData: { data: string } })[] };
+
+function batchIds(body: unknown): string[] {
+  return (body as BatchBody).contents.flatMap(part =>
+    'text' in part ? [...part.text.matchAll(/=== COMPONENT: (\S+) - /g)].map(match => match[1]) : []
+  );
+}
+
+beforeEach(() => {
+  post.mockReset();
+});
+
+describe('extractAllContent batching', () => {
+  it('uses valid batch entries and extracts the rest one by one', async () => {
+    post.mockImplementation(async (path, body) => {
+      if (path === '/api/extract') return answerSingle(body);
+      return {
+        text: '```json\n' + JSON.stringify({
+          INIT_03: 'Breathe easy, all day long',
+          INS_04: 42,                                           // Not a string: falls back
+          SOL_02: [{ drug: 'Fluticasone', strength: 100, unit: 'mcg' }],
+          // SAFE_01 missing: falls back
+        }) + '\n```',
+      };
+    });
+
+    const components = ['INIT_03', 'INS_04', 'SOL_02', 'SAFE_01'].map(id => component(id as ComponentId));
+    const results = await extractAllContent(components, undefined, { batchSize: 4 });
+
+    expect(post.mock.calls.filter(([path]) => path === '/api/extract-batch')).toHaveLength(1);
+    expect(post.mock.calls.filter(([path]) => path === '/api/extract').map(([, body]) => (body as { imageBase64: string }).imageBase64))
+      .toEqual(['INS_04-1', 'SAFE_01-1']);
+
+    expect(results.map(result => result.content)).toEqual([
+      'Breathe easy, all day long',
+      'Single INS_04-1',
+      'Fluticasone 100mcg',
+      'Single SAFE_01-1',
+    ]);
+    expect(results[2].metadata?.structured).toEqual([{ drug: 'Fluticasone', strength: 100, unit: 'mcg' }]);
+  });
+
+  it('falls back for structured entries that break their schema and keeps null answers', async () => {
+    post.mockImplementation(async (path, body) => {
+      if (path === '/api/extract') return answerSingle(body);
+      return { text: JSON.stringify({ INIT_06: null, REG_02: [{ number: 'one', text: 'Ref' }] }) };
+    });
+
+    const results = await extractAllContent([component('INIT_06'), component('REG_02')], undefined, { batchSize: 2 });
+
+    expect(post.mock.calls.filter(([path]) => path === '/api/extract')).toHaveLength(1);
+    expect(results.map(result => result.content)).toEqual([null, 'Single REG_02-1']);
+  });
+
+  it('extracts every component one by one when the batch response is not JSON', async () => {
+    post.mockImplementation(async (path, body) => path === '/api/extract' ? answerSingle(body) : { text: 'Sorry, I cannot help' });
+
+    const results = await extractAllContent([component('INIT_03'), component('INS_04')], undefined, { batchSize: 2 });
+    expect(results.map(result => result.content)).toEqual(['Single INIT_03-1', 'Single INS_04-1']);
+  });
+
+  it('extracts every component one by one when the batch request fails', async () => {
+    post.mockImplementation(async (path, body) => {
+      if (path === '/api/extract') return answerSingle(body);
+      throw new ApiError('Invalid request', 400);
+    });
+
+    const results = await extractAllContent([component('INIT_03'), component('INS_04')], undefined, { batchSize: 2 });
+    expect(results.map(result => result.content)).toEqual(['Single INIT_03-1', 'Single INS_04-1']);
+  });
+
+  it('never puts two files of the same component in one batch', async () => {
+    post.mockImplementation(async (path, body) => {
+      if (path === '/api/extract') return answerSingle(body);
+      return { text: JSON.stringify(Object.fromEntries(batchIds(body).map(id => [id, `Batch ${id}`]))) };
+    });
+
+    await extractAllContent([component('INIT_03', 1), component('INIT_03', 2), component('INS_04')], undefined, { batchSize: 3 });
+
+    const batches = post.mock.calls.filter(([path]) => path === '/api/extract-batch').map(([, body]) => batchIds(body));
+    expect(batches).toEqual([['INIT_03', 'INS_04'], ['INIT_03']]);
+    expect(post.mock.calls.every(([path, body]) => path !== '/api/extract-batch' || (body as BatchBody).task === 'components')).toBe(true);
+  });
+});
@@ -5,12 +5,21 @@
  * This populates the prompt with actual extracted text from the visual components
  */
 
-import { GoogleGenAI } from "@google/genai";
 import type { ComponentData, ComponentId } from './componentService';
 import { COMPONENT_METADATA } from './componentService';
-
-const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+import { postJson } from './apiClient';
+import { getCachedExtraction, saveCachedExtraction } from './extractionCacheService';
+import { applyReviews } from './extractionReviewService';
+import { runJobQueue } from './jobQueue';
+import {
+  isStructuredComponent,
+  getStructuredInstructions,
+  parseStructuredContent,
+  validateStructuredContent,
+  formatStructuredContent,
+} from './structuredExtraction';
+import type { StructuredContent, StructuredComponentId } from './structuredExtraction';
+import type { JobStatus } from './jobQueue';
 
 // Component extraction prompts based on SOMA 53 spec
 const EXTRACTION_PROMPTS: Partial<Record<ComponentId, string>> = {
@@ -60,107 +69,255 @@ const IMAGE_ONLY_COMPONENTS: ComponentId[] = [
   'SERV_02', 'SERV_03', 'COMM_02', 'COMM_04', 'REG_04'
 ];
 
+type ContentPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
 export interface ExtractionResult {
   componentId: ComponentId;
   content: string | null;
   confidence: 'high' | 'medium' | 'low';
+  structured?: StructuredContent;  // Typed data for components in structuredExtraction
   error?: string;
 }
 
 /**
- * Extract text content from a single component image using Gemini Vision
+ * Build the vision prompt for a text component
  */
-export async function extractContentFromImage(
+function buildExtractionPrompt(componentId: ComponentId, extractionPrompt: string): string {
+  const meta = COMPONENT_METADATA[componentId];
+
+  return `You are extracting pharmaceutical content from a visual aid component.
+
+Component: ${componentId} - ${meta.name}
+Type: ${meta.type}
+Criticality: ${meta.criticality}
+
+TASK: ${extractionPrompt}
+
+RULES:
+- Extract ONLY the relevant text for this component type
+- Preserve exact wording, numbers, and references
+- Include superscript reference numbers (¹, ², ³) if present
+- Return plain text, no markdown formatting
+- If the component type content is not visible, return "NOT_FOUND"
+- Be precise and concise
+
+${isStructuredComponent(componentId)
+    ? `STRUCTURED OUTPUT:\n${getStructuredInstructions(componentId)}\n\nReturn ONLY the JSON array, nothing else.`
+    : 'Return ONLY the extracted text, nothing else.'}`;
+}
+
+/**
+ * Call /api/extract for one component - throws ApiError so the job queue can retry
+ */
+async function requestExtraction(
   imageBase64: string,
-  componentId: ComponentId
+  componentId: ComponentId,
+  signal?: AbortSignal
 ): Promise<ExtractionResult> {
-  if (!ai) {
-    return {
-      componentId,
-      content: null,
-      confidence: 'low',
-      error: 'API not configured'
-    };
+  const prompt = buildExtractionPrompt(componentId, EXTRACTION_PROMPTS[componentId] || '');
+
+  const response = await postJson<{ text: string | null }>('/api/extract', {
+    prompt,
+    imageBase64,
+    mimeType: 'image/png'
+  }, { signal });
+
+  if (response.text) {
+    return toExtractionResult(componentId, response.text);
   }
 
-  // Skip image-only components
-  if (IMAGE_ONLY_COMPONENTS.includes(componentId)) {
-    return {
-      componentId,
-      content: null,
-      confidence: 'high' // Not an error, just no text expected
-    };
+  return {
+    componentId,
+    content: null,
+    confidence: 'low',
+    error: 'No text in response'
+  };
+}
+
+/**
+ * Turn raw model text into an extraction result (NOT_FOUND / too short = no content)
+ */
+function toExtractionResult(componentId: ComponentId, text: string): ExtractionResult {
+  const extractedText = text.trim();
+
+  // Structured components: keep the typed data, store a readable form as content
+  if (isStructuredComponent(componentId)) {
+    const structured = parseStructuredContent(componentId, extractedText);
+    if (structured) {
+      return toStructuredResult(componentId, structured);
+    }
+    console.warn(`[ContentExtractor] ${componentId} did not match its schema, keeping plain text`);
   }
 
-  const extractionPrompt = EXTRACTION_PROMPTS[componentId];
-  if (!extractionPrompt) {
+  if (extractedText === 'NOT_FOUND' || extractedText.length < 2) {
     return {
       componentId,
       content: null,
-      confidence: 'low',
-      error: 'No extraction prompt defined for this component'
+      confidence: 'low'
     };
   }
 
-  const meta = COMPONENT_METADATA[componentId];
+  return {
+    componentId,
+    content: extractedText,
+    confidence: extractedText.length > 10 ? 'high' : 'medium'
+  };
+}
 
-  const prompt = `You are extracting pharmaceutical content from a visual aid component.
+function toStructuredResult(componentId: StructuredComponentId, structured: StructuredContent): ExtractionResult {
+  if (structured.length === 0) {
+    return { componentId, content: null, confidence: 'low', structured };
+  }
+  return {
+    componentId,
+    content: formatStructuredContent(componentId, structured),
+    confidence: 'high',
+    structured,
+  };
+}
 
-Component: ${componentId} - ${meta.name}
-Type: ${meta.type}
-Criticality: ${meta.criticality}
+/**
+ * Split components into batches of at most `batchSize`, never repeating a ComponentId
+ * within a batch (responses are keyed by ComponentId)
+ */
+function chunkForBatching(components: ComponentData[], batchSize: number): ComponentData[][] {
+  const batches: ComponentData[][] = [];
 
-TASK: ${extractionPrompt}
+  for (const comp of components) {
+    const batch = batches.find(b =>
+      b.length < batchSize && !b.some(c => c.component_id === comp.component_id)
+    );
+    if (batch) {
+      batch.push(comp);
+    } else {
+      batches.push([comp]);
+    }
+  }
+
+  return batches;
+}
+
+/**
+ * Build one multimodal request: shared rules, then a label + task + image per component
+ */
+function buildBatchContents(batch: ComponentData[]): ContentPart[] {
+  const ids = batch.map(c => c.component_id);
+
+  const contents: ContentPart[] = [{
+    text: `You are extracting pharmaceutical content from visual aid components.
+Each image below is labeled with its component ID, name and extraction task.
 
 RULES:
-- Extract ONLY the relevant text for this component type
+- Extract ONLY the relevant text for each component's task
 - Preserve exact wording, numbers, and references
 - Include superscript reference numbers (¹, ², ³) if present
-- Return plain text, no markdown formatting
-- If the component type content is not visible, return "NOT_FOUND"
-- Be precise and concise
+- Plain text values, no markdown formatting
+- Use null when the component content is not visible
+
+Return ONLY a JSON object with exactly these keys: ${ids.join(', ')}
+Each value must be a string or null, except components marked STRUCTURED OUTPUT,
+whose value must be a JSON array in the given shape. Example: {"${ids[0]}": "extracted text"}`
+  }];
+
+  for (const comp of batch) {
+    const meta = COMPONENT_METADATA[comp.component_id];
+    const structuredNote = isStructuredComponent(comp.component_id)
+      ? `\nSTRUCTURED OUTPUT:\n${getStructuredInstructions(comp.component_id)}`
+      : '';
+    contents.push({
+      text: `=== COMPONENT: ${comp.component_id} - ${meta.name} ===\nTASK: ${EXTRACTION_PROMPTS[comp.component_id]}${structuredNote}`
+    });
+    contents.push({ inlineData: { mimeType: 'image/png', data: comp.image_base64! } });
+  }
 
-Return ONLY the extracted text, nothing else.`;
+  return contents;
+}
 
+/**
+ * Validate a batch response against the expected ComponentIds
+ * Returns results only for entries that are a string, null or (structured components)
+ * a schema-valid array - anything else falls back
+ */
+function parseBatchResponse(text: string, batch: ComponentData[]): Map<string, ExtractionResult> {
+  const results = new Map<string, ExtractionResult>();
+
+  // Tolerate ```json fences around the object
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let parsed: unknown;
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.0-flash',
-      contents: [
-        { text: prompt },
-        {
-          inlineData: {
-            mimeType: 'image/png',
-            data: imageBase64
-          }
-        }
-      ]
-    });
+    parsed = JSON.parse(json);
+  } catch {
+    console.warn('[ContentExtractor] Batch response is not valid JSON');
+    return results;
+  }
 
-    const text = response.candidates?.[0]?.content?.parts?.[0];
-    if (text && 'text' in text && text.text) {
-      const extractedText = text.text.trim();
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    console.warn('[ContentExtractor] Batch response is not a JSON object');
+    return results;
+  }
 
-      if (extractedText === 'NOT_FOUND' || extractedText.length < 2) {
-        return {
-          componentId,
-          content: null,
-          confidence: 'low'
-        };
+  const entries = parsed as Record<string, unknown>;
+  for (const comp of batch) {
+    const value = entries[comp.component_id];
+    if (typeof value === 'string') {
+      results.set(comp.id, toExtractionResult(comp.component_id, value));
+    } else if (Array.isArray(value) && isStructuredComponent(comp.component_id)) {
+      const structured = validateStructuredContent(comp.component_id, value);
+      if (structured) {
+        results.set(comp.id, toStructuredResult(comp.component_id, structured));
       }
-
-      return {
-        componentId,
-        content: extractedText,
-        confidence: extractedText.length > 10 ? 'high' : 'medium'
-      };
+    } else if (value === null) {
+      results.set(comp.id, { componentId: comp.component_id, content: null, confidence: 'low' });
     }
+  }
+
+  return results;
+}
 
+/**
+ * Call /api/extract-batch for several components - keyed by ComponentData.id
+ */
+async function requestBatchExtraction(
+  batch: ComponentData[],
+  signal?: AbortSignal
+): Promise<Map<string, ExtractionResult>> {
+  const response = await postJson<{ text: string | null }>('/api/extract-batch', {
+    task: 'components',
+    contents: buildBatchContents(batch)
+  }, { signal });
+
+  return response.text ? parseBatchResponse(response.text, batch) : new Map();
+}
+
+/**
+ * Extract text content from a single component image using Gemini Vision
+ * The vision call runs on the API server via /api/extract
+ */
+export async function extractContentFromImage(
+  imageBase64: string,
+  componentId: ComponentId
+): Promise<ExtractionResult> {
+  // Skip image-only components
+  if (IMAGE_ONLY_COMPONENTS.includes(componentId)) {
+    return {
+      componentId,
+      content: null,
+      confidence: 'high' // Not an error, just no text expected
+    };
+  }
+
+  if (!EXTRACTION_PROMPTS[componentId]) {
     return {
       componentId,
       content: null,
       confidence: 'low',
-      error: 'No text in response'
+      error: 'No extraction prompt defined for this component'
     };
+  }
+
+  try {
+    return await requestExtraction(imageBase64, componentId);
   } catch (error) {
     return {
       componentId,
@@ -171,80 +328,200 @@ Return ONLY the extracted text, nothing else.`;
   }
 }
 
+/**
+ * Whether a component has an image with text worth extracting
+ */
+export function needsTextExtraction(component: ComponentData): boolean {
+  return !!component.image_base64 &&
+    !IMAGE_ONLY_COMPONENTS.includes(component.component_id) &&
+    !!EXTRACTION_PROMPTS[component.component_id];
+}
+
+export interface ExtractAllOptions {
+  forceRefresh?: ComponentId[];  // Ignore cached results for these components
+  batchSize?: number;            // >1 sends that many components per /api/extract-batch call
+  concurrency?: number;          // Parallel API calls (default 3)
+  ratePerMinute?: number;        // Token-bucket limit on API calls (default 30)
+  signal?: AbortSignal;          // Cancel remaining extractions
+  onEvent?: (event: ExtractionEvent) => void;
+}
+
+// Per-component progress for the extraction banner
+export interface ExtractionEvent {
+  componentId: ComponentId;
+  componentKey: string;          // ComponentData.id (several files can share a ComponentId)
+  status: JobStatus | 'cached';
+  attempt: number;
+  delayMs?: number;
+  error?: string;
+  completed: number;
+  total: number;
+}
+
+const FINAL_STATUSES: ExtractionEvent['status'][] = ['done', 'failed', 'cancelled', 'cached'];
+
 /**
  * Extract content from all components that have images
  * Returns components with populated content fields
- * Uses sequential processing with delays to avoid rate limits
+ * Cached results (same document, file and image hash) are reused without calling the API;
+ * the rest run through a concurrent, rate-limited job queue - optionally batched, with
+ * per-component fallback for anything a batch response does not answer
  */
 export async function extractAllContent(
   components: ComponentData[],
-  onProgress?: (done: number, total: number, current: ComponentId) => void
+  onProgress?: (done: number, total: number, current: ComponentId) => void,
+  options: ExtractAllOptions = {}
 ): Promise<ComponentData[]> {
-  // Only process text-type components that need extraction
-  const textComponents = components.filter(c =>
-    c.image_base64 &&
-    !IMAGE_ONLY_COMPONENTS.includes(c.component_id) &&
-    EXTRACTION_PROMPTS[c.component_id]
-  );
+  const { forceRefresh = [], batchSize = 1, concurrency, ratePerMinute, signal, onEvent } = options;
 
+  // Only process text-type components that need extraction
+  const textComponents = components.filter(needsTextExtraction);
   const total = textComponents.length;
-  let done = 0;
+  let completed = 0;
 
   console.log(`[ContentExtractor] Starting extraction for ${total} text components (skipping ${components.length - total} image-only components)`);
 
   const results: ComponentData[] = [...components];
 
-  // Process ONE component at a time with delays to avoid rate limits
-  for (const comp of textComponents) {
-    onProgress?.(done, total, comp.component_id);
-
-    console.log(`[ContentExtractor] Processing ${comp.component_id} (${done + 1}/${total})...`);
+  const emit = (comp: ComponentData, status: ExtractionEvent['status'], extra: Partial<ExtractionEvent> = {}) => {
+    if (FINAL_STATUSES.includes(status)) completed++;
+    onEvent?.({ componentId: comp.component_id, componentKey: comp.id, status, attempt: 0, ...extra, completed, total });
+    if (status === 'running' || status === 'done') {
+      onProgress?.(completed, total, comp.component_id);
+    }
+  };
 
-    // Try extraction with retry logic
-    let result: ExtractionResult | null = null;
-    let retries = 3;
-    let delay = 3000; // Start with 3 second delay on retry
+  const applyResult = (comp: ComponentData, result: ExtractionResult) => {
+    const idx = results.findIndex(c => c.id === comp.id);
+    if (result.content && idx !== -1) {
+      // Confidence is kept for the review screen
+      results[idx] = {
+        ...results[idx],
+        content: result.content,
+        metadata: {
+          ...results[idx].metadata,
+          extractionConfidence: result.confidence,
+          ...(result.structured ? { structured: result.structured } : {}),
+        },
+      };
+      console.log(`[ContentExtractor] ✓ Extracted: ${comp.component_id} = "${result.content.substring(0, 50)}..."`);
+    } else if (result.error) {
+      console.warn(`[ContentExtractor] ✗ Failed: ${comp.component_id} - ${result.error}`);
+    }
+  };
 
-    while (retries > 0) {
-      result = await extractContentFromImage(comp.image_base64!, comp.component_id);
+  // Cache successful calls (including "nothing found"), never errors
+  const cacheResult = async (comp: ComponentData, result: ExtractionResult) => {
+    if (result.error) return;
+    await saveCachedExtraction(comp, result.content, result.confidence, result.structured).catch(err =>
+      console.warn(`[ContentExtractor] Failed to cache ${comp.component_id}:`, err)
+    );
+  };
 
-      // Check if rate limited
-      if (result.error?.includes('429') || result.error?.includes('rate') || result.error?.includes('Too Many')) {
-        retries--;
-        if (retries > 0) {
-          console.log(`[ContentExtractor] Rate limited on ${comp.component_id}, waiting ${delay}ms before retry (${retries} retries left)...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          delay *= 2; // Exponential backoff: 3s -> 6s -> 12s
+  // Serve what we can from the cache first
+  let pending: ComponentData[] = [];
+  let cacheHits = 0;
+  for (const comp of textComponents) {
+    const cached = forceRefresh.includes(comp.component_id)
+      ? null
+      : await getCachedExtraction(comp).catch(() => null);
+
+    if (cached) {
+      cacheHits++;
+      applyResult(comp, {
+        componentId: comp.component_id,
+        content: cached.content,
+        confidence: cached.confidence,
+        structured: cached.structured,
+      });
+      emit(comp, 'cached');
+    } else {
+      pending.push(comp);
+    }
+  }
+  onProgress?.(completed, total, pending[0]?.component_id || 'DONE');
+
+  // Batched pass - anything missing or invalid in a response falls through to per-component
+  if (batchSize > 1 && pending.length > 1) {
+    const batches = chunkForBatching(pending, batchSize);
+    const fallback: ComponentData[] = [];
+    console.log(`[ContentExtractor] Extracting ${pending.length} components in ${batches.length} batches`);
+
+    await runJobQueue(
+      batches,
+      async (batch, jobSignal) => {
+        const batchResults = await requestBatchExtraction(batch, jobSignal);
+        for (const comp of batch) {
+          const result = batchResults.get(comp.id);
+          if (result) {
+            applyResult(comp, result);
+            await cacheResult(comp, result);
+            emit(comp, 'done');
+          } else {
+            fallback.push(comp);
+          }
         }
-      } else {
-        break; // Success or other error, stop retrying
+      },
+      {
+        concurrency,
+        ratePerMinute,
+        signal,
+        onEvent: event => {
+          const batch = batches[event.index];
+          if (event.status === 'failed') {
+            console.warn(`[ContentExtractor] Batch ${event.index + 1} failed: ${event.error}`);
+            fallback.push(...batch);
+          } else if (event.status !== 'done') {
+            batch.forEach(comp => emit(comp, event.status, {
+              attempt: event.attempt, delayMs: event.delayMs, error: event.error,
+            }));
+          }
+        },
       }
+    );
+
+    if (fallback.length > 0 && !signal?.aborted) {
+      console.warn(`[ContentExtractor] Falling back to per-component extraction for ${fallback.length} components`);
     }
+    pending = fallback;
+  }
 
-    // Update result if we got content
-    if (result?.content) {
-      const idx = results.findIndex(c => c.id === comp.id);
-      if (idx !== -1) {
-        results[idx] = { ...results[idx], content: result.content };
-        console.log(`[ContentExtractor] ✓ Extracted: ${comp.component_id} = "${result.content.substring(0, 50)}..."`);
-      }
-    } else if (result?.error) {
-      console.warn(`[ContentExtractor] ✗ Failed: ${comp.component_id} - ${result.error}`);
+  await runJobQueue(
+    pending,
+    async (comp, jobSignal) => {
+      const result = await requestExtraction(comp.image_base64!, comp.component_id, jobSignal);
+      applyResult(comp, result);
+      await cacheResult(comp, result);
+      emit(comp, 'done');
+    },
+    {
+      concurrency,
+      ratePerMinute,
+      signal,
+      onEvent: event => {
+        const comp = pending[event.index];
+        if (event.status === 'failed') {
+          applyResult(comp, { componentId: comp.component_id, content: null, confidence: 'low', error: event.error });
+        }
+        // 'done' is emitted by the worker once the result has been applied
+        if (event.status !== 'done') {
+          emit(comp, event.status, { attempt: event.attempt, delayMs: event.delayMs, error: event.error });
+        }
+      },
     }
+  );
 
-    done++;
+  console.log(`[ContentExtractor] Extraction complete: ${completed}/${total} components processed (${cacheHits} from cache)`);
 
-    // Wait 2 seconds between EACH request to avoid rate limits
-    if (done < total) {
-      console.log(`[ContentExtractor] Waiting 2s before next request...`);
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    }
+  if (signal?.aborted) {
+    throw new Error('Extraction cancelled');
   }
 
-  onProgress?.(done, total, textComponents[textComponents.length - 1]?.component_id || 'DONE');
-  console.log(`[ContentExtractor] Extraction complete: ${done}/${total} components processed`);
-
-  return results;
+  // Reviewer edits and rejections always win over freshly extracted text
+  return applyReviews(results).catch(err => {
+    console.warn('[ContentExtractor] Failed to apply saved reviews:', err);
+    return results;
+  });
 }
 
 /**
@@ -0,0 +1,167 @@
+/**
+ * Extraction Cache Service
+ *
+ * Persists content extraction results keyed by document, component file and image hash
+ * Stored locally in IndexedDB, optionally written back to the Supabase `repositories.content` column
+ */
+
+import { supabase, isSupabaseConfigured } from './supabaseClient';
+import { isLocalDbAvailable, withStore } from './localDb';
+import type { ComponentData, ComponentId } from './componentService';
+import type { StructuredContent } from './structuredExtraction';
+
+const STORE = 'extractions';
+
+// Write extracted text back to Supabase only when explicitly enabled
+const SYNC_TO_SUPABASE = import.meta.env.VITE_SUPABASE_EXTRACTIONS === 'true';
+
+export interface CachedExtraction {
+  key: string;                 // documentId|componentFile|imageHash
+  documentId: string;
+  componentFile: string;
+  componentId: ComponentId;
+  imageHash: string;
+  content: string | null;      // null = nothing found in the image (still cached)
+  confidence: 'high' | 'medium' | 'low';
+  structured?: StructuredContent;
+  extractedAt: string;
+}
+
+/**
+ * SHA-256 of the base64 image data
+ */
+export async function hashImage(imageBase64: string): Promise<string> {
+  const bytes = new TextEncoder().encode(imageBase64);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Stable file identifier for a component (page folder + filename when known)
+ */
+export function getComponentFile(component: ComponentData): string {
+  const page = component.metadata?.page;
+  const filename = component.metadata?.filename;
+  if (typeof page === 'string' && typeof filename === 'string') {
+    return `${page}/${filename}`;
+  }
+  return component.id;
+}
+
+function buildKey(documentId: string, componentFile: string, imageHash: string): string {
+  return `${documentId}|${componentFile}|${imageHash}`;
+}
+
+/**
+ * Look up a cached extraction for a component image
+ */
+export async function getCachedExtraction(component: ComponentData): Promise<CachedExtraction | null> {
+  if (!isLocalDbAvailable() || !component.image_base64) return null;
+
+  const imageHash = await hashImage(component.image_base64);
+  const key = buildKey(component.product_id, getComponentFile(component), imageHash);
+  const cached = await withStore<CachedExtraction | undefined>(STORE, 'readonly', store => store.get(key));
+
+  return cached || null;
+}
+
+/**
+ * Write extracted text back to the Supabase repositories row of the extracted file (best-effort, never throws)
+ * Rows are keyed by page + filename, so other files with the same ComponentId keep their content
+ */
+async function syncToSupabase(entry: CachedExtraction, component: ComponentData): Promise<void> {
+  if (!SYNC_TO_SUPABASE || !entry.content || !isSupabaseConfigured() || !supabase) return;
+
+  const { page, filename } = component.metadata || {};
+  if (typeof page !== 'string' || typeof filename !== 'string') return;
+
+  const { error } = await supabase
+    .from('repositories')
+    .update({ content: entry.content, updated_at: entry.extractedAt })
+    .eq('product_id', entry.documentId)
+    .eq('component_id', entry.componentId)
+    .eq('metadata->>page', page)
+    .eq('metadata->>filename', filename);
+
+  if (error) {
+    console.warn('[ExtractionCache] Failed to sync content to Supabase:', error);
+  }
+}
+
+/**
+ * Save an extraction result for a component image
+ */
+export async function saveCachedExtraction(
+  component: ComponentData,
+  content: string | null,
+  confidence: CachedExtraction['confidence'],
+  structured?: StructuredContent
+): Promise<void> {
+  if (!component.image_base64) return;
+
+  const imageHash = await hashImage(component.image_base64);
+  const componentFile = getComponentFile(component);
+  const entry: CachedExtraction = {
+    key: buildKey(component.product_id, componentFile, imageHash),
+    documentId: component.product_id,
+    componentFile,
+    componentId: component.component_id,
+    imageHash,
+    content,
+    confidence,
+    structured,
+    extractedAt: new Date().toISOString(),
+  };
+
+  if (isLocalDbAvailable()) {
+    await withStore(STORE, 'readwrite', store => store.put(entry));
+  }
+  await syncToSupabase(entry, component);
+}
+
+/**
+ * Fill in content from the cache for components that have an image but no content yet
+ */
+export async function applyCachedExtractions(components: ComponentData[]): Promise<ComponentData[]> {
+  let hits = 0;
+
+  const results = await Promise.all(components.map(async comp => {
+    if (comp.content || !comp.image_base64) return comp;
+
+    const cached = await getCachedExtraction(comp);
+    if (!cached?.content) return comp;
+
+    hits++;
+    return {
+      ...comp,
+      content: cached.content,
+      metadata: {
+        ...comp.metadata,
+        extractionConfidence: cached.confidence,
+        ...(cached.structured ? { structured: cached.structured } : {}),
+      },
+    };
+  }));
+
+  if (hits > 0) {
+    console.log(`[ExtractionCache] Restored ${hits} cached extractions`);
+  }
+  return results;
+}
+
+/**
+ * Drop all cached extractions for one component of a document (forces re-extraction)
+ */
+export async function clearCachedExtractions(documentId: string, componentId: ComponentId): Promise<void> {
+  if (!isLocalDbAvailable()) return;
+
+  const entries = await withStore<CachedExtraction[]>(STORE, 'readonly', store =>
+    store.index('documentId').getAll(documentId)
+  );
+
+  for (const entry of entries.filter(e => e.componentId === componentId)) {
+    await withStore(STORE, 'readwrite', store => store.delete(entry.key));
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Extraction Review Service
+ *
+ * Persists reviewer decisions on extracted component text (approve / edit / reject)
+ * Reviews are keyed by document + component file so re-extraction never overwrites them
+ */
+
+import { isLocalDbAvailable, withStore } from './localDb';
+import type { ComponentData, ComponentId } from './componentService';
+import { getComponentFile } from './extractionCacheService';
+
+const STORE = 'reviews';
+
+export type ReviewStatus = 'approved' | 'edited' | 'rejected';
+
+export interface ExtractionReview {
+  key: string;                 // documentId|componentFile
+  documentId: string;
+  componentFile: string;
+  componentId: ComponentId;
+  status: ReviewStatus;
+  content: string | null;      // Text to use (null when rejected)
+  reviewedAt: string;
+}
+
+function buildKey(documentId: string, componentFile: string): string {
+  return `${documentId}|${componentFile}`;
+}
+
+/**
+ * Save a review decision for a component
+ */
+export async function saveReview(
+  component: ComponentData,
+  status: ReviewStatus,
+  content: string | null
+): Promise<void> {
+  if (!isLocalDbAvailable()) return;
+
+  const componentFile = getComponentFile(component);
+  const review: ExtractionReview = {
+    key: buildKey(component.product_id, componentFile),
+    documentId: component.product_id,
+    componentFile,
+    componentId: component.component_id,
+    status,
+    content: status === 'rejected' ? null : content,
+    reviewedAt: new Date().toISOString(),
+  };
+
+  await withStore(STORE, 'readwrite', store => store.put(review));
+}
+
+/**
+ * Remove a review so the component falls back to extracted text
+ */
+export async function deleteReview(component: ComponentData): Promise<void> {
+  if (!isLocalDbAvailable()) return;
+  const key = buildKey(component.product_id, getComponentFile(component));
+  await withStore(STORE, 'readwrite', store => store.delete(key));
+}
+
+/**
+ * Get all reviews for a document
+ */
+export async function getReviews(documentId: string): Promise<ExtractionReview[]> {
+  if (!isLocalDbAvailable()) return [];
+  return withStore<ExtractionReview[]>(STORE, 'readonly', store =>
+    store.index('documentId').getAll(documentId)
+  );
+}
+
+/**
+ * Apply saved reviews on top of extracted content
+ * Reviewed text wins; rejected components get no content. Status is exposed as metadata.reviewStatus
+ */
+export async function applyReviews(components: ComponentData[]): Promise<ComponentData[]> {
+  const documentIds = [...new Set(components.map(c => c.product_id))];
+  const reviews = (await Promise.all(documentIds.map(getReviews))).flat();
+  if (reviews.length === 0) return components;
+
+  const byKey = new Map(reviews.map(r => [r.key, r]));
+
+  return components.map(comp => {
+    const review = byKey.get(buildKey(comp.product_id, getComponentFile(comp)));
+    if (!review) return comp;
+
+    // Structured data no longer matches text a reviewer edited or rejected
+    const metadata: Record<string, unknown> = { ...comp.metadata, reviewStatus: review.status };
+    if (review.status !== 'approved') delete metadata.structured;
+
+    return { ...comp, content: review.content, metadata };
+  });
+}
@@ -0,0 +1,57 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GenerationRecord } from './historyService';
+
+const supabaseMock = vi.hoisted(() => {
+  vi.stubEnv('VITE_SUPABASE_GENERATIONS', 'true');
+  const eq = vi.fn(async () => ({ error: null }));
+  const update = vi.fn(() => ({ eq }));
+  const insert = vi.fn(async () => ({ error: null }));
+  return { eq, update, insert, from: vi.fn(() => ({ update, insert })) };
+});
+
+vi.mock('./supabaseClient', () => ({
+  supabase: { from: supabaseMock.from },
+  isSupabaseConfigured: () => true,
+}));
+
+const { getGenerations, saveGeneration, updateGeneration } = await import('./historyService');
+
+function record(id: string): GenerationRecord {
+  return {
+    id,
+    documentId: 'doc-1',
+    documentName: 'Nebzmart',
+    imageBase64: 'aW1hZ2U=',
+    mimeType: 'image/png',
+    prompt: 'Prompt',
+    focusArea: '',
+    selectedComponentIds: ['EVID_01'],
+    referenceImages: [],
+    variantGroupId: 'group-1',
+    startedAt: '2026-01-01T00:00:00.000Z',
+    createdAt: `2026-01-01T00:00:0${id.slice(-1)}.000Z`,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('updateGeneration', () => {
+  it('stars the local record and mirrors the change to Supabase', async () => {
+    await saveGeneration(record('gen-1'));
+    await updateGeneration('gen-1', { starred: true });
+
+    const [saved] = await getGenerations('doc-1');
+    expect(saved).toMatchObject({ id: 'gen-1', starred: true });
+    expect(supabaseMock.from).toHaveBeenCalledWith('generations');
+    expect(supabaseMock.update).toHaveBeenCalledWith({ starred: true });
+    expect(supabaseMock.eq).toHaveBeenCalledWith('id', 'gen-1');
+  });
+
+  it('sends nothing to Supabase for an empty patch', async () => {
+    await updateGeneration('gen-1', {});
+    expect(supabaseMock.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Generation History Service
+ *
+ * Records every LBL run (output image, final prompt, focus area, components, references)
+ * Stored locally in IndexedDB, optionally mirrored to the Supabase `generations` table
+ */
+
+import { supabase, isSupabaseConfigured } from './supabaseClient';
+import { isLocalDbAvailable, withStore } from './localDb';
+import type { ComponentId } from './componentService';
+import type { RevisionRef } from './revisionService';
+
+const STORE = 'generations';
+
+// Mirror to Supabase only when explicitly enabled (table: scripts/create_generations_table.sql)
+const SYNC_TO_SUPABASE = import.meta.env.VITE_SUPABASE_GENERATIONS === 'true';
+
+export interface GenerationRecord {
+  id: string;
+  documentId: string;
+  documentName: string;
+  imageBase64: string;
+  mimeType: string;
+  prompt: string;
+  focusArea: string;
+  selectedComponentIds: ComponentId[];
+  referenceImages: { category: string; name: string }[];
+  variantGroupId?: string; // Shared by variants generated in the same run
+  starred?: boolean;       // Chosen variant within its group
+  editedFromId?: string;   // Source generation of a region edit
+  componentRevisions?: RevisionRef[]; // Component revisions the prompt was built from
+  startedAt: string;
+  createdAt: string;
+}
+
+export function createGenerationId(): string {
+  return `gen-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Mirror a record to Supabase (best-effort, never throws)
+ */
+async function syncToSupabase(record: GenerationRecord): Promise<void> {
+  if (!SYNC_TO_SUPABASE || !isSupabaseConfigured() || !supabase) return;
+
+  const { error } = await supabase.from('generations').insert({
+    id: record.id,
+    document_id: record.documentId,
+    document_name: record.documentName,
+    image_base64: record.imageBase64,
+    mime_type: record.mimeType,
+    prompt: record.prompt,
+    focus_area: record.focusArea,
+    selected_component_ids: record.selectedComponentIds,
+    reference_images: record.referenceImages,
+    variant_group_id: record.variantGroupId || null,
+    starred: !!record.starred,
+    edited_from_id: record.editedFromId || null,
+    component_revisions: record.componentRevisions || [],
+    started_at: record.startedAt,
+    created_at: record.createdAt,
+  });
+
+  if (error) {
+    console.warn('[History] Failed to sync generation to Supabase:', error);
+  }
+}
+
+/**
+ * Mirror updated fields to Supabase (best-effort, never throws)
+ */
+async function syncPatchToSupabase(id: string, patch: Partial<Pick<GenerationRecord, 'starred'>>): Promise<void> {
+  if (!SYNC_TO_SUPABASE || !isSupabaseConfigured() || !supabase) return;
+  if (patch.starred === undefined) return;
+
+  const { error } = await supabase.from('generations').update({ starred: patch.starred }).eq('id', id);
+
+  if (error) {
+    console.warn('[History] Failed to sync generation update to Supabase:', error);
+  }
+}
+
+/**
+ * Save a generation run
+ */
+export async function saveGeneration(record: GenerationRecord): Promise<void> {
+  if (isLocalDbAvailable()) {
+    await withStore(STORE, 'readwrite', store => store.put(record));
+  }
+  await syncToSupabase(record);
+  console.log(`[History] Saved generation ${record.id} for document ${record.documentId}`);
+}
+
+/**
+ * Get all generations for a document, newest first
+ */
+export async function getGenerations(documentId: string): Promise<GenerationRecord[]> {
+  if (!isLocalDbAvailable()) return [];
+
+  const records = await withStore<GenerationRecord[]>(STORE, 'readonly', store =>
+    store.index('documentId').getAll(documentId)
+  );
+
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Update fields on a saved generation (e.g. starring a variant)
+ */
+export async function updateGeneration(
+  id: string,
+  patch: Partial<Pick<GenerationRecord, 'starred'>>
+): Promise<void> {
+  if (isLocalDbAvailable()) {
+    const existing = await withStore<GenerationRecord | undefined>(STORE, 'readonly', store => store.get(id));
+    if (existing) {
+      await withStore(STORE, 'readwrite', store => store.put({ ...existing, ...patch }));
+    }
+  }
+  await syncPatchToSupabase(id, patch);
+}
+
+/**
+ * Delete a generation from local history
+ */
+export async function deleteGeneration(id: string): Promise<void> {
+  if (!isLocalDbAvailable()) return;
+  await withStore(STORE, 'readwrite', store => store.delete(id));
+}
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError } from './apiClient';
+import { runJobQueue } from './jobQueue';
+import type { JobEvent } from './jobQueue';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('runJobQueue', () => {
+  it('starts jobs no faster than the token bucket allows after the burst', async () => {
+    const startedAt: number[] = [];
+    const run = runJobQueue([1, 2, 3, 4], async item => {
+      startedAt.push(Date.now());
+      return item * 10;
+    }, { concurrency: 4, ratePerMinute: 2 });
+
+    await vi.advanceTimersByTimeAsync(60000);
+    const results = await run;
+
+    expect(startedAt).toEqual([0, 0, 30000, 60000]);
+    expect(results).toEqual([10, 20, 30, 40].map(value => ({ status: 'done', value })));
+  });
+
+  it('pauses every worker for the Retry-After delay of a rate-limited job', async () => {
+    const startedAt: Record<string, number[]> = { a: [], b: [] };
+    let limited = false;
+    const events: JobEvent[] = [];
+
+    const run = runJobQueue(['a', 'b'], async item => {
+      startedAt[item].push(Date.now());
+      if (item === 'a' && !limited) {
+        limited = true;
+        throw new ApiError('Rate limit exceeded', 429, 5000);
+      }
+      // b is still running when a is rate-limited, so its next start waits too
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      return item;
+    }, { concurrency: 1, ratePerMinute: 600, onEvent: event => events.push(event) });
+
+    await vi.advanceTimersByTimeAsync(10000);
+    const results = await run;
+
+    expect(startedAt).toEqual({ a: [0, 5000], b: [6000] });
+    expect(events.find(event => event.status === 'retrying')).toMatchObject({ index: 0, attempt: 1, delayMs: 5000 });
+    expect(results.map(result => result.status)).toEqual(['done', 'done']);
+  });
+
+  it('fails a job after the last retry and does not retry client errors', async () => {
+    const attempts = { limited: 0, invalid: 0 };
+    const run = runJobQueue(['limited', 'invalid'] as const, async item => {
+      attempts[item]++;
+      throw new ApiError(item, item === 'limited' ? 503 : 400);
+    }, { concurrency: 2, ratePerMinute: 600, maxRetries: 2, baseDelayMs: 100 });
+
+    await vi.advanceTimersByTimeAsync(10000);
+    const results = await run;
+
+    expect(attempts).toEqual({ limited: 3, invalid: 1 });
+    expect(results.map(result => result.status)).toEqual(['failed', 'failed']);
+  });
+
+  it('cancels running and queued jobs when the signal aborts', async () => {
+    const controller = new AbortController();
+    const worker = vi.fn((_item: number, signal?: AbortSignal) => new Promise<number>((_resolve, reject) => {
+      signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+
+    const run = runJobQueue([1, 2, 3], worker, { concurrency: 1, signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    const results = await run;
+
+    expect(worker).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([{ status: 'cancelled' }, { status: 'cancelled' }, { status: 'cancelled' }]);
+  });
+
+  it('uses the defaults for options passed as undefined', async () => {
+    const results = await runJobQueue([1, 2], async item => item, { concurrency: undefined, ratePerMinute: undefined });
+    expect(results).toEqual([{ status: 'done', value: 1 }, { status: 'done', value: 2 }]);
+  });
+
+  it('rejects rates that would never refill the bucket', async () => {
+    const worker = vi.fn(async (item: number) => item);
+    for (const ratePerMinute of [0, -5, Number.NaN]) {
+      await expect(runJobQueue([1], worker, { ratePerMinute })).rejects.toThrow('Invalid job queue rate');
+    }
+    expect(worker).not.toHaveBeenCalled();
+  });
+});
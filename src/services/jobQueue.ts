@@ -0,0 +1,219 @@
+/**
+ * Job Queue
+ *
+ * Runs async jobs with bounded concurrency, token-bucket rate limiting,
+ * Retry-After aware backoff and cancellation via AbortSignal
+ */
+
+import { ApiError } from './apiClient';
+
+export interface JobQueueOptions {
+  concurrency?: number;        // Jobs in flight at once
+  ratePerMinute?: number;      // Token bucket refill rate (also the burst size), must be positive
+  maxRetries?: number;         // Retries per job for rate limits / transient errors
+  baseDelayMs?: number;        // First backoff delay when no Retry-After is given
+  signal?: AbortSignal;
+  onEvent?: (event: JobEvent) => void;
+}
+
+export type JobStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface JobEvent {
+  index: number;
+  status: JobStatus;
+  attempt: number;
+  delayMs?: number;            // Set when status is 'retrying'
+  error?: string;
+  completed: number;           // Jobs finished so far (done, failed or cancelled)
+  total: number;
+}
+
+export type JobResult<R> =
+  | { status: 'done'; value: R }
+  | { status: 'failed'; error: Error }
+  | { status: 'cancelled' };
+
+const DEFAULT_OPTIONS = {
+  concurrency: 3,
+  ratePerMinute: 30,
+  maxRetries: 3,
+  baseDelayMs: 2000,
+};
+
+const MAX_BACKOFF_MS = 60000;
+
+function createAbortError(): Error {
+  const error = new Error('Cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Sleep that rejects early when the signal aborts
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Token bucket: `capacity` tokens, refilled continuously at `ratePerMinute`
+ */
+function createTokenBucket(ratePerMinute: number) {
+  const capacity = Math.max(1, ratePerMinute);
+  const refillPerMs = ratePerMinute / 60000;
+  let tokens = capacity;
+  let lastRefill = Date.now();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + (now - lastRefill) * refillPerMs);
+    lastRefill = now;
+  };
+
+  return {
+    async take(signal?: AbortSignal): Promise<void> {
+      for (;;) {
+        refill();
+        if (tokens >= 1) {
+          tokens -= 1;
+          return;
+        }
+        await wait(Math.ceil((1 - tokens) / refillPerMs), signal);
+      }
+    },
+    // Empty the bucket so no job starts before the server-imposed delay ends
+    drain() {
+      refill();
+      tokens = 0;
+    },
+  };
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof ApiError) {
+    return error.status === 429 || error.status === 500 || error.status === 503;
+  }
+  return false;
+}
+
+/**
+ * Run `worker` over every item and resolve with one result per item (input order)
+ * Failures and cancellations are reported per item; only invalid options reject
+ */
+export async function runJobQueue<T, R>(
+  items: T[],
+  worker: (item: T, signal?: AbortSignal) => Promise<R>,
+  options: JobQueueOptions = {}
+): Promise<JobResult<R>[]> {
+  // Options passed as undefined keep their defaults
+  const concurrency = options.concurrency ?? DEFAULT_OPTIONS.concurrency;
+  const ratePerMinute = options.ratePerMinute ?? DEFAULT_OPTIONS.ratePerMinute;
+  const maxRetries = options.maxRetries ?? DEFAULT_OPTIONS.maxRetries;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_OPTIONS.baseDelayMs;
+  const { signal, onEvent } = options;
+
+  // A bucket that never refills would wait forever
+  if (!(ratePerMinute > 0)) {
+    throw new Error(`Invalid job queue rate: ${ratePerMinute} per minute`);
+  }
+
+  const total = items.length;
+  const results: JobResult<R>[] = new Array(total);
+  const bucket = createTokenBucket(ratePerMinute);
+  let nextIndex = 0;
+  let completed = 0;
+  let pausedUntil = 0; // Shared Retry-After pause for all workers
+
+  const emit = (index: number, status: JobStatus, attempt: number, extra: Partial<JobEvent> = {}) => {
+    onEvent?.({ index, status, attempt, completed, total, ...extra });
+  };
+
+  items.forEach((_item, index) => emit(index, 'queued', 0));
+
+  const runJob = async (index: number) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const pause = pausedUntil - Date.now();
+        if (pause > 0) await wait(pause, signal);
+        await bucket.take(signal);
+
+        emit(index, 'running', attempt);
+        const value = await worker(items[index], signal);
+        results[index] = { status: 'done', value };
+        completed++;
+        emit(index, 'done', attempt);
+        return;
+      } catch (error) {
+        if (signal?.aborted || isAbortError(error)) {
+          results[index] = { status: 'cancelled' };
+          completed++;
+          emit(index, 'cancelled', attempt);
+          return;
+        }
+
+        const message = error instanceof Error ? error.message : 'Job failed';
+
+        if (attempt <= maxRetries && isRetryable(error)) {
+          const retryAfterMs = error instanceof ApiError ? error.retryAfterMs : null;
+          const backoff = Math.min(baseDelayMs * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+          const delayMs = retryAfterMs ?? backoff + Math.round(Math.random() * 250);
+
+          // A server-provided Retry-After applies to every worker, not just this one
+          if (retryAfterMs !== null) {
+            pausedUntil = Math.max(pausedUntil, Date.now() + delayMs);
+            bucket.drain();
+          }
+
+          emit(index, 'retrying', attempt, { delayMs, error: message });
+          try {
+            await wait(delayMs, signal);
+          } catch {
+            // Cancelled while backing off - handled on the next loop iteration
+          }
+          continue;
+        }
+
+        results[index] = { status: 'failed', error: error instanceof Error ? error : new Error(message) };
+        completed++;
+        emit(index, 'failed', attempt, { error: message });
+        return;
+      }
+    }
+  };
+
+  const runWorker = async () => {
+    while (nextIndex < total) {
+      const index = nextIndex++;
+      if (signal?.aborted) {
+        results[index] = { status: 'cancelled' };
+        completed++;
+        emit(index, 'cancelled', 0);
+        continue;
+      }
+      await runJob(index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, total));
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+
+  return results;
+}
@@ -0,0 +1,88 @@
+/**
+ * Layout Service
+ *
+ * Overlay layouts for the layout editor: the built-in LBL presets plus layouts saved on the
+ * API server (data/layouts.json), and live previews rendered by /api/overlay
+ */
+
+import { getJson, postJson, putJson, deleteJson } from './apiClient';
+import type { BilingualArrangement, TextRegion } from './textLayerService';
+
+// Mirrors LayoutSummary in server/layoutStoreServer.ts
+export interface LayoutSummary {
+  id: string;
+  name: string;
+  regionCount: number;
+  source: 'built-in' | 'saved';
+  overridesBuiltIn: boolean;
+}
+
+// Mirrors LanguageDefinition in server/languageRegistryServer.ts
+export interface OverlayLanguage {
+  name: string;
+  code: string;
+  script: string;
+}
+
+export interface OverlayPreviewOptions {
+  language: string;
+  secondaryLanguage?: string;  // Bilingual preview
+  arrangement?: BilingualArrangement;
+}
+
+/**
+ * List built-in and saved layouts
+ */
+export async function listLayouts(): Promise<LayoutSummary[]> {
+  const { layouts } = await getJson<{ layouts: LayoutSummary[] }>('/api/layouts');
+  return layouts;
+}
+
+/**
+ * Regions of a layout
+ */
+export async function getLayout(layoutId: string): Promise<TextRegion[]> {
+  const { regions } = await getJson<{ regions: TextRegion[] }>(`/api/layouts/${encodeURIComponent(layoutId)}`);
+  return regions;
+}
+
+/**
+ * Save a layout under an id (a built-in id saves an edited copy over the preset)
+ */
+export async function saveLayout(layoutId: string, name: string, regions: TextRegion[]): Promise<void> {
+  await putJson(`/api/layouts/${encodeURIComponent(layoutId)}`, { name, regions });
+  console.log(`[Layouts] Saved ${layoutId} (${regions.length} regions)`);
+}
+
+/**
+ * Delete a saved layout
+ */
+export async function deleteLayout(layoutId: string): Promise<void> {
+  await deleteJson(`/api/layouts/${encodeURIComponent(layoutId)}`);
+  console.log(`[Layouts] Deleted ${layoutId}`);
+}
+
+/**
+ * Languages the overlay renderer supports
+ */
+export async function listOverlayLanguages(): Promise<OverlayLanguage[]> {
+  const { languages } = await getJson<{ languages: OverlayLanguage[] }>('/api/languages');
+  return languages;
+}
+
+/**
+ * Render regions onto an image with the server's overlay renderer
+ */
+export async function previewOverlay(
+  imageBase64: string,
+  regions: TextRegion[],
+  options: OverlayPreviewOptions,
+  signal?: AbortSignal
+): Promise<string> {
+  const data = await postJson<{ imageBase64: string }>('/api/overlay', {
+    imageBase64,
+    regions,
+    ...options,
+  }, { signal });
+  return data.imageBase64;
+}
@@ -0,0 +1,76 @@
+/**
+ * Local Database (IndexedDB)
+ *
+ * Shared IndexedDB connection for browser-side persistence
+ * Add new object stores to STORES and bump DB_VERSION
+ */
+
+const DB_NAME = 'lbl-generator';
+const DB_VERSION = 4;
+
+// Object stores: name -> { keyPath, indexes }
+const STORES: Record<string, { keyPath: string; indexes: string[] }> = {
+  generations: { keyPath: 'id', indexes: ['documentId', 'createdAt'] },
+  extractions: { keyPath: 'key', indexes: ['documentId'] },
+  reviews: { keyPath: 'key', indexes: ['documentId'] },
+  revisions: { keyPath: 'id', indexes: ['documentId', 'componentKey'] },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isLocalDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Open (and upgrade if needed) the shared database
+ */
+export function openLocalDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const [name, { keyPath, indexes }] of Object.entries(STORES)) {
+        if (db.objectStoreNames.contains(name)) continue;
+        const store = db.createObjectStore(name, { keyPath });
+        for (const index of indexes) {
+          store.createIndex(index, index, { unique: false });
+        }
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error('Failed to open local database'));
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('IndexedDB request failed'));
+  });
+}
+
+/**
+ * Run a single request against an object store
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openLocalDb();
+  const transaction = db.transaction(storeName, mode);
+  return promisifyRequest(run(transaction.objectStore(storeName)));
+}
@@ -0,0 +1,92 @@
+/**
+ * Local Repository Service
+ *
+ * Reads documents and components from the API server's local repository
+ * (folder tree in the component-images layout + repository.json), for offline use without Supabase
+ */
+
+import { getJson, postJson, patchJson, deleteJson } from './apiClient';
+import type { ComponentChanges, ComponentData, ComponentId, Document, NewComponent } from './componentService';
+
+// Image paths come back relative to the API server
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+
+/**
+ * List documents in the local repository
+ */
+export async function getLocalDocuments(): Promise<Document[]> {
+  const { documents } = await getJson<{ documents: Document[] }>('/api/repository/documents');
+  console.log(`[LocalRepository] ${documents.length} documents`);
+  return documents;
+}
+
+/**
+ * List components for a local document (images are loaded later via loadComponentImages)
+ */
+export async function getLocalComponents(documentId: string): Promise<ComponentData[]> {
+  const { components } = await getJson<{ components: ComponentData[] }>(
+    `/api/repository/documents/${encodeURIComponent(documentId)}/components`
+  );
+
+  console.log(`[LocalRepository] ${components.length} components for ${documentId}`);
+  return components.map(withApiImagePath);
+}
+
+function withApiImagePath(comp: ComponentData): ComponentData {
+  return { ...comp, image_path: comp.image_path ? `${API_BASE_URL}${comp.image_path}` : null };
+}
+
+// documents/:id/components/:page/:filename for an existing local component
+function getComponentPath(component: ComponentData): string {
+  const { page, filename } = component.metadata || {};
+  if (typeof page !== 'string' || typeof filename !== 'string') {
+    throw new Error('Component has no repository file');
+  }
+  return `/api/repository/documents/${encodeURIComponent(component.product_id)}/components/${page}/${encodeURIComponent(filename)}`;
+}
+
+/**
+ * Create a local document from segmented component images
+ */
+export async function createLocalDocument(
+  details: Omit<Document, 'id'>,
+  components: NewComponent[]
+): Promise<Document> {
+  const { document } = await postJson<{ document: Document }>('/api/repository/documents', {
+    document: details,
+    components,
+  });
+
+  console.log(`[LocalRepository] Created document ${document.id}`);
+  return document;
+}
+
+/**
+ * Add a component (image and/or text) to a local document
+ */
+export async function addLocalComponent(
+  documentId: string,
+  componentId: ComponentId,
+  changes: ComponentChanges
+): Promise<ComponentData> {
+  const { component } = await postJson<{ component: ComponentData }>(
+    `/api/repository/documents/${encodeURIComponent(documentId)}/components`,
+    { componentId, ...changes }
+  );
+  return withApiImagePath(component);
+}
+
+/**
+ * Replace the image, content or metadata of a local component
+ */
+export async function updateLocalComponent(component: ComponentData, changes: ComponentChanges): Promise<ComponentData> {
+  const { component: updated } = await patchJson<{ component: ComponentData }>(getComponentPath(component), changes);
+  return withApiImagePath(updated);
+}
+
+/**
+ * Delete a local component, or only its image when `imageOnly` is set
+ */
+export async function deleteLocalComponent(component: ComponentData, imageOnly: boolean): Promise<void> {
+  await deleteJson(`${getComponentPath(component)}${imageOnly ? '?imageOnly=true' : ''}`);
+}
@@ -1,13 +1,5 @@
-import { GoogleGenAI } from "@google/genai";
 import { getReferenceImagesForApi } from './referenceImageService';
-
-const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-
-if (!apiKey) {
-  console.warn('VITE_GEMINI_API_KEY is not set. Image generation will not work.');
-}
-
-const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+import { postJson } from './apiClient';
 
 export interface GenerateImageOptions {
   prompt: string;
@@ -17,6 +9,7 @@ export interface GenerateImageOptions {
   labeledContent?: Array<{ text: string } | { inlineData: { mimeType: string; data: string } }>; // New: pre-built labeled content from buildApiContent
   includeDesignReferences?: boolean; // Whether to include reference folder images
   aspectRatio?: '1:1' | '3:4' | '4:3' | '9:16' | '16:9'; // Output aspect ratio
+  textFree?: boolean; // Visuals only - all copy is typeset afterwards (text layer mode)
 }
 
 export interface GenerateImageResult {
@@ -87,13 +80,10 @@ async function fitImageToAspectRatio(
 
 /**
  * Generate an image using Nano Banana Pro (Gemini 3 Pro Image)
+ * The Gemini call (and its retry logic) runs on the API server via /api/generate
  */
 export async function generateImage(options: GenerateImageOptions): Promise<GenerateImageResult> {
-  if (!ai) {
-    throw new Error('API key not configured. Please set VITE_GEMINI_API_KEY in your .env file.');
-  }
-
-  const { prompt, company, brand, referenceImages, labeledContent, includeDesignReferences = true, aspectRatio = '3:4' } = options;
+  const { prompt, company, brand, referenceImages, labeledContent, includeDesignReferences = true, aspectRatio = '3:4', textFree = false } = options;
 
   // Build the full prompt with brand context
   let fullPrompt = prompt;
@@ -106,8 +96,12 @@ export async function generateImage(options: GenerateImageOptions): Promise<Gene
     fullPrompt = `Product: ${brand.charAt(0).toUpperCase() + brand.slice(1)}\n\n${fullPrompt}`;
   }
 
-  // CRITICAL: Enforce English-only text generation
-  const textInstruction = `
+  // CRITICAL: Enforce English-only text generation (or no text at all in text layer mode)
+  const textInstruction = textFree ? `
+*** CRITICAL: DO NOT RENDER ANY TEXT ***
+
+All copy is typeset separately. The image must contain no letters, numbers or symbols.
+` : `
 *** CRITICAL: ALL TEXT MUST BE IN ENGLISH ***
 
 ALWAYS generate:
@@ -183,91 +177,48 @@ ${fullPrompt}
     imageCount = MAX_IMAGES;
   }
 
-  // Retry logic for transient 500 errors
-  const maxRetries = 3;
-  let lastError: Error | null = null;
+  console.log('[NanoBanana] Sending generation request to API server...');
 
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      console.log(`[NanoBanana] API call attempt ${attempt}/${maxRetries}...`);
-
-      const response = await ai.models.generateContent({
-        // model: 'imagen-3.0-generate-002', // Using available model with image generation
-        model: 'gemini-2.5-flash-image',
-        contents: contents,
-        config: {
-          responseModalities: ['image', 'text'],
-        }
-      });
+  const result = await postJson<GenerateImageResult>('/api/generate', { contents, textFree });
 
-      // Extract the generated image from response
-      const candidate = response.candidates?.[0];
-      if (!candidate?.content?.parts) {
-        throw new Error('No content in response');
-      }
-
-      // Find the image part in the response
-      for (const part of candidate.content.parts) {
-        if ('inlineData' in part && part.inlineData) {
-          let imageBase64 = part.inlineData.data as string;
-
-          // Fit to target aspect ratio (no cropping - adds padding)
-          try {
-            imageBase64 = await fitImageToAspectRatio(imageBase64, aspectRatio);
-          } catch (resizeErr) {
-            console.warn('Failed to fit image, using original:', resizeErr);
-          }
-
-          console.log(`[NanoBanana] Success on attempt ${attempt}`);
-          return {
-            imageBase64,
-            mimeType: 'image/png'
-          };
-        }
-      }
+  let imageBase64 = result.imageBase64;
 
-      // If no image found, check for text response (might be an error message)
-      for (const part of candidate.content.parts) {
-        if ('text' in part && part.text) {
-          throw new Error(`Model returned text instead of image: ${part.text}`);
-        }
-      }
-
-      throw new Error('No image generated in response');
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error('Unknown error');
-
-      // Check if it's a retryable error (500, 503, or network issues)
-      const isRetryable =
-        lastError.message.includes('500') ||
-        lastError.message.includes('503') ||
-        lastError.message.includes('INTERNAL') ||
-        lastError.message.includes('Internal error');
-
-      if (isRetryable && attempt < maxRetries) {
-        const delay = attempt * 2000; // 2s, 4s, 6s
-        console.warn(`[NanoBanana] Attempt ${attempt} failed with retryable error, waiting ${delay}ms before retry...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        continue;
-      }
-
-      // Non-retryable error or max retries reached
-      if (lastError.message.includes('429')) {
-        throw new Error('Rate limit exceeded. Please wait a moment and try again.');
-      }
-      if (lastError.message.includes('403')) {
-        throw new Error('API access denied. Please check your API key permissions.');
-      }
-      throw lastError;
-    }
+  // Fit to target aspect ratio (no cropping - adds padding)
+  try {
+    imageBase64 = await fitImageToAspectRatio(imageBase64, aspectRatio);
+  } catch (resizeErr) {
+    console.warn('Failed to fit image, using original:', resizeErr);
   }
 
-  throw lastError || new Error('Unknown error occurred during image generation');
+  return {
+    imageBase64,
+    mimeType: 'image/png'
+  };
+}
+
+// Region as fractions (0-1) of the image width/height
+export interface EditRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 /**
- * Check if the API is properly configured
+ * Edit one rectangle of a generated LBL
+ * The API server composites only that region back, so logos and the rest of the image are preserved
  */
-export function isApiConfigured(): boolean {
-  return !!apiKey && !!ai;
+export async function editImageRegion(
+  imageBase64: string,
+  region: EditRegion,
+  instruction: string
+): Promise<GenerateImageResult> {
+  console.log('[NanoBanana] Sending region edit request to API server...');
+
+  const result = await postJson<GenerateImageResult>('/api/edit', { imageBase64, region, instruction });
+
+  return {
+    imageBase64: result.imageBase64,
+    mimeType: result.mimeType
+  };
 }
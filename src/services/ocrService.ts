@@ -0,0 +1,68 @@
+/**
+ * OCR Service
+ *
+ * Reads the text back out of a generated LBL with the vision model, one block per visible
+ * line or paragraph with its bounding box, so the output can be checked against the sources
+ */
+
+import { postJson } from './apiClient';
+import { BBOX_SCALE } from './segmentationService';
+import type { BBox } from './segmentationService';
+
+export interface OcrBlock {
+  text: string;
+  bbox: BBox;                  // [ymin, xmin, ymax, xmax] scaled 0-BBOX_SCALE
+}
+
+export interface OcrResult {
+  blocks: OcrBlock[];
+  text: string;                // All blocks joined in reading order
+}
+
+const OCR_PROMPT = `OCR TASK: Transcribe every piece of visible text in this pharmaceutical LBL image.
+
+RULES:
+- One entry per line or short paragraph, in reading order (top to bottom, left to right)
+- Copy text exactly as printed, including numbers, units, symbols and punctuation
+- Write superscript citation markers as Unicode superscripts (¹ ² ³) directly after the word they follow
+- Include small print: disclaimers, references, footnotes, abbreviations
+- Skip text that is part of a logo wordmark
+- bbox is [ymin, xmin, ymax, xmax] scaled 0-${BBOX_SCALE} relative to the image
+
+Return ONLY a JSON array: [{ "text": "Onset of action in 15 minutes¹", "bbox": [ymin, xmin, ymax, xmax] }]`;
+
+function isBBox(value: unknown): value is BBox {
+  return Array.isArray(value) && value.length === 4 && value.every(n => typeof n === 'number');
+}
+
+function parseBlocks(text: string): OcrBlock[] {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const parsed: unknown = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new Error('OCR response is not a JSON array');
+  }
+
+  return parsed
+    .filter(item => typeof item?.text === 'string' && item.text.trim())
+    .map(item => ({
+      text: item.text.trim(),
+      bbox: isBBox(item.bbox) ? item.bbox : [0, 0, BBOX_SCALE, BBOX_SCALE],
+    }));
+}
+
+/**
+ * Transcribe all text in an image
+ */
+export async function ocrImage(imageBase64: string, mimeType: string, signal?: AbortSignal): Promise<OcrResult> {
+  const data = await postJson<{ text: string | null }>('/api/extract-batch', {
+    task: 'ocr',
+    contents: [
+      { text: OCR_PROMPT },
+      { inlineData: { mimeType, data: imageBase64 } },
+    ],
+  }, { signal });
+
+  const blocks = data.text ? parseBlocks(data.text) : [];
+  console.log(`[OCR] ${blocks.length} text blocks`);
+  return { blocks, text: blocks.map(b => b.text).join('\n') };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { COMPONENT_IDS } from './componentService';
+import type { ComponentData, ComponentId } from './componentService';
+import { buildReadinessReport, reportToCsv } from './readinessService';
+
+const document = { id: 'doc-1', name: 'Nebzmart' };
+
+function component(componentId: ComponentId, page = 'page-1', fields: Partial<ComponentData> = {}): ComponentData {
+  return {
+    id: `doc-1-${page}-${componentId}-1.png`,
+    product_id: 'doc-1',
+    component_id: componentId,
+    content: `${componentId} text on ${page}`,
+    image_path: null,
+    image_base64: null,
+    bbox: null,
+    metadata: { page, filename: `${componentId}-1.png` },
+    created_at: '',
+    updated_at: '',
+    ...fields,
+  };
+}
+
+describe('buildReadinessReport', () => {
+  it('scores a complete document at 100 with every focus area ready', async () => {
+    const report = await buildReadinessReport(document, COMPONENT_IDS.map(id => component(id)));
+
+    expect(report.score).toBe(100);
+    expect(report.sections.every(section => section.score === 100 && section.missingMandatory.length === 0)).toBe(true);
+    expect(report.focusAreas.every(area => area.ready)).toBe(true);
+    expect(report.duplicates).toEqual([]);
+  });
+
+  it('weights sections by criticality and counts conditional components only when present', async () => {
+    // REG: 4 mandatory (4), 1 optional (0.5), 3 supporting (1), REG_04 conditional
+    const mandatoryOnly = await buildReadinessReport(document, [component('REG_01'), component('REG_02')]);
+    const reg = mandatoryOnly.sections.find(section => section.section === 'REG')!;
+    expect(reg).toMatchObject({ score: Math.round(8 / 19.5 * 100), filled: 2, total: 9, missingMandatory: ['REG_03', 'REG_05'] });
+
+    const withConditional = await buildReadinessReport(document, [component('REG_01'), component('REG_02'), component('REG_04')]);
+    expect(withConditional.sections.find(section => section.section === 'REG')!.score).toBe(Math.round(9 / 20.5 * 100));
+  });
+
+  it('treats components without text or image as empty, not filled', async () => {
+    const report = await buildReadinessReport(document, [
+      component('INS_04', 'page-1', { content: '  ' }),
+      component('SOL_02', 'page-1', { content: null, image_path: 'components/sol.png' }),
+    ]);
+
+    expect(report.components.find(item => item.componentId === 'INS_04')).toMatchObject({ status: 'empty', count: 1 });
+    expect(report.components.find(item => item.componentId === 'SOL_02')).toMatchObject({ status: 'filled' });
+    expect(report.components.find(item => item.componentId === 'SAFE_01')).toMatchObject({ status: 'missing', count: 0 });
+    expect(report.sections.find(section => section.section === 'INS')!.missingMandatory).toEqual(['INS_04']);
+    expect(report.focusAreas.find(area => area.focusArea === 'Efficacy')!.missing).toContain('INS_04');
+    expect(report.focusAreas.find(area => area.focusArea === 'Efficacy')!.missing).not.toContain('SOL_02');
+  });
+
+  it('groups repeated IDs, text and images across pages', async () => {
+    const report = await buildReadinessReport(document, [
+      component('SOL_01', 'page-1'),
+      component('SOL_01', 'page-3'),
+      component('EVID_01', 'page-1', { content: 'Reduces  exacerbations' }),
+      component('EVID_03', 'page-2', { content: 'reduces exacerbations' }),
+      component('INIT_02', 'page-1', { content: null, image_base64: 'bG9nbw==' }),
+      component('COMM_04', 'page-4', { content: null, image_base64: 'bG9nbw==' }),
+    ]);
+
+    expect(report.duplicates).toEqual([
+      { kind: 'id', preview: 'USP/Claims', componentIds: ['SOL_01'], pages: ['page-1', 'page-3'] },
+      { kind: 'content', preview: 'Reduces  exacerbations', componentIds: ['EVID_01', 'EVID_03'], pages: ['page-1', 'page-2'] },
+      { kind: 'image', preview: 'Identical image', componentIds: ['INIT_02', 'COMM_04'], pages: ['page-1', 'page-4'] },
+    ]);
+    expect(report.components.find(item => item.componentId === 'SOL_01')).toMatchObject({ count: 2, pages: ['page-1', 'page-3'] });
+  });
+
+  it('names the report after the document, falling back to its title, brand or ID', async () => {
+    expect((await buildReadinessReport({ id: 'doc-2', brand_name: 'Nebzmart' }, [])).documentName).toBe('Nebzmart');
+    expect((await buildReadinessReport({ id: 'doc-2' }, [])).documentName).toBe('doc-2');
+  });
+});
+
+describe('reportToCsv', () => {
+  it('writes the summary, section, focus area, duplicate and component tables', async () => {
+    const report = await buildReadinessReport(document, [component('SOL_01', 'page-1'), component('SOL_01', 'page-2')]);
+    const lines = reportToCsv(report).split('\n');
+
+    expect(lines.slice(0, 3)).toEqual(['Document,Nebzmart', `Generated,${report.generatedAt}`, `Overall score,${report.score}`]);
+    expect(lines).toContain('Section,Score,Filled,Total,Missing mandatory');
+    expect(lines).toContain('Focus area,Ready,Missing');
+    expect(lines).toContain('id,SOL_01,page-1 page-2,USP/Claims');
+    expect(lines).toContain('SOL_01,USP/Claims,SOL,MANDATORY,filled,2,page-1 page-2');
+    expect(lines.filter(line => line === '')).toHaveLength(4);
+  });
+
+  it('quotes cells with commas, quotes and line breaks', async () => {
+    const report = await buildReadinessReport({ id: 'doc-1', name: 'Nebzmart "XL", 2026' }, [
+      component('EVID_01', 'page-1', { content: 'Fast, "proven"\nrelief' }),
+      component('EVID_03', 'page-2', { content: 'fast, "proven" relief' }),
+    ]);
+    const csv = reportToCsv(report);
+
+    expect(csv.startsWith('Document,"Nebzmart ""XL"", 2026"\n')).toBe(true);
+    expect(csv).toContain('content,EVID_01 EVID_03,page-1 page-2,"Fast, ""proven""\nrelief"');
+  });
+});
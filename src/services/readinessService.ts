@@ -0,0 +1,224 @@
+/**
+ * Readiness Report Service
+ *
+ * Scores a document against the SOMA 53 component spec: per-section completeness weighted by
+ * criticality, missing components per focus area and duplicates across pages
+ * Exportable as CSV/JSON for the brand team
+ */
+
+import {
+  COMPONENT_IDS,
+  COMPONENT_METADATA,
+  DEFAULT_SELECTED_COMPONENTS,
+} from './componentService';
+import type { ComponentData, ComponentId, ComponentSection, Criticality, Document } from './componentService';
+import { hashImage } from './extractionCacheService';
+
+export const REPORT_SECTIONS: ComponentSection[] = ['INIT', 'INS', 'SOL', 'EVID', 'SAFE', 'SERV', 'COMM', 'REG'];
+
+// Score weight per criticality - CONDITIONAL components only count when present
+const CRITICALITY_WEIGHTS: Record<Criticality, number> = {
+  MANDATORY: 4,
+  CORE: 3,
+  IMPORTANT: 3,
+  SUPPORTING: 1,
+  OPTIONAL: 0.5,
+  CONDITIONAL: 0,
+};
+
+// Missing components at these levels block a focus area
+const FOCUS_AREA_CRITICALITIES: Criticality[] = ['MANDATORY', 'CORE', 'IMPORTANT'];
+
+export type ComponentStatus = 'filled' | 'empty' | 'missing';
+
+export interface ComponentReadiness {
+  componentId: ComponentId;
+  name: string;
+  section: ComponentSection;
+  criticality: Criticality;
+  status: ComponentStatus;     // empty = in the repository without text or image
+  count: number;
+  pages: string[];
+}
+
+export interface SectionReadiness {
+  section: ComponentSection;
+  score: number;               // 0-100, weighted by criticality
+  filled: number;
+  total: number;
+  missingMandatory: ComponentId[];
+}
+
+export interface FocusAreaReadiness {
+  focusArea: string;
+  ready: boolean;
+  missing: ComponentId[];      // MANDATORY/CORE/IMPORTANT only
+}
+
+export interface DuplicateGroup {
+  kind: 'id' | 'content' | 'image';
+  componentIds: ComponentId[];
+  pages: string[];
+  preview: string;
+}
+
+export interface ReadinessReport {
+  documentId: string;
+  documentName: string;
+  generatedAt: string;
+  score: number;
+  sections: SectionReadiness[];
+  focusAreas: FocusAreaReadiness[];
+  duplicates: DuplicateGroup[];
+  components: ComponentReadiness[];
+}
+
+function getPage(component: ComponentData): string {
+  return typeof component.metadata?.page === 'string' ? component.metadata.page : 'page-1';
+}
+
+function isFilled(component: ComponentData): boolean {
+  return !!component.content?.trim() || !!component.image_path || !!component.image_base64;
+}
+
+function toScore(earned: number, possible: number): number {
+  return possible > 0 ? Math.round((earned / possible) * 100) : 100;
+}
+
+function normalizeContent(content: string): string {
+  return content.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Entries that repeat across pages: the same component ID, identical text or identical images
+ */
+async function findDuplicates(components: ComponentData[]): Promise<DuplicateGroup[]> {
+  const groups = new Map<string, { kind: DuplicateGroup['kind']; preview: string; entries: ComponentData[] }>();
+  const add = (key: string, kind: DuplicateGroup['kind'], preview: string, component: ComponentData) => {
+    const group = groups.get(key) || { kind, preview, entries: [] };
+    group.entries.push(component);
+    groups.set(key, group);
+  };
+
+  for (const component of components) {
+    // Rows from Supabase, the local repository or a filename parse can carry IDs outside the SOMA table
+    add(`id:${component.component_id}`, 'id', COMPONENT_METADATA[component.component_id]?.name ?? component.component_id, component);
+    if (component.content?.trim()) {
+      add(`content:${normalizeContent(component.content)}`, 'content', component.content.slice(0, 80), component);
+    }
+    if (component.image_base64) {
+      add(`image:${await hashImage(component.image_base64)}`, 'image', 'Identical image', component);
+    }
+  }
+
+  return [...groups.values()]
+    .map(({ kind, preview, entries }) => ({
+      kind,
+      preview,
+      componentIds: [...new Set(entries.map(c => c.component_id))],
+      pages: [...new Set(entries.map(getPage))].sort(),
+    }))
+    .filter(group => group.pages.length > 1);
+}
+
+/**
+ * Build the readiness report for a loaded document
+ */
+export async function buildReadinessReport(document: Document, components: ComponentData[]): Promise<ReadinessReport> {
+  const byId = new Map<ComponentId, ComponentData[]>();
+  for (const component of components) {
+    byId.set(component.component_id, [...(byId.get(component.component_id) || []), component]);
+  }
+
+  const items: ComponentReadiness[] = COMPONENT_IDS.map(id => {
+    const meta = COMPONENT_METADATA[id];
+    const entries = byId.get(id) || [];
+    return {
+      componentId: id,
+      name: meta.name,
+      section: meta.section,
+      criticality: meta.criticality,
+      status: entries.length === 0 ? 'missing' : entries.some(isFilled) ? 'filled' : 'empty',
+      count: entries.length,
+      pages: [...new Set(entries.map(getPage))].sort(),
+    };
+  });
+
+  let earnedTotal = 0;
+  let possibleTotal = 0;
+  const sections = REPORT_SECTIONS.map(section => {
+    const sectionItems = items.filter(item => item.section === section);
+    let earned = 0;
+    let possible = 0;
+    for (const item of sectionItems) {
+      const weight = item.criticality === 'CONDITIONAL' && item.status === 'filled' ? 1 : CRITICALITY_WEIGHTS[item.criticality];
+      possible += weight;
+      if (item.status === 'filled') earned += weight;
+    }
+    earnedTotal += earned;
+    possibleTotal += possible;
+
+    return {
+      section,
+      score: toScore(earned, possible),
+      filled: sectionItems.filter(item => item.status === 'filled').length,
+      total: sectionItems.length,
+      missingMandatory: sectionItems
+        .filter(item => item.criticality === 'MANDATORY' && item.status !== 'filled')
+        .map(item => item.componentId),
+    };
+  });
+
+  const focusAreas = Object.entries(DEFAULT_SELECTED_COMPONENTS).map(([focusArea, ids]) => {
+    const missing = ids.filter(id =>
+      FOCUS_AREA_CRITICALITIES.includes(COMPONENT_METADATA[id].criticality) &&
+      items.find(item => item.componentId === id)?.status !== 'filled'
+    );
+    return { focusArea, ready: missing.length === 0, missing };
+  });
+
+  return {
+    documentId: document.id,
+    documentName: document.name || document.title || document.brand_name || document.id,
+    generatedAt: new Date().toISOString(),
+    score: toScore(earnedTotal, possibleTotal),
+    sections,
+    focusAreas,
+    duplicates: await findDuplicates(components),
+    components: items,
+  };
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per SOMA component plus summary rows for sections, focus areas and duplicates
+ */
+export function reportToCsv(report: ReadinessReport): string {
+  const rows: (string | number)[][] = [
+    ['Document', report.documentName],
+    ['Generated', report.generatedAt],
+    ['Overall score', report.score],
+    [],
+    ['Section', 'Score', 'Filled', 'Total', 'Missing mandatory'],
+    ...report.sections.map(s => [s.section, s.score, s.filled, s.total, s.missingMandatory.join(' ')]),
+    [],
+    ['Focus area', 'Ready', 'Missing'],
+    ...report.focusAreas.map(f => [f.focusArea, f.ready ? 'yes' : 'no', f.missing.join(' ')]),
+    [],
+    ['Duplicate', 'Components', 'Pages', 'Preview'],
+    ...report.duplicates.map(d => [d.kind, d.componentIds.join(' '), d.pages.join(' '), d.preview]),
+    [],
+    ['Component', 'Name', 'Section', 'Criticality', 'Status', 'Count', 'Pages'],
+    ...report.components.map(c => [c.componentId, c.name, c.section, c.criticality, c.status, c.count, c.pages.join(' ')]),
+  ];
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+export function reportToJson(report: ReadinessReport): string {
+  return JSON.stringify(report, null, 2);
+}
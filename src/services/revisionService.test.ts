@@ -0,0 +1,119 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import type { ComponentChanges, ComponentData } from './componentService';
+import { rollbackComponent, updateComponent } from './componentService';
+import { diffRevisions, getRevisionRefs, getRevisions, recordRevision } from './revisionService';
+
+// Local repository writes go to the API server; here they just apply the changes
+vi.mock('./localRepositoryService', () => ({
+  updateLocalComponent: vi.fn(async (component: ComponentData, changes: ComponentChanges) => ({
+    ...component,
+    ...(changes.content !== undefined ? { content: changes.content } : {}),
+    ...(changes.metadata !== undefined ? { metadata: { ...changes.metadata, page: component.metadata?.page, filename: component.metadata?.filename } } : {}),
+    ...(changes.imageBase64 ? { image_base64: changes.imageBase64 } : {}),
+  })),
+}));
+
+let documentCount = 0;
+
+// Each test works on its own document, so revision histories never mix
+function component(content: string, imageBase64: string | null = null): ComponentData {
+  const documentId = `doc-${++documentCount}`;
+  return {
+    id: `${documentId}-page-1-EVID_01-1.png`,
+    product_id: documentId,
+    component_id: 'EVID_01',
+    content,
+    image_path: null,
+    image_base64: imageBase64,
+    bbox: null,
+    metadata: { page: 'page-1', filename: 'EVID_01-1.png', source: 'segmentation' },
+    created_at: '',
+    updated_at: '',
+  };
+}
+
+const author = { author: 'reviewer', reason: 'Fix claim' };
+
+describe('recordRevision', () => {
+  it('numbers revisions per component and skips unchanged states', async () => {
+    const original = component('Reduces exacerbations by 12%-15%');
+    const first = await recordRevision(original, author, 'create');
+    const again = await recordRevision(original, author, 'edit');
+    const second = await recordRevision({ ...original, content: 'Reduces exacerbations by 15%' }, author, 'edit');
+
+    expect(first?.revision).toBe(1);
+    expect(again?.id).toBe(first?.id);
+    expect(second).toMatchObject({ revision: 2, action: 'edit', author: 'reviewer', reason: 'Fix claim' });
+  });
+
+  it('ignores page, filename and other transient metadata', async () => {
+    const original = component('Once daily');
+    await recordRevision(original, author, 'create');
+    const moved = await recordRevision({ ...original, metadata: { ...original.metadata, page: 'page-2', reviewStatus: 'approved' } }, author, 'edit');
+
+    expect(moved?.revision).toBe(1);
+    expect(moved?.metadata).toEqual({ source: 'segmentation' });
+  });
+});
+
+describe('getRevisionRefs', () => {
+  it('records a baseline for new components and a snapshot after outside changes', async () => {
+    const original = component('Quick onset of action within 5 mins');
+    const [baselineRef] = await getRevisionRefs([original]);
+    const [sameRef] = await getRevisionRefs([original]);
+    const [snapshotRef] = await getRevisionRefs([{ ...original, content: 'Quick onset of action within 3 mins' }]);
+
+    expect(sameRef).toEqual(baselineRef);
+    expect(snapshotRef.revision).toBe(2);
+    expect((await getRevisions(original)).map(r => [r.action, r.reason])).toEqual([
+      ['baseline', 'Initial version'],
+      ['snapshot', 'Snapshot for generation'],
+    ]);
+  });
+
+  it('skips components without content or image', async () => {
+    expect(await getRevisionRefs([component('')])).toEqual([]);
+  });
+});
+
+describe('diffRevisions', () => {
+  it('reports content, metadata and image changes', async () => {
+    const original = component('Improves lung function', 'aW1hZ2UtMQ==');
+    const before = (await recordRevision(original, author, 'create'))!;
+    const after = (await recordRevision({
+      ...original,
+      content: 'Improves lung function by 120 ml',
+      metadata: { ...original.metadata, source: 'manual' },
+      image_base64: 'aW1hZ2UtMg==',
+    }, author, 'edit'))!;
+
+    const diff = diffRevisions(before, after);
+    expect(diff.imageChanged).toBe(true);
+    expect(diff.metadata).toEqual([{ key: 'source', before: 'segmentation', after: 'manual' }]);
+    expect(diff.content.filter(segment => segment.type !== 'same')).toEqual([{ type: 'added', text: 'by 120 ml' }]);
+  });
+});
+
+describe('rollbackComponent', () => {
+  it('restores content and image of an earlier revision as a new revision', async () => {
+    const original = component('Reduces exacerbations by 12%-15%', 'aW1hZ2UtMQ==');
+    const edited = await updateComponent(original, { content: 'Reduces exacerbations by 15%', imageBase64: 'aW1hZ2UtMg==' }, author);
+    const [baseline] = await getRevisions(original);
+
+    const restored = await rollbackComponent(edited, baseline, 'lead');
+
+    expect(restored).toMatchObject({ content: 'Reduces exacerbations by 12%-15%', image_base64: 'aW1hZ2UtMQ==' });
+    expect((await getRevisions(original)).map(r => [r.revision, r.action, r.author, r.reason])).toEqual([
+      [1, 'baseline', 'system', 'Initial version'],
+      [2, 'edit', 'reviewer', 'Fix claim'],
+      [3, 'rollback', 'lead', 'Rollback to r1'],
+    ]);
+  });
+
+  it('refuses to roll back to a deletion', async () => {
+    const original = component('Store below 30°C');
+    const deleted = (await recordRevision(original, author, 'delete'))!;
+    await expect(rollbackComponent(original, deleted, 'lead')).rejects.toThrow('Cannot roll back to a deleted revision');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Component Revision Service
+ *
+ * Versioned history of component content and images: every repository write records a revision
+ * with author and reason, so edits can be diffed, rolled back and traced from generated LBLs
+ * Stored locally in IndexedDB alongside generation history
+ */
+
+import { isLocalDbAvailable, withStore } from './localDb';
+import type { ComponentData, ComponentId } from './componentService';
+import { getComponentFile, hashImage } from './extractionCacheService';
+import { diffWords } from '../utils/textDiff';
+import type { DiffSegment } from '../utils/textDiff';
+
+const STORE = 'revisions';
+
+// Set by the app at runtime - not part of the component's source content
+const TRANSIENT_METADATA_KEYS = ['page', 'filename', 'rowId', 'extractionConfidence', 'reviewStatus', 'structured'];
+
+// snapshot: state captured for a generation after changes made outside the component editor
+export type RevisionAction = 'baseline' | 'create' | 'edit' | 'snapshot' | 'rollback' | 'delete';
+
+export interface RevisionInfo {
+  author: string;
+  reason: string;
+}
+
+export interface ComponentRevision {
+  id: string;
+  documentId: string;
+  componentKey: string;        // documentId|componentFile
+  componentId: ComponentId;
+  revision: number;            // 1-based per componentKey
+  action: RevisionAction;
+  content: string | null;
+  metadata: Record<string, unknown> | null;
+  imageHash: string | null;
+  imageBase64: string | null;  // Snapshot kept for rollback
+  author: string;
+  reason: string;
+  createdAt: string;
+}
+
+// Which revision of a component a generation used
+export interface RevisionRef {
+  componentId: ComponentId;
+  componentKey: string;
+  revision: number;
+  revisionId: string;
+}
+
+export interface RevisionDiff {
+  content: DiffSegment[];
+  metadata: { key: string; before: unknown; after: unknown }[];
+  imageChanged: boolean;
+}
+
+function getComponentKey(component: ComponentData): string {
+  return `${component.product_id}|${getComponentFile(component)}`;
+}
+
+function getSourceMetadata(component: ComponentData): Record<string, unknown> | null {
+  const metadata = Object.fromEntries(
+    Object.entries(component.metadata || {}).filter(([key]) => !TRANSIENT_METADATA_KEYS.includes(key))
+  );
+  return Object.keys(metadata).length > 0 ? metadata : null;
+}
+
+/**
+ * All revisions of one component, oldest first
+ */
+export async function getRevisions(component: ComponentData): Promise<ComponentRevision[]> {
+  if (!isLocalDbAvailable()) return [];
+
+  const revisions = await withStore<ComponentRevision[]>(STORE, 'readonly', store =>
+    store.index('componentKey').getAll(getComponentKey(component))
+  );
+  return revisions.sort((a, b) => a.revision - b.revision);
+}
+
+/**
+ * Record the current state of a component as a new revision
+ * Skipped (returns the latest revision) when nothing changed, unless it is a delete
+ */
+export async function recordRevision(
+  component: ComponentData,
+  info: RevisionInfo,
+  action: RevisionAction
+): Promise<ComponentRevision | null> {
+  if (!isLocalDbAvailable()) return null;
+
+  const history = await getRevisions(component);
+  const latest = history[history.length - 1];
+  const isDelete = action === 'delete';
+
+  const content = isDelete ? null : component.content;
+  const metadata = isDelete ? null : getSourceMetadata(component);
+  const imageBase64 = isDelete ? null : component.image_base64;
+  const imageHash = imageBase64 ? await hashImage(imageBase64) : null;
+
+  const unchanged = latest && latest.action !== 'delete' &&
+    latest.content === content &&
+    JSON.stringify(latest.metadata) === JSON.stringify(metadata) &&
+    latest.imageHash === imageHash;
+  if (unchanged && !isDelete) return latest;
+
+  const revision: ComponentRevision = {
+    id: `rev-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+    documentId: component.product_id,
+    componentKey: getComponentKey(component),
+    componentId: component.component_id,
+    revision: (latest?.revision || 0) + 1,
+    action,
+    content,
+    metadata,
+    imageHash,
+    imageBase64,
+    author: info.author,
+    reason: info.reason,
+    createdAt: new Date().toISOString(),
+  };
+
+  await withStore(STORE, 'readwrite', store => store.put(revision));
+  console.log(`[Revisions] ${revision.componentKey} r${revision.revision} (${action}) by ${info.author}`);
+  return revision;
+}
+
+/**
+ * Make sure a component has a first revision capturing its state before any edit
+ */
+export async function ensureBaseline(component: ComponentData): Promise<ComponentRevision | null> {
+  const history = await getRevisions(component);
+  if (history.length > 0) return history[history.length - 1];
+  return recordRevision(component, { author: 'system', reason: 'Initial version' }, 'baseline');
+}
+
+/**
+ * Revision matching the current state of every component that feeds a generation
+ * Content or images changed since the latest revision (re-extraction, reviewer edits) are recorded
+ * first as a 'snapshot'; a component without history gets its baseline instead
+ */
+export async function getRevisionRefs(components: ComponentData[]): Promise<RevisionRef[]> {
+  const refs: RevisionRef[] = [];
+
+  for (const component of components) {
+    if (!component.content && !component.image_base64) continue;
+    await ensureBaseline(component);
+    const revision = await recordRevision(component, { author: 'system', reason: 'Snapshot for generation' }, 'snapshot');
+    if (!revision) continue;
+
+    refs.push({
+      componentId: component.component_id,
+      componentKey: revision.componentKey,
+      revision: revision.revision,
+      revisionId: revision.id,
+    });
+  }
+
+  return refs;
+}
+
+/**
+ * Compare two revisions of the same component
+ */
+export function diffRevisions(before: ComponentRevision, after: ComponentRevision): RevisionDiff {
+  const keys = new Set([...Object.keys(before.metadata || {}), ...Object.keys(after.metadata || {})]);
+  const metadata = [...keys]
+    .map(key => ({ key, before: before.metadata?.[key], after: after.metadata?.[key] }))
+    .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+
+  return {
+    content: diffWords(before.content || '', after.content || ''),
+    metadata,
+    imageChanged: before.imageHash !== after.imageHash,
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Segmentation Service
+ *
+ * Turns rendered brand deck pages into SOMA components:
+ * the vision model detects labelled regions (bbox + ComponentId) per page,
+ * regions are cropped and contour-trimmed, then written to the repository as a new document
+ */
+
+import { postJson } from './apiClient';
+import { runJobQueue } from './jobQueue';
+import type { JobEvent } from './jobQueue';
+import { contourCropImage } from './contourCropService';
+import { COMPONENT_IDS, COMPONENT_METADATA, createDocument } from './componentService';
+import type { ComponentId, Document } from './componentService';
+
+// Bounding boxes use the model's native [ymin, xmin, ymax, xmax] scale
+export const BBOX_SCALE = 1000;
+
+export type BBox = [number, number, number, number];
+
+export interface SegmentationPage {
+  page: number;                // 1-based
+  imageBase64: string;
+  mimeType: string;
+}
+
+export interface DetectedRegion {
+  id: string;
+  page: number;
+  componentId: ComponentId;
+  bbox: BBox;                  // [ymin, xmin, ymax, xmax], 0-1000
+}
+
+export interface SegmentationResult {
+  regions: DetectedRegion[];
+  failedPages: number[];
+}
+
+function buildSegmentationPrompt(): string {
+  const componentList = COMPONENT_IDS
+    .map(id => `- ${id}: ${COMPONENT_METADATA[id].name} (${COMPONENT_METADATA[id].type})`)
+    .join('\n');
+
+  return `SEGMENTATION TASK: This is one page of a pharmaceutical brand deck.
+Find every region that matches one of the components below and return its bounding box.
+
+COMPONENTS:
+${componentList}
+
+RULES:
+- One entry per visible region; a component may appear several times (e.g. several claims)
+- bbox is [ymin, xmin, ymax, xmax] scaled 0-${BBOX_SCALE} relative to the page
+- Boxes should tightly enclose the region including its heading, without neighbouring content
+- Skip decorative elements that match no component
+
+Return ONLY a JSON array: [{ "componentId": "EVID_01", "bbox": [ymin, xmin, ymax, xmax] }]`;
+}
+
+function clampBBoxValue(value: number): number {
+  return Math.min(Math.max(Math.round(value), 0), BBOX_SCALE);
+}
+
+/**
+ * Parse the model response into regions, dropping unknown IDs and invalid boxes
+ */
+function parseRegions(text: string, page: number): DetectedRegion[] {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const parsed: unknown = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Segmentation response is not a JSON array');
+  }
+
+  const regions: DetectedRegion[] = [];
+  for (const item of parsed) {
+    const componentId = item?.componentId as ComponentId;
+    const bbox = item?.bbox;
+    if (!COMPONENT_METADATA[componentId]) continue;
+    if (!Array.isArray(bbox) || bbox.length !== 4 || !bbox.every(n => typeof n === 'number')) continue;
+
+    const [ymin, xmin, ymax, xmax] = bbox.map(clampBBoxValue);
+    if (ymax <= ymin || xmax <= xmin) continue;
+
+    regions.push({
+      id: `p${page}-${regions.length + 1}-${componentId}`,
+      page,
+      componentId,
+      bbox: [ymin, xmin, ymax, xmax],
+    });
+  }
+
+  return regions;
+}
+
+/**
+ * Ask the vision model for component regions on one page
+ */
+export async function detectRegions(page: SegmentationPage, signal?: AbortSignal): Promise<DetectedRegion[]> {
+  const data = await postJson<{ text: string | null }>('/api/extract-batch', {
+    task: 'segmentation',
+    contents: [
+      { text: buildSegmentationPrompt() },
+      { inlineData: { mimeType: page.mimeType, data: page.imageBase64 } },
+    ],
+  }, { signal });
+
+  const regions = data.text ? parseRegions(data.text, page.page) : [];
+  console.log(`[Segmentation] Page ${page.page}: ${regions.length} regions`);
+  return regions;
+}
+
+/**
+ * Detect regions on every page through the rate-limited job queue
+ * Pages that fail are reported so they can be segmented by hand
+ */
+export async function segmentPages(
+  pages: SegmentationPage[],
+  options: { signal?: AbortSignal; onEvent?: (event: JobEvent) => void } = {}
+): Promise<SegmentationResult> {
+  const results = await runJobQueue(pages, detectRegions, { concurrency: 2, ...options });
+
+  const regions: DetectedRegion[] = [];
+  const failedPages: number[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'done') regions.push(...result.value);
+    else failedPages.push(pages[index].page);
+  });
+
+  return { regions, failedPages };
+}
+
+function loadImage(imageBase64: string, mimeType: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load page image'));
+    img.src = `data:${mimeType};base64,${imageBase64}`;
+  });
+}
+
+/**
+ * Crop one region out of its page and trim surrounding whitespace
+ */
+export async function cropRegion(page: SegmentationPage, bbox: BBox): Promise<string> {
+  const img = await loadImage(page.imageBase64, page.mimeType);
+  const [ymin, xmin, ymax, xmax] = bbox;
+
+  const x = Math.round((xmin / BBOX_SCALE) * img.width);
+  const y = Math.round((ymin / BBOX_SCALE) * img.height);
+  const width = Math.max(1, Math.round(((xmax - xmin) / BBOX_SCALE) * img.width));
+  const height = Math.max(1, Math.round(((ymax - ymin) / BBOX_SCALE) * img.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.drawImage(img, x, y, width, height, 0, 0, width, height);
+  const cropped = canvas.toDataURL('image/png').split(',')[1];
+
+  try {
+    return await contourCropImage(cropped, { padding: 4 });
+  } catch (error) {
+    console.warn('[Segmentation] Contour crop failed, keeping box crop:', error);
+    return cropped;
+  }
+}
+
+/**
+ * Crop every region and write them to the repository as a new document
+ */
+export async function saveSegmentedDocument(
+  details: Omit<Document, 'id'>,
+  pages: SegmentationPage[],
+  regions: DetectedRegion[],
+  onProgress?: (cropped: number, total: number) => void
+): Promise<Document> {
+  const components = [];
+
+  for (const region of regions) {
+    const page = pages.find(p => p.page === region.page);
+    if (!page) continue;
+
+    components.push({
+      componentId: region.componentId,
+      page: region.page,
+      imageBase64: await cropRegion(page, region.bbox),
+      bbox: [...region.bbox],
+    });
+    onProgress?.(components.length, regions.length);
+  }
+
+  return createDocument(details, components);
+}
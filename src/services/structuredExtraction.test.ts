@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { ComponentData, ComponentId } from './componentService';
+import {
+  formatStructuredContent,
+  getStructuredContent,
+  getStructuredInstructions,
+  isStructuredComponent,
+  parseStructuredContent,
+  validateStructuredContent,
+} from './structuredExtraction';
+
+describe('parseStructuredContent', () => {
+  it('parses fenced JSON and fills missing optional fields with null', () => {
+    const text = '```json\n[{ "dose": "2 puffs", "frequency": "twice daily" }]\n```';
+    expect(parseStructuredContent('SAFE_01', text)).toEqual([
+      { dose: '2 puffs', frequency: 'twice daily', duration: null, population: null },
+    ]);
+  });
+
+  it('rejects text that is not a JSON array', () => {
+    expect(parseStructuredContent('REG_02', 'NOT_FOUND')).toBeNull();
+    expect(parseStructuredContent('REG_02', '{ "number": 1, "text": "Ref" }')).toBeNull();
+  });
+
+  it('accepts an empty array for content that is not visible', () => {
+    expect(parseStructuredContent('REG_09', '[]')).toEqual([]);
+  });
+});
+
+describe('validateStructuredContent', () => {
+  it('rejects the whole array when one item breaks the schema', () => {
+    expect(validateStructuredContent('SOL_02', [
+      { drug: 'Glycopyrronium', strength: 50, unit: 'mcg' },
+      { drug: 'Formoterol', strength: '12', unit: 'mcg' },
+    ])).toBeNull();
+  });
+
+  it('requires the mandatory text fields to be non-empty', () => {
+    expect(validateStructuredContent('REG_09', [{ abbreviation: 'COPD', expansion: ' ' }])).toBeNull();
+    expect(validateStructuredContent('EVID_01', [{ claim: '45% fewer exacerbations', citations: ['1'] }])).toBeNull();
+  });
+
+  it('keeps numeric citations on efficacy claims', () => {
+    expect(validateStructuredContent('EVID_01', [{ claim: '45% fewer exacerbations¹', value: '45%', citations: [1] }])).toEqual([
+      { claim: '45% fewer exacerbations¹', value: '45%', comparator: null, pValue: null, citations: [1] },
+    ]);
+  });
+});
+
+describe('formatStructuredContent', () => {
+  it('renders each schema as readable text', () => {
+    expect(formatStructuredContent('SOL_02', [
+      { drug: 'Glycopyrronium', strength: 50, unit: 'mcg' },
+      { drug: 'Formoterol', strength: null, unit: null },
+    ])).toBe('Glycopyrronium 50mcg + Formoterol');
+    expect(formatStructuredContent('SAFE_01', [
+      { dose: '1 capsule', frequency: 'once daily', duration: '12 weeks', population: 'adults' },
+    ])).toBe('adults: 1 capsule once daily for 12 weeks');
+    expect(formatStructuredContent('REG_02', [{ number: 1, text: 'Author A' }, { number: 2, text: 'Author B' }]))
+      .toBe('1. Author A\n2. Author B');
+    expect(formatStructuredContent('REG_09', [{ abbreviation: 'COPD', expansion: 'Chronic Obstructive Pulmonary Disease' }]))
+      .toBe('COPD: Chronic Obstructive Pulmonary Disease');
+  });
+});
+
+describe('schema lookup', () => {
+  it('covers only the fixed-shape components', () => {
+    expect((['SOL_02', 'SAFE_01', 'REG_02', 'REG_09', 'EVID_01'] as ComponentId[]).every(isStructuredComponent)).toBe(true);
+    expect(isStructuredComponent('INIT_03')).toBe(false);
+  });
+
+  it('shows the model the shape and an example', () => {
+    const instructions = getStructuredInstructions('REG_02');
+    expect(instructions).toContain('[{ "number": number, "text": string }]');
+    expect(instructions).toContain('Example: [{"number":1,');
+  });
+
+  it('reads valid structured data stored on the matching component only', () => {
+    const component: ComponentData = {
+      id: 'doc-1-page-3-REG_02-1.png',
+      product_id: 'doc-1',
+      component_id: 'REG_02',
+      content: '1. Author A',
+      image_path: null,
+      image_base64: null,
+      bbox: null,
+      metadata: { page: 'page-3', structured: [{ number: 1, text: 'Author A' }] },
+      created_at: '',
+      updated_at: '',
+    };
+
+    expect(getStructuredContent(component, 'REG_02')).toEqual([{ number: 1, text: 'Author A' }]);
+    expect(getStructuredContent(component, 'REG_09')).toBeNull();
+    expect(getStructuredContent({ ...component, metadata: { structured: 'Author A' } }, 'REG_02')).toBeNull();
+    expect(getStructuredContent(undefined, 'REG_02')).toBeNull();
+  });
+});
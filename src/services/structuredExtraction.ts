@@ -0,0 +1,176 @@
+/**
+ * Structured Extraction Schemas
+ *
+ * Typed extraction output for components whose content has a fixed shape
+ * (composition, dosage, references, abbreviations, efficacy claims)
+ * Parsed data is stored in ComponentData.metadata.structured; content keeps a readable text form
+ */
+
+import type { ComponentData, ComponentId } from './componentService';
+
+export interface CompositionItem {
+  drug: string;
+  strength: number | null;
+  unit: string | null;          // e.g. "mg", "mcg", "%"
+}
+
+export interface DosageInstruction {
+  dose: string;                 // e.g. "1 tablet", "8 mg"
+  frequency: string | null;     // e.g. "once daily"
+  duration: string | null;      // e.g. "12 weeks"
+  population: string | null;    // e.g. "adults", "renal impairment"
+}
+
+export interface Reference {
+  number: number;               // Citation marker used in claims (¹ → 1)
+  text: string;
+}
+
+export interface Abbreviation {
+  abbreviation: string;
+  expansion: string;
+}
+
+export interface EfficacyClaim {
+  claim: string;                // Full claim text as printed
+  value: string | null;         // e.g. "45%", "120 ml"
+  comparator: string | null;    // e.g. "vs placebo"
+  pValue: string | null;        // e.g. "p<0.001"
+  citations: number[];          // Reference numbers from superscripts
+}
+
+export interface StructuredContentMap {
+  SOL_02: CompositionItem[];
+  SAFE_01: DosageInstruction[];
+  REG_02: Reference[];
+  REG_09: Abbreviation[];
+  EVID_01: EfficacyClaim[];
+}
+
+export type StructuredComponentId = keyof StructuredContentMap;
+export type StructuredContent = StructuredContentMap[StructuredComponentId];
+
+interface StructuredSchema<T> {
+  description: string;         // Shape shown to the model
+  example: T;
+  isValid: (item: unknown) => boolean;
+  format: (items: T) => string; // Readable text for content / prompts
+}
+
+type Row = Record<string, unknown>;
+
+const isRow = (item: unknown): item is Row => !!item && typeof item === 'object' && !Array.isArray(item);
+const isText = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+const isOptionalText = (value: unknown) => value === null || value === undefined || typeof value === 'string';
+const isOptionalNumber = (value: unknown) => value === null || value === undefined || typeof value === 'number';
+
+const SCHEMAS: { [K in StructuredComponentId]: StructuredSchema<StructuredContentMap[K]> } = {
+  SOL_02: {
+    description: '[{ "drug": string, "strength": number | null, "unit": string | null }]',
+    example: [{ drug: 'Silodosin', strength: 8, unit: 'mg' }, { drug: 'Mirabegron', strength: 25, unit: 'mg' }],
+    isValid: item => isRow(item) && isText(item.drug) && isOptionalNumber(item.strength) && isOptionalText(item.unit),
+    format: items => items
+      .map(i => [i.drug, i.strength !== null ? `${i.strength}${i.unit || ''}` : null].filter(Boolean).join(' '))
+      .join(' + '),
+  },
+  SAFE_01: {
+    description: '[{ "dose": string, "frequency": string | null, "duration": string | null, "population": string | null }]',
+    example: [{ dose: '1 tablet', frequency: 'once daily', duration: null, population: 'adults' }],
+    isValid: item => isRow(item) && isText(item.dose) &&
+      isOptionalText(item.frequency) && isOptionalText(item.duration) && isOptionalText(item.population),
+    format: items => items
+      .map(i => [i.population ? `${i.population}:` : null, i.dose, i.frequency, i.duration ? `for ${i.duration}` : null]
+        .filter(Boolean).join(' '))
+      .join('\n'),
+  },
+  REG_02: {
+    description: '[{ "number": number, "text": string }]',
+    example: [{ number: 1, text: 'Author A, et al. Journal. 2020;12(3):45-50.' }],
+    isValid: item => isRow(item) && typeof item.number === 'number' && isText(item.text),
+    format: items => items.map(i => `${i.number}. ${i.text}`).join('\n'),
+  },
+  REG_09: {
+    description: '[{ "abbreviation": string, "expansion": string }]',
+    example: [{ abbreviation: 'COPD', expansion: 'Chronic Obstructive Pulmonary Disease' }],
+    isValid: item => isRow(item) && isText(item.abbreviation) && isText(item.expansion),
+    format: items => items.map(i => `${i.abbreviation}: ${i.expansion}`).join('; '),
+  },
+  EVID_01: {
+    description: '[{ "claim": string, "value": string | null, "comparator": string | null, "pValue": string | null, "citations": number[] }]',
+    example: [{ claim: '45% reduction in exacerbations vs placebo (p<0.001)¹', value: '45%', comparator: 'vs placebo', pValue: 'p<0.001', citations: [1] }],
+    isValid: item => isRow(item) && isText(item.claim) &&
+      isOptionalText(item.value) && isOptionalText(item.comparator) && isOptionalText(item.pValue) &&
+      Array.isArray(item.citations) && item.citations.every(n => typeof n === 'number'),
+    format: items => items.map(i => i.claim).join('\n'),
+  },
+};
+
+export function isStructuredComponent(componentId: ComponentId): componentId is StructuredComponentId {
+  return componentId in SCHEMAS;
+}
+
+/**
+ * Output instructions appended to the extraction task for a structured component
+ */
+export function getStructuredInstructions(componentId: StructuredComponentId): string {
+  const schema = SCHEMAS[componentId];
+  return `Return a JSON array matching: ${schema.description}
+Example: ${JSON.stringify(schema.example)}
+Use null for values that are not printed. Return [] if the content is not visible.`;
+}
+
+/**
+ * Validate already-parsed JSON against a component schema
+ */
+export function validateStructuredContent<K extends StructuredComponentId>(
+  componentId: K,
+  value: unknown
+): StructuredContentMap[K] | null {
+  const schema = SCHEMAS[componentId];
+  if (!Array.isArray(value) || !value.every(schema.isValid)) return null;
+
+  // Normalise missing optional fields to null
+  return value.map(item => {
+    const row = { ...(item as Row) };
+    for (const key of Object.keys(schema.example[0])) {
+      if (row[key] === undefined) row[key] = null;
+    }
+    return row;
+  }) as unknown as StructuredContentMap[K];
+}
+
+/**
+ * Parse a model response (optionally wrapped in ```json fences) for a structured component
+ */
+export function parseStructuredContent<K extends StructuredComponentId>(
+  componentId: K,
+  text: string
+): StructuredContentMap[K] | null {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return validateStructuredContent(componentId, JSON.parse(json));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Readable text form of structured content (stored in ComponentData.content)
+ */
+export function formatStructuredContent<K extends StructuredComponentId>(
+  componentId: K,
+  items: StructuredContentMap[K]
+): string {
+  return SCHEMAS[componentId].format(items);
+}
+
+/**
+ * Read structured data stored on a component, if any
+ */
+export function getStructuredContent<K extends StructuredComponentId>(
+  component: ComponentData | undefined,
+  componentId: K
+): StructuredContentMap[K] | null {
+  if (!component || component.component_id !== componentId) return null;
+  return validateStructuredContent(componentId, component.metadata?.structured);
+}
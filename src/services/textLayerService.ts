@@ -0,0 +1,148 @@
+/**
+ * Text Layer Service
+ *
+ * Deterministic text layer mode: the model paints only the background and visuals with empty
+ * text zones, then every word (brand, claims, composition, disclaimers) is typeset from component
+ * content by the server's SVG renderer (/api/overlay), so wording and spelling are exact
+ */
+
+import { postJson } from './apiClient';
+import type { ComponentData, ComponentId } from './componentService';
+import { getStructuredContent } from './structuredExtraction';
+
+export type TextLayerMode = 'model' | 'typeset';
+
+// Mirrors TextRegion in server/textOverlayServer.ts (positions in % of the image)
+export interface TextRegion {
+  id: string;
+  englishText: string;
+  translatedText?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fontSize: number;            // px at 1920x1080, scaled to the image
+  fontWeight: 'normal' | 'bold';
+  textAlign: 'left' | 'center' | 'right';
+  color: string;
+  backgroundColor?: string;
+  backgroundPadding?: number;
+  lineHeight?: number;
+  maxLines?: number;
+  minFontSize?: number;        // Auto-shrink floor (default 60% of fontSize)
+  verticalAlign?: 'top' | 'middle' | 'bottom';
+  // Bilingual overlays only (secondaryLanguage in /api/overlay)
+  secondaryText?: string;      // Default: englishText in the secondary language
+  secondaryFontSize?: number;  // Default 75% of fontSize
+  secondaryFontWeight?: 'normal' | 'bold';
+  secondaryColor?: string;     // Default: color
+}
+
+// Mirrors BilingualArrangement in server/textOverlayServer.ts
+export type BilingualArrangement = 'stacked' | 'side-by-side';
+
+export interface TextZone {
+  id: string;
+  label: string;               // Shown to the model when reserving the zone
+  componentIds: ComponentId[]; // Filled from these components, one line per entry
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fontSize: number;
+  fontWeight: 'normal' | 'bold';
+  textAlign: 'left' | 'center' | 'right';
+  color: string;
+  backgroundColor?: string;
+}
+
+// Landscape template - keeps the logo corners (12% x 15%) and the centre-left visual area free
+export const DEFAULT_TEXT_ZONES: TextZone[] = [
+  { id: 'brand', label: 'Brand name', componentIds: ['INIT_01a', 'INIT_01b'], x: 14, y: 3, width: 72, height: 7, fontSize: 44, fontWeight: 'bold', textAlign: 'center', color: '#1a365d' },
+  { id: 'headline', label: 'Headline', componentIds: ['INIT_03'], x: 14, y: 10, width: 72, height: 6, fontSize: 24, fontWeight: 'normal', textAlign: 'center', color: '#1a365d' },
+  { id: 'indication', label: 'Indication', componentIds: ['INS_04'], x: 5, y: 18, width: 42, height: 10, fontSize: 18, fontWeight: 'normal', textAlign: 'left', color: '#2d2d2d' },
+  { id: 'composition', label: 'Composition', componentIds: ['SOL_02'], x: 5, y: 29, width: 42, height: 7, fontSize: 16, fontWeight: 'bold', textAlign: 'left', color: '#2d2d2d' },
+  { id: 'claims', label: 'Key claims', componentIds: ['SOL_01', 'EVID_01'], x: 53, y: 18, width: 42, height: 40, fontSize: 20, fontWeight: 'bold', textAlign: 'left', color: '#1a365d' },
+  { id: 'dosage', label: 'Dosage', componentIds: ['SAFE_01'], x: 5, y: 62, width: 42, height: 12, fontSize: 14, fontWeight: 'normal', textAlign: 'left', color: '#2d2d2d' },
+  { id: 'safety', label: 'Safety', componentIds: ['SAFE_03'], x: 53, y: 62, width: 42, height: 12, fontSize: 14, fontWeight: 'normal', textAlign: 'left', color: '#2d2d2d' },
+  { id: 'references', label: 'References', componentIds: ['REG_02'], x: 5, y: 78, width: 90, height: 11, fontSize: 10, fontWeight: 'normal', textAlign: 'left', color: '#4a4a4a' },
+  { id: 'disclaimer', label: 'Disclaimer', componentIds: ['REG_05'], x: 5, y: 91, width: 90, height: 5, fontSize: 12, fontWeight: 'normal', textAlign: 'center', color: '#2d2d2d', backgroundColor: 'rgba(255,255,255,0.85)' },
+];
+
+/**
+ * Text for one component entry - structured claims are printed one per line
+ */
+function getEntryText(component: ComponentData): string | null {
+  const claims = getStructuredContent(component, 'EVID_01');
+  if (claims) return claims.map(claim => claim.claim).join('\n');
+  return component.content?.trim() || null;
+}
+
+function getZoneText(zone: TextZone, components: ComponentData[]): string {
+  const entries = zone.componentIds.flatMap(id =>
+    components.filter(c => c.component_id === id).map(getEntryText).filter((text): text is string => !!text)
+  );
+  // The brand name reads as one line ("Brand Variant"), everything else one entry per line
+  return entries.join(zone.id === 'brand' ? ' ' : '\n');
+}
+
+/**
+ * Prompt section asking for a text-free visual with the zones left clear
+ */
+export function buildTextLayerPrompt(components: ComponentData[], zones: TextZone[] = DEFAULT_TEXT_ZONES): string {
+  const usedZones = zones.filter(zone => getZoneText(zone, components));
+  const zoneList = usedZones
+    .map(zone => `• ${zone.label}: x ${zone.x}%–${zone.x + zone.width}%, y ${zone.y}%–${zone.y + zone.height}%`)
+    .join('\n');
+
+  return `=== TEXT LAYER (OVERRIDES ALL TEXT INSTRUCTIONS ABOVE) ===
+All copy is typeset separately after generation. Generate the background and visuals ONLY.
+• DO NOT render any text, letters, numbers, labels, captions or chart annotations
+• Keep these zones as calm, low-detail areas (solid or soft gradient, light tone) so dark text stays readable:
+${zoneList}
+• Place imagery, shapes and key visuals outside these zones
+• Logo corners stay empty as before`;
+}
+
+/**
+ * Overlay regions for every zone that has component content
+ */
+export function buildTextRegions(components: ComponentData[], zones: TextZone[] = DEFAULT_TEXT_ZONES): TextRegion[] {
+  return zones
+    .map(zone => ({ zone, text: getZoneText(zone, components) }))
+    .filter(({ text }) => text)
+    .map(({ zone, text }) => ({
+      id: zone.id,
+      englishText: text,
+      x: zone.x,
+      y: zone.y,
+      width: zone.width,
+      height: zone.height,
+      fontSize: zone.fontSize,
+      fontWeight: zone.fontWeight,
+      textAlign: zone.textAlign,
+      color: zone.color,
+      backgroundColor: zone.backgroundColor,
+      backgroundPadding: zone.backgroundColor ? 8 : undefined,
+      lineHeight: 1.3,
+    }));
+}
+
+/**
+ * Typeset all component copy onto a text-free visual
+ */
+export async function typesetTextLayer(
+  imageBase64: string,
+  components: ComponentData[],
+  zones: TextZone[] = DEFAULT_TEXT_ZONES
+): Promise<{ imageBase64: string; regions: TextRegion[] }> {
+  const regions = buildTextRegions(components, zones);
+  const data = await postJson<{ imageBase64: string }>('/api/overlay', {
+    imageBase64,
+    language: 'English',
+    regions,
+  });
+
+  console.log(`[TextLayer] Typeset ${regions.length} zones`);
+  return { imageBase64: data.imageBase64, regions };
+}
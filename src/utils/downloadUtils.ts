@@ -0,0 +1,25 @@
+/**
+ * Download a base64 image as a file
+ */
+export function downloadBase64Image(imageBase64: string, mimeType: string, filename?: string): void {
+  const link = document.createElement('a');
+  link.href = `data:${mimeType};base64,${imageBase64}`;
+  link.download = filename || `LBL-${Date.now()}.${mimeType.split('/')[1] || 'png'}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+/**
+ * Download text (CSV, JSON, ...) as a file
+ */
+export function downloadTextFile(text: string, mimeType: string, filename: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
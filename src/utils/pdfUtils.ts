@@ -54,6 +54,30 @@ export async function fileToBase64(file: File): Promise<string> {
   });
 }
 
+/**
+ * Convert an image file to PNG base64 (component images are stored as .png)
+ */
+export async function imageFileToPngBase64(file: File): Promise<string> {
+  const url = URL.createObjectURL(file);
+
+  try {
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error('Failed to load image'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    canvas.getContext('2d')!.drawImage(img, 0, 0);
+    return canvas.toDataURL('image/png').split(',')[1];
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
 /**
  * Extract text from PDF to find brand/product name
  */
@@ -1,5 +1,6 @@
 import type { ComponentData, ComponentId } from '../services/componentService';
 import { COMPONENT_METADATA, groupComponentsBySection } from '../services/componentService';
+import { getStructuredContent } from '../services/structuredExtraction';
 
 // Focus area types for LBL generation
 export type FocusAreaType = 'Efficacy' | 'Safety' | 'Evidence';
@@ -49,7 +50,10 @@ function buildFocusAreaPrompt(components: ComponentData[], focusArea: string = '
 
   // Collect all claims
   const claims = getAllContent('SOL_01');
-  const efficacyClaims = getAllContent('EVID_01');
+  // Structured efficacy data lists one claim per entry - flatten so each gets its own bullet
+  const efficacyClaims = components
+    .filter(c => c.component_id === 'EVID_01' && c.content)
+    .flatMap(c => getStructuredContent(c, 'EVID_01')?.map(item => item.claim) ?? [c.content as string]);
   const safetyClaims = getAllContent('SAFE_03');
 
   // Build focus area content
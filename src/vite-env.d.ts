@@ -1,7 +1,10 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_GEMINI_API_KEY: string;
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_SUPABASE_GENERATIONS?: string;
+  readonly VITE_SUPABASE_EXTRACTIONS?: string;
+  readonly VITE_COMPONENT_REPOSITORY?: 'supabase' | 'local';
 }
 
 interface ImportMeta {
@@ -4,4 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // Gemini calls go through the API server (npm run server) so the key stays server-side
+    proxy: {
+      '/api': 'http://localhost:3001',
+    },
+  },
 })